@@ -1,4 +1,5 @@
-import { Switch, Route } from "wouter";
+import { useState } from "react";
+import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -7,15 +8,26 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { AppSidebar } from "@/components/app-sidebar";
+import { NotificationBell } from "@/components/notification-bell";
+import { Input } from "@/components/ui/input";
+import { Search as SearchIcon } from "lucide-react";
+import { useEconomy } from "@/hooks/useEconomy";
 import Home from "@/pages/home";
 import CreatePrompt from "@/pages/create-prompt";
 import EditPrompt from "@/pages/edit-prompt";
+import Drafts from "@/pages/drafts";
+import Composer from "@/pages/composer";
 import ReviewQueue from "@/pages/review-queue";
+import SuggestedEdits from "@/pages/suggested-edits";
+import ReviewRubric from "@/pages/review-rubric";
+import ReviewAudits from "@/pages/review-audits";
 import Techniques from "@/pages/techniques";
 import Leaderboard from "@/pages/leaderboard";
 import Profile from "@/pages/profile";
 import PromptDetail from "@/pages/prompt-detail";
+import ChangeProposalPage from "@/pages/change-proposal";
 import UserProfile from "@/pages/user-profile";
+import Search from "@/pages/search";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -23,10 +35,18 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/create" component={CreatePrompt} />
+      <Route path="/drafts" component={Drafts} />
+      <Route path="/composer" component={Composer} />
       <Route path="/prompts/:id/edit" component={EditPrompt} />
+      <Route path="/prompts/:id/composer" component={Composer} />
       <Route path="/prompts/:id" component={PromptDetail} />
+      <Route path="/proposals/:id" component={ChangeProposalPage} />
       <Route path="/review-queue" component={ReviewQueue} />
+      <Route path="/suggested-edits" component={SuggestedEdits} />
+      <Route path="/review-rubric" component={ReviewRubric} />
+      <Route path="/review-audits" component={ReviewAudits} />
       <Route path="/techniques" component={Techniques} />
+      <Route path="/search" component={Search} />
       <Route path="/leaderboard" component={Leaderboard} />
       <Route path="/profile" component={Profile} />
       <Route path="/users/:username" component={UserProfile} />
@@ -35,6 +55,39 @@ function Router() {
   );
 }
 
+// Holds rendering until the economy is loaded so no page checks a privilege against stale thresholds
+function EconomyGate({ children }: { children: React.ReactNode }) {
+  const { isLoading } = useEconomy();
+  return isLoading ? null : <>{children}</>;
+}
+
+function HeaderSearch() {
+  const [, setLocation] = useLocation();
+  const [query, setQuery] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = query.trim();
+    if (q) {
+      setLocation(`/search?q=${encodeURIComponent(q)}`);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative flex-1 max-w-md mx-4">
+      <SearchIcon className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search prompts..."
+        className="pl-8"
+        data-testid="input-header-search"
+      />
+    </form>
+  );
+}
+
 function App() {
   const style = {
     "--sidebar-width": "20rem",
@@ -45,20 +98,26 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <ThemeProvider>
         <TooltipProvider>
-          <SidebarProvider style={style as React.CSSProperties}>
-            <div className="flex h-screen w-full">
-              <AppSidebar />
-              <div className="flex flex-col flex-1">
-                <header className="flex items-center justify-between p-2 border-b">
-                  <SidebarTrigger data-testid="button-sidebar-toggle" />
-                  <ThemeToggle />
-                </header>
-                <main className="flex-1 overflow-auto">
-                  <Router />
-                </main>
+          <EconomyGate>
+            <SidebarProvider style={style as React.CSSProperties}>
+              <div className="flex h-screen w-full">
+                <AppSidebar />
+                <div className="flex flex-col flex-1">
+                  <header className="flex items-center justify-between p-2 border-b">
+                    <SidebarTrigger data-testid="button-sidebar-toggle" />
+                    <HeaderSearch />
+                    <div className="flex items-center gap-1">
+                      <NotificationBell />
+                      <ThemeToggle />
+                    </div>
+                  </header>
+                  <main className="flex-1 overflow-auto">
+                    <Router />
+                  </main>
+                </div>
               </div>
-            </div>
-          </SidebarProvider>
+            </SidebarProvider>
+          </EconomyGate>
           <Toaster />
         </TooltipProvider>
       </ThemeProvider>
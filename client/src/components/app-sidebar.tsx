@@ -1,4 +1,4 @@
-import { Home, Plus, User, Library, Award, CheckSquare, LogOut } from "lucide-react";
+import { Home, Plus, User, Library, Award, CheckSquare, ListChecks, LogOut, ShieldCheck, Workflow, FileText, PencilLine } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -22,8 +22,16 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/hooks/useAuth";
+import { getEconomy, type Privilege } from "@shared/economy";
 
-const menuItems = [
+const menuItems: {
+  title: string;
+  url: string;
+  icon: typeof Home;
+  testId: string;
+  requiresAuth?: boolean;
+  requiresPrivilege?: Privilege;
+}[] = [
   {
     title: "Browse Prompts",
     url: "/",
@@ -36,12 +44,46 @@ const menuItems = [
     icon: Plus,
     testId: "link-create",
   },
+  {
+    title: "My Drafts",
+    url: "/drafts",
+    icon: FileText,
+    testId: "link-drafts",
+    requiresAuth: true,
+  },
+  {
+    title: "Visual Composer",
+    url: "/composer",
+    icon: Workflow,
+    testId: "link-composer",
+  },
   {
     title: "Review Queue",
     url: "/review-queue",
     icon: CheckSquare,
     testId: "link-review-queue",
-    requiresReputation: 500,
+    requiresPrivilege: "REVIEW",
+  },
+  {
+    title: "Suggested Edits",
+    url: "/suggested-edits",
+    icon: PencilLine,
+    testId: "link-suggested-edits",
+    requiresPrivilege: "REVIEW",
+  },
+  {
+    title: "Review Rubric",
+    url: "/review-rubric",
+    icon: ListChecks,
+    testId: "link-review-rubric",
+    requiresPrivilege: "MANAGE_RUBRIC",
+  },
+  {
+    title: "Review Audits",
+    url: "/review-audits",
+    icon: ShieldCheck,
+    testId: "link-review-audits",
+    requiresPrivilege: "MODERATE",
   },
   {
     title: "Techniques",
@@ -61,9 +103,12 @@ export function AppSidebar() {
   const [location] = useLocation();
   const { user } = useAuth();
 
-  // Add Review Queue for users with 500+ reputation
+  // Privileged items only show for users with the reputation they need
   const visibleMenuItems = menuItems.filter((item) => {
-    if (item.requiresReputation && (!user || user.reputation < item.requiresReputation)) {
+    if (item.requiresAuth && !user) {
+      return false;
+    }
+    if (item.requiresPrivilege && (!user || user.reputation < getEconomy().thresholds[item.requiresPrivilege])) {
       return false;
     }
     return true;
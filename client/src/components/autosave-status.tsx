@@ -0,0 +1,37 @@
+import { formatDistance } from "date-fns";
+import { AlertCircle, Check, Loader2 } from "lucide-react";
+import type { AutosaveStatus as Status } from "@/hooks/useDraftAutosave";
+
+interface AutosaveStatusProps {
+  status: Status;
+  savedAt: Date | null;
+}
+
+export function AutosaveStatus({ status, savedAt }: AutosaveStatusProps) {
+  if (status === "idle") {
+    return null;
+  }
+
+  return (
+    <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="text-autosave-status">
+      {status === "saving" && (
+        <>
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Saving draft...
+        </>
+      )}
+      {status === "saved" && savedAt && (
+        <>
+          <Check className="h-3 w-3" />
+          Draft saved {formatDistance(savedAt, new Date(), { addSuffix: true })}
+        </>
+      )}
+      {status === "error" && (
+        <>
+          <AlertCircle className="h-3 w-3 text-destructive" />
+          Couldn't save draft; will retry
+        </>
+      )}
+    </span>
+  );
+}
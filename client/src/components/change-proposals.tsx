@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { formatDistance } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { GitPullRequest, MessageSquare } from "lucide-react";
+import { LoadMore } from "@/components/load-more";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import type { ChangeProposal, ChangeProposalStatus, ChangeProposalWithPrompts, Prompt } from "@shared/schema";
+
+const STATUS_VARIANTS: Record<ChangeProposalStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  open: "secondary",
+  accepted: "default",
+  declined: "destructive",
+  withdrawn: "outline",
+};
+
+export function ChangeProposalStatusBadge({ status }: { status: ChangeProposalStatus }) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status]} data-testid="badge-proposal-status">
+      {status}
+    </Badge>
+  );
+}
+
+interface ProposeChangesDialogProps {
+  prompt: Prompt;
+}
+
+// Lets a fork's author ask the prompt it was forked from to adopt the fork's current content
+export function ProposeChangesDialog({ prompt }: ProposeChangesDialogProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/v1/change-proposals", {
+        sourcePromptId: prompt.id,
+        title,
+        description,
+      });
+      return await res.json() as ChangeProposal;
+    },
+    onSuccess: (proposal) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/prompts", prompt.id, "proposals"] });
+      setOpen(false);
+      toast({ title: "Change proposal opened", description: "The original author has been notified." });
+      navigate(`/proposals/${proposal.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to open change proposal",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-propose-changes">
+          <GitPullRequest className="h-4 w-4 mr-2" />
+          Propose changes upstream
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Propose changes upstream</DialogTitle>
+          <DialogDescription>
+            Ask the author of the prompt you forked to adopt this fork's current content. If they accept, it
+            becomes a new revision of their prompt credited to you.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="proposal-title">Title</Label>
+            <Input
+              id="proposal-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Summarize the improvement"
+              data-testid="input-proposal-title"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="proposal-description">Description</Label>
+            <Textarea
+              id="proposal-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What did you change, and why does it work better?"
+              rows={5}
+              data-testid="input-proposal-description"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => proposeMutation.mutate()}
+            disabled={proposeMutation.isPending || title.trim().length < 5 || description.trim().length < 10}
+            data-testid="button-submit-proposal"
+          >
+            {proposeMutation.isPending ? "Opening..." : "Open proposal"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ChangeProposalListProps {
+  promptId: string;
+}
+
+// Proposals made to this prompt and, when it is a fork, the ones it sent upstream
+export function ChangeProposalList({ promptId }: ChangeProposalListProps) {
+  const {
+    items: proposals,
+    totalCount,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedQuery<ChangeProposalWithPrompts>(
+    ["/api/v1/prompts", promptId, "proposals"],
+    `/api/v1/prompts/${promptId}/proposals`,
+  );
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  if (proposals.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-no-proposals">
+        No change proposals yet. Fork authors can propose their changes back to the prompt they forked.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <ul className="divide-y">
+        {proposals.map((proposal) => {
+          const incoming = proposal.targetPromptId === promptId;
+          return (
+            <li key={proposal.id} className="flex flex-wrap items-center gap-2 py-2" data-testid={`proposal-${proposal.id}`}>
+              <ChangeProposalStatusBadge status={proposal.status} />
+              <Link to={`/proposals/${proposal.id}`} className="font-medium hover:text-primary">
+                {proposal.title}
+              </Link>
+              <span className="text-sm text-muted-foreground">
+                {incoming ? `from "${proposal.sourceTitle}" by ${proposal.proposerId}` : `to "${proposal.targetTitle}"`}
+              </span>
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <MessageSquare className="h-3 w-3" />
+                {proposal.commentCount}
+              </span>
+              <span className="ml-auto text-xs text-muted-foreground">
+                {formatDistance(new Date(proposal.createdAt), new Date(), { addSuffix: true })}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      <LoadMore
+        hasNextPage={hasNextPage}
+        isFetchingNextPage={isFetchingNextPage}
+        fetchNextPage={fetchNextPage}
+        loaded={proposals.length}
+        totalCount={totalCount}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import type { DiffOp, PromptDiff, TextDiff } from "@shared/diff";
+
+interface DiffTarget {
+  promptId: string;
+  // Compare two revisions of the same prompt (defaults to previous -> current)
+  from?: number;
+  to?: number;
+  // Or compare the prompt against another prompt, e.g. the parent of a fork
+  compareTo?: string;
+  // Or preview a suggested edit of the prompt against its current content
+  suggestedEditId?: number;
+}
+
+type DiffMode = "inline" | "side-by-side";
+
+function diffQueryPath({ from, to, compareTo }: DiffTarget) {
+  const params = new URLSearchParams();
+  if (compareTo) {
+    params.set("compareTo", compareTo);
+  } else {
+    if (from !== undefined) params.set("from", String(from));
+    if (to !== undefined) params.set("to", String(to));
+  }
+  const query = params.toString();
+  return query ? `diff?${query}` : "diff";
+}
+
+function hasChanges(ops: DiffOp[]) {
+  return ops.some((op) => op.type !== "equal");
+}
+
+function InlineDiff({ ops }: { ops: DiffOp[] }) {
+  return (
+    <pre className="text-xs bg-muted p-3 rounded-md overflow-x-auto font-mono whitespace-pre-wrap">
+      {ops.map((op, index) => (
+        <span
+          key={index}
+          className={cn(
+            op.type === "insert" && "bg-green-500/20 text-green-700 dark:text-green-400",
+            op.type === "delete" && "bg-red-500/20 text-red-700 dark:text-red-400 line-through",
+          )}
+        >
+          {op.value}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
+// Pair deleted and inserted lines between unchanged ones into side-by-side rows
+function toRows(ops: DiffOp[]) {
+  const rows: { left?: DiffOp; right?: DiffOp }[] = [];
+  let deleted: DiffOp[] = [];
+  let inserted: DiffOp[] = [];
+
+  const flush = () => {
+    const length = Math.max(deleted.length, inserted.length);
+    for (let i = 0; i < length; i++) {
+      rows.push({ left: deleted[i], right: inserted[i] });
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === "delete") {
+      deleted.push(op);
+    } else if (op.type === "insert") {
+      inserted.push(op);
+    } else {
+      flush();
+      rows.push({ left: op, right: op });
+    }
+  }
+  flush();
+  return rows;
+}
+
+function SideBySideDiff({ ops }: { ops: DiffOp[] }) {
+  const cell = (op?: DiffOp) => (
+    <td
+      className={cn(
+        "align-top px-2 py-0.5 w-1/2 whitespace-pre-wrap",
+        op?.type === "insert" && "bg-green-500/20",
+        op?.type === "delete" && "bg-red-500/20",
+        !op && "bg-muted/50",
+      )}
+    >
+      {op?.value}
+    </td>
+  );
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <table className="w-full text-xs font-mono">
+        <tbody>
+          {toRows(ops).map((row, index) => (
+            <tr key={index} className="border-b last:border-b-0">
+              {cell(row.left)}
+              {cell(row.right)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function TextDiffSection({ title, diff, mode, testId }: { title: string; diff: TextDiff; mode: DiffMode; testId: string }) {
+  return (
+    <DiffSection title={title} changed={hasChanges(diff.words)} testId={testId}>
+      {mode === "inline" ? <InlineDiff ops={diff.words} /> : <SideBySideDiff ops={diff.lines} />}
+    </DiffSection>
+  );
+}
+
+function DiffSection({ title, changed, testId, children }: { title: string; changed: boolean; testId: string; children: ReactNode }) {
+  return (
+    <div data-testid={testId}>
+      <div className="flex items-center gap-2 mb-2">
+        <h4 className="text-sm font-semibold">{title}</h4>
+        {!changed && <Badge variant="outline">unchanged</Badge>}
+      </div>
+      {changed && children}
+    </div>
+  );
+}
+
+export function DiffViewer(target: DiffTarget) {
+  const [mode, setMode] = useState<DiffMode>("inline");
+
+  const { data: diff, isLoading, error } = useQuery<PromptDiff>({
+    queryKey: target.suggestedEditId !== undefined
+      ? ["/api/v1/suggested-edits", target.suggestedEditId, "diff"]
+      : ["/api/v1/prompts", target.promptId, diffQueryPath(target)],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-4 w-48" />
+        <Skeleton className="h-24 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !diff) {
+    return (
+      <p className="text-sm text-destructive" data-testid="text-diff-error">
+        {error instanceof Error ? error.message : "Failed to load diff"}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4" data-testid="diff-viewer">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground" data-testid="text-diff-range">
+          {target.suggestedEditId !== undefined
+            ? `v${diff.base.version} → suggested edit`
+            : diff.base.promptId === diff.head.promptId
+            ? `v${diff.base.version} → v${diff.head.version}`
+            : `Original v${diff.base.version} → this prompt v${diff.head.version}`}
+        </p>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as DiffMode)}
+        >
+          <ToggleGroupItem value="inline" data-testid="toggle-diff-inline">Inline</ToggleGroupItem>
+          <ToggleGroupItem value="side-by-side" data-testid="toggle-diff-side-by-side">Side by side</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <DiffSection title="Title" changed={hasChanges(diff.title)} testId="diff-title">
+        <InlineDiff ops={diff.title} />
+      </DiffSection>
+      <TextDiffSection title="Prompt" diff={diff.promptBodyText} mode={mode} testId="diff-prompt-body" />
+      <TextDiffSection title="Rationale" diff={diff.rationale} mode={mode} testId="diff-rationale" />
+
+      {diff.techniques && (
+        <DiffSection
+          title="Techniques"
+          changed={diff.techniques.added.length > 0 || diff.techniques.removed.length > 0}
+          testId="diff-techniques"
+        >
+          <div className="flex flex-wrap gap-2">
+            {diff.techniques.added.map((technique) => (
+              <Badge key={`added-${technique.id}`} variant="outline" className="border-green-500 text-green-700 dark:text-green-400">
+                + {technique.name}
+              </Badge>
+            ))}
+            {diff.techniques.removed.map((technique) => (
+              <Badge key={`removed-${technique.id}`} variant="outline" className="border-red-500 text-red-700 dark:text-red-400 line-through">
+                − {technique.name}
+              </Badge>
+            ))}
+          </div>
+        </DiffSection>
+      )}
+
+      <DiffSection title="Composer structure" changed={diff.promptBodyJson.length > 0} testId="diff-prompt-json">
+        <ul className="text-xs font-mono space-y-1">
+          {diff.promptBodyJson.map((change) => (
+            <li key={`${change.type}-${change.path}`}>
+              <span
+                className={cn(
+                  change.type === "added" && "text-green-700 dark:text-green-400",
+                  change.type === "removed" && "text-red-700 dark:text-red-400",
+                )}
+              >
+                {change.type === "added" ? "+" : change.type === "removed" ? "−" : "~"} {change.path}
+              </span>
+              {change.type === "changed" && (
+                <span className="text-muted-foreground">
+                  {" "}{JSON.stringify(change.before)} → {JSON.stringify(change.after)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </DiffSection>
+    </div>
+  );
+}
+
+interface DiffDialogProps extends DiffTarget {
+  title: string;
+  trigger: ReactNode;
+}
+
+export function DiffDialog({ title, trigger, ...target }: DiffDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Additions are highlighted in green, removals in red.</DialogDescription>
+        </DialogHeader>
+        {/* Only fetch the diff once the dialog is opened */}
+        {open && <DiffViewer {...target} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,227 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ArrowBigUp, ChevronDown, ChevronRight, GitFork, Trophy } from "lucide-react";
+import type { HiddenLineageNode, LineageNode, PromptLineage } from "@shared/schema";
+
+interface LineageTreeProps {
+  promptId: string;
+}
+
+type LineageSort = "votes" | "newest";
+type LineageEntry = LineageNode | HiddenLineageNode;
+
+const SORTERS: Record<LineageSort, (a: LineageNode, b: LineageNode) => number> = {
+  votes: (a, b) => b.voteCount - a.voteCount,
+  newest: (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+};
+
+const isHidden = (node: LineageEntry): node is HiddenLineageNode => "hidden" in node;
+
+interface BranchProps {
+  node: LineageEntry;
+  childrenOf: Map<string, LineageEntry[]>;
+  currentId: string;
+  bestId: string | null;
+  collapsed: Set<string>;
+  onToggle: (id: string) => void;
+}
+
+function LineageBranch({ node, childrenOf, currentId, bestId, collapsed, onToggle }: BranchProps) {
+  const children = childrenOf.get(node.id) ?? [];
+  const isOpen = !collapsed.has(node.id);
+  const isCurrent = node.id === currentId;
+
+  return (
+    <li data-testid={`lineage-node-${node.id}`}>
+      <div className={`flex flex-wrap items-center gap-2 rounded-md px-2 py-1 ${isCurrent ? "bg-muted" : ""}`}>
+        {children.length > 0 ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => onToggle(node.id)}
+            aria-label={isOpen ? "Collapse forks" : "Expand forks"}
+            data-testid={`button-toggle-lineage-${node.id}`}
+          >
+            {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </Button>
+        ) : (
+          <span className="w-6" />
+        )}
+        {isHidden(node) ? (
+          <span className="text-sm italic text-muted-foreground" data-testid={`text-lineage-hidden-${node.id}`}>
+            Unpublished prompt
+          </span>
+        ) : (
+          <LineageNodeSummary node={node} isCurrent={isCurrent} isBest={node.id === bestId} listedForks={children.length} />
+        )}
+      </div>
+      {isOpen && children.length > 0 && (
+        <ul className="ml-5 border-l pl-3 space-y-1">
+          {children.map((child) => (
+            <LineageBranch
+              key={child.id}
+              node={child}
+              childrenOf={childrenOf}
+              currentId={currentId}
+              bestId={bestId}
+              collapsed={collapsed}
+              onToggle={onToggle}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+function LineageNodeSummary({ node, isCurrent, isBest, listedForks }: {
+  node: LineageNode;
+  isCurrent: boolean;
+  isBest: boolean;
+  listedForks: number;
+}) {
+  // Ancestors only list the branch leading here; their other forks live on their own pages
+  const unlisted = node.forkCount - listedForks;
+
+  return (
+    <>
+      {isCurrent ? (
+        <span className="font-medium">{node.title}</span>
+      ) : (
+        <Link to={`/prompts/${node.id}`} className="font-medium hover:text-primary">
+          {node.title}
+        </Link>
+      )}
+      {isCurrent && <Badge variant="outline">this prompt</Badge>}
+      <Badge variant={node.status === "approved" ? "default" : "secondary"}>{node.status.replace("_", " ")}</Badge>
+      {isBest && (
+        <Badge className="bg-amber-500 hover:bg-amber-500" data-testid="badge-top-variant">
+          <Trophy className="h-3 w-3 mr-1" />
+          Top variant
+        </Badge>
+      )}
+      <span className="flex items-center text-sm text-muted-foreground" title={`${node.upvotes} up, ${node.downvotes} down`}>
+        <ArrowBigUp className="h-4 w-4" />
+        {node.voteCount}
+      </span>
+      {node.forkCount > 0 && (
+        <span className="flex items-center gap-1 text-sm text-muted-foreground">
+          <GitFork className="h-3 w-3" />
+          {node.forkCount}
+          {unlisted > 0 && listedForks > 0 && ` (${unlisted} not shown)`}
+        </span>
+      )}
+      <span className="text-xs text-muted-foreground">by {node.authorId}</span>
+    </>
+  );
+}
+
+// Fork family of a prompt: the chain of prompts it was forked from and every published fork
+// below it. The approved variant with the most net votes is marked as the top variant.
+export function LineageTree({ promptId }: LineageTreeProps) {
+  const [sort, setSort] = useState<LineageSort>("votes");
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const { data: lineage, isLoading } = useQuery<PromptLineage>({
+    queryKey: ["/api/v1/prompts", promptId, "lineage"],
+  });
+
+  const { root, childrenOf, bestId, familySize } = useMemo(() => {
+    if (!lineage) {
+      return { root: null, childrenOf: new Map<string, LineageEntry[]>(), bestId: null, familySize: 0 };
+    }
+    const nodes: LineageEntry[] = [...lineage.ancestors, lineage.prompt, ...lineage.descendants];
+    const childrenOf = new Map<string, LineageEntry[]>();
+    for (const node of nodes) {
+      if (node.parentPromptId) {
+        childrenOf.set(node.parentPromptId, [...(childrenOf.get(node.parentPromptId) ?? []), node]);
+      }
+    }
+    // Placeholders only appear on the ancestor chain, which has no siblings to order
+    childrenOf.forEach((children) => children.sort((a, b) => isHidden(a) || isHidden(b) ? 0 : SORTERS[sort](a, b)));
+
+    const best = nodes
+      .filter((node): node is LineageNode => !isHidden(node) && node.status === "approved")
+      .sort(SORTERS.votes)[0];
+    return {
+      root: nodes[0],
+      childrenOf,
+      bestId: nodes.length > 1 && best ? best.id : null,
+      familySize: nodes.length,
+    };
+  }, [lineage, sort]);
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (!lineage || !root || familySize === 1) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-no-lineage">
+        This prompt has no published forks and was not forked from another prompt.
+      </p>
+    );
+  }
+
+  const toggle = (id: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4" data-testid="lineage-tree">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={sort}
+          onValueChange={(value) => value && setSort(value as LineageSort)}
+        >
+          <ToggleGroupItem value="votes" data-testid="toggle-lineage-votes">Most voted</ToggleGroupItem>
+          <ToggleGroupItem value="newest" data-testid="toggle-lineage-newest">Newest</ToggleGroupItem>
+        </ToggleGroup>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setCollapsed(new Set())} data-testid="button-expand-lineage">
+            Expand all
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setCollapsed(new Set(Array.from(childrenOf.keys())))}
+            data-testid="button-collapse-lineage"
+          >
+            Collapse all
+          </Button>
+        </div>
+      </div>
+      <ul className="space-y-1">
+        <LineageBranch
+          node={root}
+          childrenOf={childrenOf}
+          currentId={lineage.prompt.id}
+          bestId={bestId}
+          collapsed={collapsed}
+          onToggle={toggle}
+        />
+      </ul>
+      {lineage.truncated && (
+        <p className="text-xs text-muted-foreground" data-testid="text-lineage-truncated">
+          This family is too large to show in full; open a fork to explore its branch.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+interface LoadMoreProps {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => unknown;
+  // Fetch automatically when the button scrolls into view
+  infinite?: boolean;
+  loaded?: number;
+  totalCount?: number;
+}
+
+export function LoadMore({
+  hasNextPage,
+  isFetchingNextPage,
+  fetchNextPage,
+  infinite = false,
+  loaded,
+  totalCount,
+}: LoadMoreProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!infinite || !hasNextPage || !sentinelRef.current) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinelRef.current);
+    return () => observer.disconnect();
+  }, [infinite, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  if (!hasNextPage) {
+    return null;
+  }
+
+  return (
+    <div ref={sentinelRef} className="flex flex-col items-center gap-2 py-4" data-testid="load-more">
+      {loaded !== undefined && totalCount !== undefined && (
+        <p className="text-xs text-muted-foreground" data-testid="text-load-more-count">
+          Showing {loaded} of {totalCount}
+        </p>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => fetchNextPage()}
+        disabled={isFetchingNextPage}
+        data-testid="button-load-more"
+      >
+        {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {isFetchingNextPage ? "Loading..." : "Load more"}
+      </Button>
+    </div>
+  );
+}
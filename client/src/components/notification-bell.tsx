@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+import { formatDistance } from "date-fns";
+import { LoadMore } from "@/components/load-more";
+import { useAuth } from "@/hooks/useAuth";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Notification } from "@shared/schema";
+
+// Where a notification should take its recipient
+function notificationHref(notification: Notification): string | null {
+  if (!notification.promptId) return null;
+  if (notification.type === "changes_requested") {
+    return `/prompts/${notification.promptId}/edit`;
+  }
+  return `/prompts/${notification.promptId}`;
+}
+
+export function NotificationBell() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/v1/notifications", "unread-count"],
+    enabled: !!user,
+    refetchInterval: 60_000,
+  });
+
+  const {
+    items: notifications,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedQuery<Notification>(["/api/v1/notifications"], "/api/v1/notifications", {
+    limit: 10,
+    enabled: !!user && open,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/v1/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/v1/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/notifications"] });
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const unreadCount = unread?.count ?? 0;
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    const href = notificationHref(notification);
+    if (href) {
+      setOpen(false);
+      navigate(href);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] rounded-full bg-destructive text-destructive-foreground text-[10px] leading-[1.1rem] text-center px-1"
+              data-testid="badge-unread-notifications"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <span className="text-sm font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              data-testid="button-mark-all-read"
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8" data-testid="text-no-notifications">
+              You're all caught up.
+            </p>
+          ) : (
+            notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleSelect(notification)}
+                className={`w-full text-left px-4 py-3 border-b last:border-b-0 hover-elevate ${notification.readAt ? "" : "bg-primary/5"}`}
+                data-testid={`notification-${notification.id}`}
+              >
+                <p className={`text-sm ${notification.readAt ? "text-muted-foreground" : "font-medium"}`}>
+                  {notification.message}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatDistance(new Date(notification.createdAt), new Date(), { addSuffix: true })}
+                </p>
+              </button>
+            ))
+          )}
+          <LoadMore
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
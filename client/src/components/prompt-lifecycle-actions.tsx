@@ -0,0 +1,131 @@
+import { useMutation } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Archive, Send, Undo2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import type { Prompt, PromptActor } from "@shared/schema";
+import { canModerate, canTransitionPrompt, canTransitionRevision } from "@shared/schema";
+
+type PromptAction = "submit" | "withdraw" | "archive";
+
+const ACTION_TOASTS: Record<PromptAction, string> = {
+  submit: "Submitted for review",
+  withdraw: "Withdrawn to draft",
+  archive: "Prompt archived",
+};
+
+interface PromptLifecycleActionsProps {
+  prompt: Prompt;
+}
+
+// Submit / withdraw / archive buttons for whichever moves the current user may make.
+// Mirrors the server's PROMPT_TRANSITIONS check; the server has the final say.
+export function PromptLifecycleActions({ prompt }: PromptLifecycleActionsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: PromptAction) => {
+      const res = await apiRequest("POST", `/api/v1/prompts/${prompt.id}/${action}`, {});
+      return await res.json() as Prompt;
+    },
+    onSuccess: (_updated, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/prompts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/drafts"] });
+      toast({ title: ACTION_TOASTS[action] });
+    },
+    onError: (error: Error, action) => {
+      toast({
+        title: `Failed to ${action} prompt`,
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const roles: PromptActor[] = [];
+  if (user.id === prompt.authorId) roles.push("author");
+  if (canModerate(user.reputation)) roles.push("moderator");
+
+  // Submit and withdraw apply to the pending edit of an approved prompt when there is one
+  const canMove = (to: "pending_review" | "draft") =>
+    prompt.pendingStatus !== null
+      ? canTransitionRevision(prompt.pendingStatus, to, roles)
+      : canTransitionPrompt(prompt.status, to, roles);
+  const canSubmit = canMove("pending_review");
+  const canWithdraw = canMove("draft");
+  const canArchive = canTransitionPrompt(prompt.status, "archived", roles);
+
+  if (!canSubmit && !canWithdraw && !canArchive) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2" data-testid="prompt-lifecycle-actions">
+      {canSubmit && (
+        <Button
+          size="sm"
+          onClick={() => actionMutation.mutate("submit")}
+          disabled={actionMutation.isPending}
+          data-testid="button-submit-for-review"
+        >
+          <Send className="h-4 w-4 mr-2" />
+          {prompt.pendingStatus !== null ? "Submit edit for review" : "Submit for review"}
+        </Button>
+      )}
+      {canWithdraw && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => actionMutation.mutate("withdraw")}
+          disabled={actionMutation.isPending}
+          data-testid="button-withdraw"
+        >
+          <Undo2 className="h-4 w-4 mr-2" />
+          Withdraw
+        </Button>
+      )}
+      {canArchive && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={actionMutation.isPending} data-testid="button-archive">
+              <Archive className="h-4 w-4 mr-2" />
+              Archive
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Archive this prompt?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Archived prompts leave the library and can no longer be edited or submitted.
+                {prompt.pendingVersion !== null && " The pending edit will be dropped."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => actionMutation.mutate("archive")} data-testid="button-confirm-archive">
+                Archive
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+}
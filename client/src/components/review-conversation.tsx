@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatDistance } from "date-fns";
+import type { ReviewCriterion, ReviewWithScores } from "@shared/schema";
+import { RUBRIC_SCALE } from "@shared/schema";
+
+interface ReviewConversationProps {
+  promptId: string;
+  // Only show reviews from rounds before this one (e.g. the feedback that led to a resubmission)
+  beforeRound?: number;
+}
+
+const VOTE_LABELS: Record<string, string> = {
+  approve: "approved",
+  reject: "rejected",
+  request_changes: "requested changes",
+};
+
+export function ReviewConversation({ promptId, beforeRound }: ReviewConversationProps) {
+  const { data: reviews = [], isLoading } = useQuery<ReviewWithScores[]>({
+    queryKey: ["/api/v1/prompts", promptId, "reviews"],
+  });
+
+  const { data: criteria = [] } = useQuery<ReviewCriterion[]>({
+    queryKey: ["/api/v1/review-criteria"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  const criterionNames = new Map(criteria.map((criterion) => [criterion.id, criterion.name]));
+  const visible = reviews.filter(
+    (review) =>
+      (review.comment || review.scores.length > 0) &&
+      (beforeRound === undefined || review.round < beforeRound)
+  );
+
+  if (visible.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-no-review-feedback">
+        No reviewer feedback yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="review-conversation">
+      {visible.map((review) => (
+        <div
+          key={review.id}
+          className="border-l-2 border-muted pl-4 py-1"
+          data-testid={`review-feedback-${review.id}`}
+        >
+          <div className="flex flex-wrap items-center gap-2 mb-1 text-xs text-muted-foreground">
+            <Badge variant={review.vote === "request_changes" ? "secondary" : "outline"}>
+              {VOTE_LABELS[review.vote] ?? review.vote}
+            </Badge>
+            <span>Round {review.round}</span>
+            <span>•</span>
+            <span>v{review.promptVersion}</span>
+            <span>•</span>
+            <span>{formatDistance(new Date(review.createdAt), new Date(), { addSuffix: true })}</span>
+          </div>
+          {review.comment && <p className="text-sm whitespace-pre-wrap">{review.comment}</p>}
+          {review.scores.length > 0 && (
+            <ul className="mt-2 space-y-1 text-sm" data-testid={`review-scores-${review.id}`}>
+              {review.scores.map((score) => (
+                <li key={score.criterionId}>
+                  <span className="font-medium">
+                    {criterionNames.get(score.criterionId) ?? "Criterion"}: {score.score}/{RUBRIC_SCALE.MAX}
+                  </span>
+                  {score.note && <span className="text-muted-foreground"> — {score.note}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
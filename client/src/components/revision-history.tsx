@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatDistance } from "date-fns";
+import { ChevronDown, ChevronRight, GitCompare } from "lucide-react";
+import { DiffDialog } from "@/components/diff-viewer";
+import { LoadMore } from "@/components/load-more";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import type { PromptRevision } from "@shared/schema";
+
+interface RevisionHistoryProps {
+  promptId: string;
+  currentVersion: number;
+  pendingVersion?: number | null; // Edit of an approved prompt awaiting re-review
+}
+
+export function RevisionHistory({ promptId, currentVersion, pendingVersion }: RevisionHistoryProps) {
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+
+  const {
+    items: revisions,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedQuery<PromptRevision>(["/api/v1/prompts", promptId, "revisions"], `/api/v1/prompts/${promptId}/revisions`);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map((i) => (
+          <div key={i} className="space-y-2">
+            <Skeleton className="h-4 w-48" />
+            <Skeleton className="h-4 w-full" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8" data-testid="text-no-revisions">
+        No revision history recorded for this prompt.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="revision-list">
+      {revisions.map((revision) => {
+        const isExpanded = expandedVersion === revision.version;
+        return (
+          <div
+            key={revision.id}
+            className="border rounded-md p-3"
+            data-testid={`revision-${revision.version}`}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" data-testid={`badge-revision-version-${revision.version}`}>
+                    v{revision.version}
+                  </Badge>
+                  {revision.version === currentVersion && (
+                    <Badge variant="secondary">current</Badge>
+                  )}
+                  {revision.version === pendingVersion && (
+                    <Badge variant="outline" data-testid={`badge-revision-pending-${revision.version}`}>
+                      pending review
+                    </Badge>
+                  )}
+                  <span className="text-sm font-medium" data-testid={`text-revision-editor-${revision.version}`}>
+                    {revision.editorId}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistance(new Date(revision.createdAt), new Date(), { addSuffix: true })}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground" data-testid={`text-revision-summary-${revision.version}`}>
+                  {revision.editSummary || "No edit summary"}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                {revision.version > 1 && (
+                  <DiffDialog
+                    title={`Changes in v${revision.version}`}
+                    promptId={promptId}
+                    from={revision.version - 1}
+                    to={revision.version}
+                    trigger={
+                      <Button variant="ghost" size="sm" data-testid={`button-compare-revision-${revision.version}`}>
+                        <GitCompare className="h-4 w-4 mr-2" />
+                        Compare
+                      </Button>
+                    }
+                  />
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setExpandedVersion(isExpanded ? null : revision.version)}
+                  data-testid={`button-toggle-revision-${revision.version}`}
+                >
+                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+            {isExpanded && (
+              <div className="mt-3 space-y-3">
+                <div>
+                  <h4 className="text-sm font-semibold mb-1">{revision.title}</h4>
+                  <p className="text-sm text-muted-foreground">{revision.rationale}</p>
+                </div>
+                <pre className="text-xs bg-muted p-3 rounded-md overflow-x-auto font-mono">
+                  {revision.promptBodyText}
+                </pre>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <LoadMore
+        hasNextPage={hasNextPage}
+        isFetchingNextPage={isFetchingNextPage}
+        fetchNextPage={fetchNextPage}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useQuery } from "@tanstack/react-query";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { RubricScoreSummary } from "@shared/schema";
+import { RUBRIC_SCALE } from "@shared/schema";
+
+interface RubricScoresProps {
+  // e.g. ["/api/v1/prompts", id, "rubric-scores"] or ["/api/v1/users", id, "rubric-scores"]
+  queryKey: string[];
+  emptyMessage?: string;
+}
+
+// Average score per rubric criterion, drawn as bars on the 1-5 scale
+export function RubricScores({ queryKey, emptyMessage = "No rubric scores yet." }: RubricScoresProps) {
+  const { data: summary = [], isLoading } = useQuery<RubricScoreSummary[]>({ queryKey });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (summary.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-no-rubric-scores">
+        {emptyMessage}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="rubric-scores">
+      {summary.map((criterion) => (
+        <div key={criterion.criterionId} data-testid={`rubric-score-${criterion.key}`}>
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="font-medium">{criterion.name}</span>
+            <span className="text-muted-foreground">
+              {criterion.averageScore.toFixed(1)} / {RUBRIC_SCALE.MAX}
+              <span className="text-xs ml-2">({criterion.scoreCount} score{criterion.scoreCount === 1 ? "" : "s"})</span>
+            </span>
+          </div>
+          <Progress value={(criterion.averageScore / RUBRIC_SCALE.MAX) * 100} className="h-2" />
+        </div>
+      ))}
+    </div>
+  );
+}
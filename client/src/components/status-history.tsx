@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatDistance } from "date-fns";
+import type { PromptTransition } from "@shared/schema";
+
+interface StatusHistoryProps {
+  promptId: string;
+}
+
+const ACTOR_LABELS: Record<string, string> = {
+  author: "author",
+  moderator: "moderator",
+  review: "review consensus",
+};
+
+const formatStatus = (status: string) => status.replace("_", " ");
+
+// Every status change of the prompt and its pending edits, oldest first
+export function StatusHistory({ promptId }: StatusHistoryProps) {
+  const { data: transitions = [], isLoading } = useQuery<PromptTransition[]>({
+    queryKey: ["/api/v1/prompts", promptId, "transitions"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  if (transitions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-no-transitions">
+        No status changes recorded.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-2 text-sm" data-testid="status-history">
+      {transitions.map((transition) => (
+        <li key={transition.id} className="flex flex-wrap items-center gap-2" data-testid={`transition-${transition.id}`}>
+          {transition.revisionVersion !== null && (
+            <Badge variant="outline">edit v{transition.revisionVersion}</Badge>
+          )}
+          <span>
+            {transition.fromStatus ? `${formatStatus(transition.fromStatus)} → ` : "created as "}
+            <span className="font-medium">{formatStatus(transition.toStatus)}</span>
+          </span>
+          <span className="text-muted-foreground">
+            by {ACTOR_LABELS[transition.actorRole] ?? transition.actorRole}
+            {transition.actorId && transition.actorRole !== "review" ? ` ${transition.actorId}` : ""}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {formatDistance(new Date(transition.createdAt), new Date(), { addSuffix: true })}
+          </span>
+          {transition.reason && <span className="w-full text-muted-foreground">“{transition.reason}”</span>}
+        </li>
+      ))}
+    </ol>
+  );
+}
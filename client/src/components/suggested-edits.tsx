@@ -0,0 +1,358 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistance } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Check, GitCompare, PencilLine, X } from "lucide-react";
+import { DiffDialog } from "@/components/diff-viewer";
+import { LoadMore } from "@/components/load-more";
+import { useAuth } from "@/hooks/useAuth";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import type {
+  PromptRevision,
+  PromptTechnique,
+  PromptWithTechniques,
+  SuggestedEdit,
+  SuggestedEditStatus,
+  SuggestedEditWithPrompt,
+} from "@shared/schema";
+import { canReviewSuggestedEdit, promptGraphSchema } from "@shared/schema";
+
+const STATUS_VARIANTS: Record<SuggestedEditStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  accepted: "default",
+  rejected: "destructive",
+};
+
+interface SuggestEditDialogProps {
+  prompt: PromptWithTechniques;
+}
+
+// Form for suggesting an edit to someone else's prompt. It starts from the content under review
+// (the pending revision of an approved prompt, if any); only changed fields are kept.
+export function SuggestEditDialog({ prompt }: SuggestEditDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [rationale, setRationale] = useState("");
+  const [techniqueIds, setTechniqueIds] = useState<number[]>([]);
+  const [summary, setSummary] = useState("");
+
+  const { data: pendingRevision } = useQuery<PromptRevision>({
+    queryKey: ["/api/v1/prompts", prompt.id, "revisions", prompt.pendingVersion],
+    enabled: open && prompt.pendingVersion !== null,
+  });
+  const { data: techniques = [] } = useQuery<PromptTechnique[]>({
+    queryKey: ["/api/v1/techniques"],
+    enabled: open,
+  });
+
+  const current = prompt.pendingVersion !== null ? pendingRevision : prompt;
+  const composerBody = !!current && promptGraphSchema.safeParse(current.promptBodyJson).success;
+
+  useEffect(() => {
+    if (open && current) {
+      setTitle(current.title);
+      setBody(current.promptBodyText ?? "");
+      setRationale(current.rationale);
+      setTechniqueIds(prompt.techniques.map((technique) => technique.id));
+      setSummary("");
+    }
+  }, [open, current, prompt.techniques]);
+
+  const suggestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/v1/suggested-edits", {
+        promptId: prompt.id,
+        title,
+        ...(!composerBody && { promptBodyText: body }),
+        rationale,
+        techniqueIds,
+        summary,
+      });
+      return await res.json() as SuggestedEdit;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/prompts", prompt.id, "suggested-edits"] });
+      setOpen(false);
+      toast({ title: "Edit suggested", description: "The author or a reviewer will look at it." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to suggest edit",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleTechnique = (id: number) =>
+    setTechniqueIds((ids) => (ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id]));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-suggest-edit">
+          <PencilLine className="h-4 w-4 mr-2" />
+          Suggest edit
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Suggest an edit</DialogTitle>
+          <DialogDescription>
+            Fix typos, sharpen the wording or correct the technique tags. Your suggestion goes to the author
+            and reviewers; if accepted it becomes a new revision credited to you.
+          </DialogDescription>
+        </DialogHeader>
+        {!current ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="suggest-title">Title</Label>
+              <Input id="suggest-title" value={title} onChange={(e) => setTitle(e.target.value)} data-testid="input-suggest-title" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="suggest-body">Prompt</Label>
+              <Textarea
+                id="suggest-body"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                disabled={composerBody}
+                rows={8}
+                className="font-mono text-sm"
+                data-testid="input-suggest-body"
+              />
+              {composerBody && (
+                <p className="text-xs text-muted-foreground">
+                  This prompt is built in the composer, so its text can't be edited here.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="suggest-rationale">Rationale</Label>
+              <Textarea
+                id="suggest-rationale"
+                value={rationale}
+                onChange={(e) => setRationale(e.target.value)}
+                rows={3}
+                data-testid="input-suggest-rationale"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Techniques</Label>
+              <div className="flex flex-wrap gap-2" data-testid="suggest-techniques">
+                {techniques.map((technique) => (
+                  <Badge
+                    key={technique.id}
+                    variant={techniqueIds.includes(technique.id) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => toggleTechnique(technique.id)}
+                    data-testid={`toggle-suggest-technique-${technique.id}`}
+                  >
+                    {technique.name}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="suggest-summary">Edit summary</Label>
+              <Input
+                id="suggest-summary"
+                value={summary}
+                onChange={(e) => setSummary(e.target.value)}
+                placeholder="What did you change and why?"
+                data-testid="input-suggest-summary"
+              />
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button
+            onClick={() => suggestMutation.mutate()}
+            disabled={suggestMutation.isPending || !current || summary.trim().length < 5}
+            data-testid="button-submit-suggestion"
+          >
+            {suggestMutation.isPending ? "Sending..." : "Suggest edit"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SuggestedEditRowProps {
+  edit: SuggestedEditWithPrompt;
+  showPrompt?: boolean;
+}
+
+// One suggestion with its diff and, for the author and reviewers, accept/reject buttons
+export function SuggestedEditRow({ edit, showPrompt = false }: SuggestedEditRowProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const reviewMutation = useMutation({
+    mutationFn: async (action: "accept" | "reject") => {
+      const res = await apiRequest("POST", `/api/v1/suggested-edits/${edit.id}/${action}`, {});
+      return await res.json() as SuggestedEdit;
+    },
+    onSuccess: (_updated, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/suggested-edits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/prompts"] });
+      toast({ title: action === "accept" ? "Suggestion accepted" : "Suggestion rejected" });
+    },
+    onError: (error: Error, action) => {
+      toast({
+        title: `Failed to ${action} suggestion`,
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pending = edit.status === "pending";
+  const canReviewIt = !!user && pending && canReviewSuggestedEdit(edit, user);
+  const stale = pending && edit.promptVersion !== edit.baseVersion;
+
+  return (
+    <li className="space-y-2 py-3" data-testid={`suggested-edit-${edit.id}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={STATUS_VARIANTS[edit.status]} data-testid={`badge-suggested-edit-status-${edit.id}`}>
+          {edit.status}
+        </Badge>
+        {showPrompt && (
+          <Link to={`/prompts/${edit.promptId}`} className="font-medium hover:text-primary">
+            {edit.promptTitle}
+          </Link>
+        )}
+        <span className="text-sm">{edit.summary}</span>
+        <span className="ml-auto text-xs text-muted-foreground">
+          by {edit.suggesterId} {formatDistance(new Date(edit.createdAt), new Date(), { addSuffix: true })}
+        </span>
+      </div>
+      {stale && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">
+          Written against v{edit.baseVersion}; the prompt is now at v{edit.promptVersion}.
+        </p>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        {pending ? (
+          <DiffDialog
+            title="Suggested changes"
+            promptId={edit.promptId}
+            suggestedEditId={edit.id}
+            trigger={
+              <Button variant="ghost" size="sm" data-testid={`button-diff-suggested-edit-${edit.id}`}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                View changes
+              </Button>
+            }
+          />
+        ) : (
+          edit.mergedVersion !== null && (
+            <DiffDialog
+              title={`Changes merged in v${edit.mergedVersion}`}
+              promptId={edit.promptId}
+              from={edit.mergedVersion - 1}
+              to={edit.mergedVersion}
+              trigger={
+                <Button variant="ghost" size="sm" data-testid={`button-diff-suggested-edit-${edit.id}`}>
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  View merged changes
+                </Button>
+              }
+            />
+          )
+        )}
+        {canReviewIt && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => reviewMutation.mutate("reject")}
+              disabled={reviewMutation.isPending}
+              data-testid={`button-reject-suggested-edit-${edit.id}`}
+            >
+              <X className="h-4 w-4 mr-2" />
+              Reject
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => reviewMutation.mutate("accept")}
+              disabled={reviewMutation.isPending}
+              data-testid={`button-accept-suggested-edit-${edit.id}`}
+            >
+              <Check className="h-4 w-4 mr-2" />
+              Accept
+            </Button>
+          </>
+        )}
+      </div>
+    </li>
+  );
+}
+
+interface SuggestedEditListProps {
+  promptId: string;
+}
+
+export function SuggestedEditList({ promptId }: SuggestedEditListProps) {
+  const {
+    items: edits,
+    totalCount,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedQuery<SuggestedEditWithPrompt>(
+    ["/api/v1/prompts", promptId, "suggested-edits"],
+    `/api/v1/prompts/${promptId}/suggested-edits`,
+  );
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  if (edits.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-no-suggested-edits">
+        No suggested edits yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <ul className="divide-y">
+        {edits.map((edit) => (
+          <SuggestedEditRow key={edit.id} edit={edit} />
+        ))}
+      </ul>
+      <LoadMore
+        hasNextPage={hasNextPage}
+        isFetchingNextPage={isFetchingNextPage}
+        fetchNextPage={fetchNextPage}
+        loaded={edits.length}
+        totalCount={totalCount}
+      />
+    </div>
+  );
+}
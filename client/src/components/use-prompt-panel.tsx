@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { fillTemplate } from "@shared/templates";
+import type { PromptVariable } from "@shared/schema";
+
+interface UsePromptPanelProps {
+  promptBodyText: string;
+  variables: PromptVariable[];
+}
+
+export function UsePromptPanel({ promptBodyText, variables }: UsePromptPanelProps) {
+  const { toast } = useToast();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const filled = fillTemplate(promptBodyText, variables, values);
+
+  const setValue = (name: string, value: string) => {
+    setValues((current) => ({ ...current, [name]: value }));
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(filled);
+      toast({
+        title: "Copied",
+        description: "The filled prompt is on your clipboard.",
+      });
+    } catch {
+      toast({
+        title: "Copy failed",
+        description: "Your browser blocked clipboard access",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4" data-testid="use-prompt-panel">
+      {variables.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2">
+          {variables.map((variable) => {
+            const inputId = `variable-${variable.name}`;
+            const value = values[variable.name] ?? "";
+            return (
+              <div
+                key={variable.name}
+                className={variable.type === "multiline" ? "space-y-2 md:col-span-2" : "space-y-2"}
+              >
+                <Label htmlFor={inputId} className="font-mono">{variable.name}</Label>
+                {variable.type === "multiline" ? (
+                  <Textarea
+                    id={inputId}
+                    value={value}
+                    placeholder={variable.default}
+                    onChange={(e) => setValue(variable.name, e.target.value)}
+                    className="min-h-[100px]"
+                    data-testid={`input-fill-${variable.name}`}
+                  />
+                ) : variable.type === "enum" ? (
+                  <Select
+                    value={value || variable.default || undefined}
+                    onValueChange={(option) => setValue(variable.name, option)}
+                  >
+                    <SelectTrigger id={inputId} data-testid={`select-fill-${variable.name}`}>
+                      <SelectValue placeholder="Choose..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(variable.options || []).map((option) => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={inputId}
+                    type={variable.type === "number" ? "number" : "text"}
+                    value={value}
+                    placeholder={variable.default}
+                    onChange={(e) => setValue(variable.name, e.target.value)}
+                    data-testid={`input-fill-${variable.name}`}
+                  />
+                )}
+                {variable.description && (
+                  <p className="text-xs text-muted-foreground">{variable.description}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <pre className="text-sm bg-muted p-4 rounded-md overflow-x-auto font-mono whitespace-pre-wrap" data-testid="text-filled-prompt">
+        {filled}
+      </pre>
+      <Button variant="outline" size="sm" onClick={handleCopy} data-testid="button-copy-filled-prompt">
+        <Copy className="h-4 w-4 mr-2" />
+        Copy prompt
+      </Button>
+    </div>
+  );
+}
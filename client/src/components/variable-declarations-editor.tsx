@@ -0,0 +1,131 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, Plus, X } from "lucide-react";
+import { PROMPT_VARIABLE_TYPES } from "@shared/schema";
+import type { PromptVariable, PromptVariableType } from "@shared/schema";
+
+interface VariableDeclarationsEditorProps {
+  value: PromptVariable[];
+  onChange: (variables: PromptVariable[]) => void;
+  // Placeholder names currently used in the prompt text
+  placeholders: string[];
+}
+
+export function VariableDeclarationsEditor({ value, onChange, placeholders }: VariableDeclarationsEditorProps) {
+  const declared = new Set(value.map((variable) => variable.name));
+  const undeclared = placeholders.filter((name) => !declared.has(name));
+
+  const updateAt = (index: number, patch: Partial<PromptVariable>) => {
+    onChange(value.map((variable, i) => (i === index ? { ...variable, ...patch } : variable)));
+  };
+
+  const removeAt = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const declare = (names: string[]) => {
+    onChange([...value, ...names.map((name): PromptVariable => ({ name, type: "string" }))]);
+  };
+
+  return (
+    <div className="space-y-3" data-testid="variable-declarations">
+      {undeclared.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border border-destructive/50 p-3" data-testid="undeclared-variables">
+          <AlertCircle className="h-4 w-4 text-destructive" />
+          <span className="text-sm">Undeclared placeholders:</span>
+          {undeclared.map((name) => (
+            <Badge key={name} variant="outline" className="font-mono">{`{{${name}}}`}</Badge>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => declare(undeclared)}
+            data-testid="button-declare-all-variables"
+          >
+            Declare all
+          </Button>
+        </div>
+      )}
+
+      {value.map((variable, index) => (
+        <div key={index} className="rounded-md border p-3 space-y-2" data-testid={`variable-${index}`}>
+          <div className="flex gap-2 items-center">
+            <Input
+              value={variable.name}
+              onChange={(e) => updateAt(index, { name: e.target.value })}
+              placeholder="name"
+              className="font-mono w-[180px]"
+              data-testid={`input-variable-name-${index}`}
+            />
+            <Select
+              value={variable.type}
+              onValueChange={(type) => updateAt(index, { type: type as PromptVariableType })}
+            >
+              <SelectTrigger className="w-[140px]" data-testid={`select-variable-type-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROMPT_VARIABLE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={variable.default || ""}
+              onChange={(e) => updateAt(index, { default: e.target.value || undefined })}
+              placeholder="default (optional)"
+              data-testid={`input-variable-default-${index}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeAt(index)}
+              data-testid={`button-remove-variable-${index}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <Input
+            value={variable.description || ""}
+            onChange={(e) => updateAt(index, { description: e.target.value || undefined })}
+            placeholder="Description shown to people filling in the template"
+            data-testid={`input-variable-description-${index}`}
+          />
+          {variable.type === "enum" && (
+            <Input
+              value={(variable.options || []).join(", ")}
+              onChange={(e) =>
+                updateAt(index, {
+                  options: e.target.value.split(",").map((option) => option.trim()).filter(Boolean),
+                })
+              }
+              placeholder="Options, comma separated"
+              data-testid={`input-variable-options-${index}`}
+            />
+          )}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, { name: "", type: "string" }])}
+        data-testid="button-add-variable"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add variable
+      </Button>
+    </div>
+  );
+}
@@ -7,15 +7,18 @@ import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { canUpvote, canDownvote } from "@shared/schema";
+import { getEconomy } from "@shared/economy";
 
 interface VoteButtonsProps {
   promptId: string;
+  authorId: string;
   compact?: boolean;
 }
 
-export function VoteButtons({ promptId, compact = false }: VoteButtonsProps) {
+export function VoteButtons({ promptId, authorId, compact = false }: VoteButtonsProps) {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { thresholds } = getEconomy();
 
   // Fetch vote count
   const { data: voteData } = useQuery<{ upvotes: number; downvotes: number; total: number }>({
@@ -28,8 +31,13 @@ export function VoteButtons({ promptId, compact = false }: VoteButtonsProps) {
     enabled: !!user,
   });
 
+  // A null voteType retracts the current vote
   const voteMutation = useMutation({
-    mutationFn: async (voteType: "upvote" | "downvote") => {
+    mutationFn: async (voteType: "upvote" | "downvote" | null) => {
+      if (!voteType) {
+        await apiRequest("DELETE", `/api/v1/votes/${promptId}`);
+        return null;
+      }
       const response = await apiRequest("POST", `/api/v1/votes`, { promptId, voteType });
       return await response.json();
     },
@@ -58,12 +66,18 @@ export function VoteButtons({ promptId, compact = false }: VoteButtonsProps) {
       return;
     }
 
+    // Clicking the active vote again takes it back
+    if (userVote?.voteType === voteType) {
+      voteMutation.mutate(null);
+      return;
+    }
+
     // Check permissions
     const userReputation = user.reputation || 0;
     if (voteType === "upvote" && !canUpvote(userReputation)) {
       toast({
         title: "Insufficient reputation",
-        description: `You need 15 reputation to upvote (you have ${userReputation})`,
+        description: `You need ${thresholds.UPVOTE} reputation to upvote (you have ${userReputation})`,
         variant: "destructive",
       });
       return;
@@ -72,7 +86,7 @@ export function VoteButtons({ promptId, compact = false }: VoteButtonsProps) {
     if (voteType === "downvote" && !canDownvote(userReputation)) {
       toast({
         title: "Insufficient reputation",
-        description: `You need 125 reputation to downvote (you have ${userReputation})`,
+        description: `You need ${thresholds.DOWNVOTE} reputation to downvote (you have ${userReputation})`,
         variant: "destructive",
       });
       return;
@@ -86,15 +100,17 @@ export function VoteButtons({ promptId, compact = false }: VoteButtonsProps) {
   const isDownvoted = userVote?.voteType === "downvote";
 
   const userReputation = user?.reputation || 0;
-  const canUserUpvote = user && canUpvote(userReputation);
-  const canUserDownvote = user && canDownvote(userReputation);
+  // Authors cannot vote on their own prompts
+  const ownPrompt = user?.id === authorId;
+  const canUserUpvote = user && !ownPrompt && canUpvote(userReputation);
+  const canUserDownvote = user && !ownPrompt && canDownvote(userReputation);
 
   const upvoteButton = (
     <Button
       variant={isUpvoted ? "default" : "ghost"}
       size="icon"
       onClick={() => handleVote("upvote")}
-      disabled={!user || !canUserUpvote || voteMutation.isPending}
+      disabled={!user || (!canUserUpvote && !isUpvoted) || voteMutation.isPending}
       data-testid={`button-upvote-${promptId}`}
     >
       <ArrowUp className="h-4 w-4" />
@@ -106,7 +122,7 @@ export function VoteButtons({ promptId, compact = false }: VoteButtonsProps) {
       variant={isDownvoted ? "default" : "ghost"}
       size="icon"
       onClick={() => handleVote("downvote")}
-      disabled={!user || !canUserDownvote || voteMutation.isPending}
+      disabled={!user || (!canUserDownvote && !isDownvoted) || voteMutation.isPending}
       data-testid={`button-downvote-${promptId}`}
     >
       <ArrowDown className="h-4 w-4" />
@@ -119,7 +135,7 @@ export function VoteButtons({ promptId, compact = false }: VoteButtonsProps) {
         <Tooltip>
           <TooltipTrigger asChild>{upvoteButton}</TooltipTrigger>
           <TooltipContent>
-            <p>Requires 15 reputation (you have {userReputation})</p>
+            <p>{ownPrompt ? "You cannot vote on your own prompt" : `Requires ${thresholds.UPVOTE} reputation (you have ${userReputation})`}</p>
           </TooltipContent>
         </Tooltip>
       ) : (
@@ -135,7 +151,7 @@ export function VoteButtons({ promptId, compact = false }: VoteButtonsProps) {
         <Tooltip>
           <TooltipTrigger asChild>{downvoteButton}</TooltipTrigger>
           <TooltipContent>
-            <p>Requires 125 reputation (you have {userReputation})</p>
+            <p>{ownPrompt ? "You cannot vote on your own prompt" : `Requires ${thresholds.DOWNVOTE} reputation (you have ${userReputation})`}</p>
           </TooltipContent>
         </Tooltip>
       ) : (
@@ -0,0 +1,57 @@
+// Periodic autosave of an editor form to the server as a draft
+import { useCallback, useEffect, useRef, useState } from "react";
+import { DRAFTS } from "@shared/schema";
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "error";
+
+// Saves `values` every DRAFTS.AUTOSAVE_SECONDS while `enabled` and changed since the last
+// save, and again when the tab is hidden. Saves never overlap; `flush` waits for any save in
+// flight and then saves whatever is still unsaved, so callers can run it before submitting.
+export function useDraftAutosave<T>(values: T, enabled: boolean, save: (values: T) => Promise<void>) {
+  const [status, setStatus] = useState<AutosaveStatus>("idle");
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const latest = useRef({ values, enabled, save });
+  latest.current = { values, enabled, save };
+  const lastSaved = useRef<string | null>(null);
+  const inFlight = useRef<Promise<void> | null>(null);
+
+  const flush = useCallback(async () => {
+    while (inFlight.current) {
+      await inFlight.current;
+    }
+    const { values, enabled, save } = latest.current;
+    const serialized = JSON.stringify(values);
+    if (!enabled || serialized === lastSaved.current) {
+      return;
+    }
+
+    setStatus("saving");
+    inFlight.current = save(values)
+      .then(() => {
+        lastSaved.current = serialized;
+        setStatus("saved");
+        setSavedAt(new Date());
+      })
+      .catch(() => setStatus("error"))
+      .finally(() => {
+        inFlight.current = null;
+      });
+    await inFlight.current;
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (!inFlight.current) void flush();
+    }, DRAFTS.AUTOSAVE_SECONDS * 1000);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") void flush();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [flush]);
+
+  return { status, savedAt, flush };
+}
@@ -0,0 +1,17 @@
+// Loads the server's reputation economy and makes it the active one, so the shared permission
+// helpers (canReview etc.) use the thresholds the server enforces
+import { useQuery } from "@tanstack/react-query";
+import { getEconomy, setEconomy, type Economy } from "@shared/economy";
+
+export function useEconomy() {
+  const { data, isLoading } = useQuery<Economy>({
+    queryKey: ["/api/v1/economy"],
+  });
+
+  if (data && data !== getEconomy()) {
+    setEconomy(data);
+  }
+
+  // Until it loads (or if it fails) the shipped defaults stay in effect
+  return { economy: data ?? getEconomy(), isLoading };
+}
@@ -0,0 +1,43 @@
+// Infinite query over the cursor-paginated `Page<T>` envelope returned by list endpoints
+import { useInfiniteQuery, type QueryKey } from "@tanstack/react-query";
+import type { Page } from "@shared/schema";
+
+interface PaginatedQueryOptions {
+  params?: Record<string, string | undefined>;
+  limit?: number;
+  enabled?: boolean;
+}
+
+export function usePaginatedQuery<T>(queryKey: QueryKey, path: string, options: PaginatedQueryOptions = {}) {
+  const query = useInfiniteQuery({
+    queryKey,
+    enabled: options.enabled,
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }): Promise<Page<T>> => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(options.params ?? {})) {
+        if (value !== undefined) {
+          params.set(key, value);
+        }
+      }
+      if (options.limit) {
+        params.set("limit", String(options.limit));
+      }
+      if (pageParam) {
+        params.set("cursor", pageParam);
+      }
+      const response = await fetch(`${path}?${params.toString()}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return response.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  return {
+    ...query,
+    items: query.data?.pages.flatMap((page) => page.items) ?? [],
+    totalCount: query.data?.pages[0]?.totalCount ?? 0,
+  };
+}
@@ -7,6 +7,21 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Recover the status and JSON body ({ message, code? }) from an error thrown by throwIfResNotOk
+export function parseApiError(error: Error): { status: number | null; message: string; code?: string } {
+  const match = /^(\d{3}): ([\s\S]*)$/.exec(error.message);
+  if (!match) {
+    return { status: null, message: error.message };
+  }
+  const status = Number(match[1]);
+  try {
+    const body = JSON.parse(match[2]);
+    return { status, message: body.message ?? match[2], code: body.code };
+  } catch {
+    return { status, message: match[2] };
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistance } from "date-fns";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, ArrowRight, Check, GitMerge, Undo2, X } from "lucide-react";
+import { DiffViewer } from "@/components/diff-viewer";
+import { ChangeProposalStatusBadge } from "@/components/change-proposals";
+import { LoadMore } from "@/components/load-more";
+import { useAuth } from "@/hooks/useAuth";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import type { ChangeProposal, ChangeProposalComment, ChangeProposalWithPrompts, Prompt } from "@shared/schema";
+import { canDiscussChangeProposal, canResolveChangeProposal, reviewVersionOf } from "@shared/schema";
+
+type ProposalAction = "accept" | "decline" | "withdraw";
+
+const ACTION_TOASTS: Record<ProposalAction, string> = {
+  accept: "Changes merged into a new revision",
+  decline: "Proposal declined",
+  withdraw: "Proposal withdrawn",
+};
+
+export default function ChangeProposalPage() {
+  const { id } = useParams();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [commentText, setCommentText] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: proposal, isLoading } = useQuery<ChangeProposalWithPrompts>({
+    queryKey: ["/api/v1/change-proposals", id],
+  });
+
+  // Tells the target's author whether their prompt moved on since the proposal was opened
+  const { data: target } = useQuery<Prompt>({
+    queryKey: ["/api/v1/prompts", proposal?.targetPromptId],
+    enabled: !!proposal,
+  });
+
+  const {
+    items: comments,
+    totalCount: commentCount,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedQuery<ChangeProposalComment>(
+    ["/api/v1/change-proposals", id, "comments"],
+    `/api/v1/change-proposals/${id}/comments`,
+  );
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: ProposalAction) => {
+      const res = await apiRequest("POST", `/api/v1/change-proposals/${id}/${action}`, reason.trim() ? { reason } : {});
+      return await res.json() as ChangeProposal;
+    },
+    onSuccess: (_updated, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/change-proposals", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/prompts"] });
+      setReason("");
+      toast({ title: ACTION_TOASTS[action] });
+    },
+    onError: (error: Error, action) => {
+      toast({
+        title: `Failed to ${action} proposal`,
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const res = await apiRequest("POST", `/api/v1/change-proposals/${id}/comments`, { content });
+      return await res.json() as ChangeProposalComment;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/change-proposals", id] });
+      setCommentText("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to post comment",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (!proposal) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">Change proposal not found</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isOpen = proposal.status === "open";
+  const canResolve = !!user && isOpen && canResolveChangeProposal(proposal, user);
+  const canWithdraw = !!user && isOpen && proposal.proposerId === user.id;
+  const canDiscuss = !!user && isOpen && canDiscussChangeProposal(proposal, user);
+  const targetMoved = !!target && reviewVersionOf(target) !== proposal.targetVersion;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+      <Card data-testid={`card-proposal-${proposal.id}`}>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1">
+              <CardTitle className="text-2xl mb-2" data-testid="text-proposal-title">
+                {proposal.title}
+              </CardTitle>
+              <CardDescription className="flex flex-wrap items-center gap-2">
+                <Link to={`/prompts/${proposal.sourcePromptId}`} className="hover:text-primary" data-testid="link-proposal-source">
+                  {proposal.sourceTitle}
+                </Link>
+                <ArrowRight className="h-4 w-4" />
+                <Link to={`/prompts/${proposal.targetPromptId}`} className="hover:text-primary" data-testid="link-proposal-target">
+                  {proposal.targetTitle}
+                </Link>
+              </CardDescription>
+            </div>
+            <ChangeProposalStatusBadge status={proposal.status} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm whitespace-pre-wrap" data-testid="text-proposal-description">
+            {proposal.description}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Opened by {proposal.proposerId}{" "}
+            {formatDistance(new Date(proposal.createdAt), new Date(), { addSuffix: true })}
+            {proposal.resolvedAt && (
+              <>
+                {" "}· {proposal.status} by {proposal.resolvedBy}{" "}
+                {formatDistance(new Date(proposal.resolvedAt), new Date(), { addSuffix: true })}
+              </>
+            )}
+          </p>
+          {proposal.resolutionReason && (
+            <p className="text-sm border-l-2 border-muted pl-3" data-testid="text-proposal-resolution">
+              {proposal.resolutionReason}
+            </p>
+          )}
+          {proposal.mergedVersion !== null && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="text-proposal-merged">
+              <GitMerge className="h-4 w-4" />
+              Fork v{proposal.mergedSourceVersion} was merged as v{proposal.mergedVersion} of the original prompt.
+            </p>
+          )}
+          {isOpen && targetMoved && (
+            <p className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400" data-testid="text-proposal-stale">
+              <AlertTriangle className="h-4 w-4" />
+              The original prompt has changed since this proposal was opened (v{proposal.targetVersion} →
+              v{target && reviewVersionOf(target)}). Accepting replaces its content with the fork's.
+            </p>
+          )}
+        </CardContent>
+        {(canResolve || canWithdraw) && (
+          <CardFooter className="flex flex-col items-stretch gap-3">
+            <Textarea
+              placeholder="Optional note for the other party"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              data-testid="input-proposal-reason"
+            />
+            <div className="flex flex-wrap justify-end gap-2">
+              {canWithdraw && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => actionMutation.mutate("withdraw")}
+                  disabled={actionMutation.isPending}
+                  data-testid="button-withdraw-proposal"
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Withdraw
+                </Button>
+              )}
+              {canResolve && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => actionMutation.mutate("decline")}
+                    disabled={actionMutation.isPending}
+                    data-testid="button-decline-proposal"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Decline
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => actionMutation.mutate("accept")}
+                    disabled={actionMutation.isPending}
+                    data-testid="button-accept-proposal"
+                  >
+                    <Check className="h-4 w-4 mr-2" />
+                    Accept and merge
+                  </Button>
+                </>
+              )}
+            </div>
+          </CardFooter>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          <CardDescription>
+            The fork's current content compared with the original prompt. Technique changes are shown for
+            reference but are not merged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DiffViewer promptId={proposal.sourcePromptId} compareTo={proposal.targetPromptId} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Discussion ({commentCount})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {comments.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-proposal-comments">
+              No comments yet.
+            </p>
+          ) : (
+            comments.map((comment) => (
+              <div key={comment.id} className="border-l-2 border-muted pl-4 py-2" data-testid={`proposal-comment-${comment.id}`}>
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm font-medium">{comment.authorId}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistance(new Date(comment.createdAt), new Date(), { addSuffix: true })}
+                  </span>
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{comment.content}</p>
+              </div>
+            ))
+          )}
+          <LoadMore
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+            loaded={comments.length}
+            totalCount={commentCount}
+          />
+          {canDiscuss && (
+            <div className="space-y-2" data-testid="proposal-comment-form">
+              <Textarea
+                placeholder="Add to the discussion..."
+                value={commentText}
+                onChange={(e) => setCommentText(e.target.value)}
+                disabled={commentMutation.isPending}
+                data-testid="input-proposal-comment"
+              />
+              <Button
+                onClick={() => commentMutation.mutate(commentText)}
+                disabled={commentMutation.isPending || !commentText.trim()}
+                data-testid="button-submit-proposal-comment"
+              >
+                {commentMutation.isPending ? "Posting..." : "Comment"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
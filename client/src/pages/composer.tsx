@@ -0,0 +1,452 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  Handle,
+  Position,
+  addEdge,
+  useEdgesState,
+  useNodesState,
+  type Connection,
+  type Edge,
+  type Node,
+  type NodeProps,
+} from "@xyflow/react";
+import "@xyflow/react/dist/style.css";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Eye, Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { VariableDeclarationsEditor } from "@/components/variable-declarations-editor";
+import { compilePromptGraph } from "@shared/compiler";
+import {
+  COMPOSER_NODE_TYPES,
+  promptGraphSchema,
+  type ComposerNodeType,
+  type Prompt,
+  type PromptGraph,
+  type PromptRevision,
+  type PromptVariable,
+} from "@shared/schema";
+
+type ComposerNodeData = {
+  type: ComposerNodeType;
+  label?: string;
+  content: string;
+  expectedOutput?: string;
+};
+
+type ComposerFlowNode = Node<ComposerNodeData, "composer">;
+
+const NODE_TYPE_LABELS: Record<ComposerNodeType, string> = {
+  role: "Role",
+  instruction: "Instruction",
+  context: "Context",
+  example: "Example",
+  constraint: "Constraint",
+  output_format: "Output Format",
+};
+
+function ComposerNodeCard({ data, selected }: NodeProps<ComposerFlowNode>) {
+  return (
+    <div
+      className={`rounded-md border bg-card text-card-foreground shadow-sm w-56 ${selected ? "ring-2 ring-primary" : ""}`}
+      data-testid={`composer-node-${data.type}`}
+    >
+      <Handle type="target" position={Position.Top} />
+      <div className="px-3 py-2 border-b flex items-center justify-between gap-2">
+        <Badge variant="outline" className="text-xs">{NODE_TYPE_LABELS[data.type]}</Badge>
+        {data.label && <span className="text-xs font-medium truncate">{data.label}</span>}
+      </div>
+      <p className="px-3 py-2 text-xs text-muted-foreground line-clamp-3 font-mono">
+        {data.content || "Empty"}
+      </p>
+      <Handle type="source" position={Position.Bottom} />
+    </div>
+  );
+}
+
+const nodeTypes = { composer: ComposerNodeCard };
+
+function graphToFlow(graph: PromptGraph): { nodes: ComposerFlowNode[]; edges: Edge[] } {
+  return {
+    nodes: graph.nodes.map(({ id, position, ...data }) => ({
+      id,
+      type: "composer",
+      position,
+      data,
+    })),
+    edges: graph.edges.map(({ id, source, target }) => ({ id, source, target })),
+  };
+}
+
+function flowToGraph(nodes: ComposerFlowNode[], edges: Edge[]): PromptGraph {
+  return {
+    version: 1,
+    nodes: nodes.map((node) => ({
+      id: node.id,
+      type: node.data.type,
+      ...(node.data.label ? { label: node.data.label } : {}),
+      content: node.data.content,
+      ...(node.data.type === "example" && node.data.expectedOutput
+        ? { expectedOutput: node.data.expectedOutput }
+        : {}),
+      position: { x: Math.round(node.position.x), y: Math.round(node.position.y) },
+    })),
+    edges: edges.map(({ id, source, target }) => ({ id, source, target })),
+  };
+}
+
+export default function Composer() {
+  const { id } = useParams<{ id?: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [rationale, setRationale] = useState("");
+  const [variables, setVariables] = useState<PromptVariable[]>([]);
+  const [nodes, setNodes, onNodesChange] = useNodesState<ComposerFlowNode>([]);
+  const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+
+  const { data: promptData, isLoading: promptLoading } = useQuery<Prompt>({
+    queryKey: ["/api/v1/prompts", id],
+    enabled: !!id,
+  });
+
+  // Approved prompts are edited on top of their pending revision, if they have one
+  const pendingVersion = promptData?.pendingVersion ?? null;
+  const { data: pendingRevision, isLoading: revisionLoading } = useQuery<PromptRevision>({
+    queryKey: ["/api/v1/prompts", id, "revisions", String(pendingVersion)],
+    enabled: pendingVersion !== null,
+  });
+
+  // Load the stored graph once the prompt arrives
+  useEffect(() => {
+    if (!promptData || (pendingVersion !== null && !pendingRevision)) return;
+    const content = pendingRevision ?? promptData;
+    setTitle(content.title);
+    setRationale(content.rationale);
+    setVariables(content.variables);
+    const parsed = promptGraphSchema.safeParse(content.promptBodyJson);
+    if (parsed.success) {
+      const flow = graphToFlow(parsed.data);
+      setNodes(flow.nodes);
+      setEdges(flow.edges);
+    }
+  }, [promptData, pendingVersion, pendingRevision, setNodes, setEdges]);
+
+  const selectedNode = useMemo(
+    () => nodes.find((node) => node.id === selectedNodeId),
+    [nodes, selectedNodeId],
+  );
+
+  // Placeholders used anywhere in the graph; cycles are reported on save instead
+  const placeholders = useMemo(() => {
+    try {
+      return compilePromptGraph(flowToGraph(nodes, edges)).variables;
+    } catch {
+      return [];
+    }
+  }, [nodes, edges]);
+
+  const onConnect = useCallback(
+    (connection: Connection) =>
+      setEdges((current) =>
+        addEdge({ ...connection, id: `e-${connection.source}-${connection.target}` }, current),
+      ),
+    [setEdges],
+  );
+
+  const handleAddNode = (type: ComposerNodeType) => {
+    const nodeId = `${type}-${crypto.randomUUID().slice(0, 8)}`;
+    setNodes((current) => [
+      ...current,
+      {
+        id: nodeId,
+        type: "composer",
+        position: { x: 80 + (current.length % 4) * 40, y: 40 + current.length * 90 },
+        data: { type, content: "" },
+      },
+    ]);
+    setSelectedNodeId(nodeId);
+  };
+
+  const updateSelectedNode = (patch: Partial<ComposerNodeData>) => {
+    if (!selectedNodeId) return;
+    setNodes((current) =>
+      current.map((node) =>
+        node.id === selectedNodeId ? { ...node, data: { ...node.data, ...patch } } : node,
+      ),
+    );
+  };
+
+  const handleDeleteSelected = () => {
+    if (!selectedNodeId) return;
+    setNodes((current) => current.filter((node) => node.id !== selectedNodeId));
+    setEdges((current) =>
+      current.filter((edge) => edge.source !== selectedNodeId && edge.target !== selectedNodeId),
+    );
+    setSelectedNodeId(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/v1/compile", {
+        promptBodyJson: flowToGraph(nodes, edges),
+      });
+      return await res.json() as { promptBodyText: string; variables: string[] };
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Preview failed",
+        description: error.message || "Failed to compile prompt",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const graph = flowToGraph(nodes, edges);
+      // Validate locally first so the author sees the same errors the server would return
+      const result = promptGraphSchema.safeParse(graph);
+      if (!result.success) {
+        throw new Error(result.error.issues[0]?.message || "Invalid composer graph");
+      }
+      const body = { title, rationale, variables, promptBodyJson: result.data };
+      const res = id
+        ? await apiRequest("PUT", `/api/v1/prompts/${id}`, { ...body, editSummary: "Updated in Visual Composer" })
+        : await apiRequest("POST", "/api/v1/prompts", body);
+      return await res.json();
+    },
+    onSuccess: (saved: Prompt) => {
+      toast({
+        title: "Composition saved",
+        description: saved.pendingVersion !== null
+          ? "Saved as an edit of the approved version. Submit it for review from the prompt page."
+          : "Your prompt graph has been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/prompts"] });
+      navigate(`/prompts/${saved.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save composition",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (id && (promptLoading || (pendingVersion !== null && revisionLoading))) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl flex justify-center items-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2" data-testid="text-page-title">
+          Visual Prompt Composer
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-page-description">
+          Build a prompt from role, instruction, context, example, constraint and output format blocks
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="composer-title">Title</Label>
+            <Input
+              id="composer-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g., Math Problem Solver with Step-by-Step Reasoning"
+              data-testid="input-title"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="composer-rationale">Rationale</Label>
+            <Textarea
+              id="composer-rationale"
+              value={rationale}
+              onChange={(e) => setRationale(e.target.value)}
+              placeholder="Explain why this prompt works and when to use it..."
+              className="min-h-[40px]"
+              data-testid="input-rationale"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_300px]">
+        <Card className="overflow-hidden">
+          <div className="flex flex-wrap gap-2 p-3 border-b">
+            {COMPOSER_NODE_TYPES.map((type) => (
+              <Button
+                key={type}
+                variant="outline"
+                size="sm"
+                onClick={() => handleAddNode(type)}
+                data-testid={`button-add-node-${type}`}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                {NODE_TYPE_LABELS[type]}
+              </Button>
+            ))}
+          </div>
+          <div className="h-[520px]" data-testid="composer-canvas">
+            <ReactFlow
+              nodes={nodes}
+              edges={edges}
+              nodeTypes={nodeTypes}
+              onNodesChange={onNodesChange}
+              onEdgesChange={onEdgesChange}
+              onConnect={onConnect}
+              onNodeClick={(_, node) => setSelectedNodeId(node.id)}
+              onPaneClick={() => setSelectedNodeId(null)}
+              fitView
+            >
+              <Background />
+              <Controls />
+            </ReactFlow>
+          </div>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {selectedNode ? NODE_TYPE_LABELS[selectedNode.data.type] : "Node details"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {selectedNode ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="node-label">Label</Label>
+                  <Input
+                    id="node-label"
+                    value={selectedNode.data.label || ""}
+                    onChange={(e) => updateSelectedNode({ label: e.target.value })}
+                    data-testid="input-node-label"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="node-content">
+                    {selectedNode.data.type === "example" ? "Input" : "Content"}
+                  </Label>
+                  <Textarea
+                    id="node-content"
+                    value={selectedNode.data.content}
+                    onChange={(e) => updateSelectedNode({ content: e.target.value })}
+                    className="min-h-[140px] font-mono text-sm"
+                    data-testid="input-node-content"
+                  />
+                </div>
+                {selectedNode.data.type === "example" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="node-expected-output">Expected output</Label>
+                    <Textarea
+                      id="node-expected-output"
+                      value={selectedNode.data.expectedOutput || ""}
+                      onChange={(e) => updateSelectedNode({ expectedOutput: e.target.value })}
+                      className="min-h-[100px] font-mono text-sm"
+                      data-testid="input-node-expected-output"
+                    />
+                  </div>
+                )}
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={handleDeleteSelected}
+                  data-testid="button-delete-node"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete node
+                </Button>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Select a node to edit it. Connect nodes by dragging from the bottom handle of one block to the top of another; edges define reading order.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Template variables</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <VariableDeclarationsEditor value={variables} onChange={setVariables} placeholders={placeholders} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle className="text-base">Compiled prompt</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => previewMutation.mutate()}
+            disabled={previewMutation.isPending || nodes.length === 0}
+            data-testid="button-preview"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            {previewMutation.isPending ? "Compiling..." : "Preview"}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {previewMutation.data ? (
+            <>
+              <pre className="text-sm bg-muted p-4 rounded-md overflow-x-auto font-mono whitespace-pre-wrap" data-testid="text-compiled-preview">
+                {previewMutation.data.promptBodyText || "Nothing to compile yet"}
+              </pre>
+              {previewMutation.data.variables.length > 0 && (
+                <div className="flex flex-wrap gap-2" data-testid="compiled-variables">
+                  {previewMutation.data.variables.map((name) => (
+                    <Badge key={name} variant="secondary" className="font-mono">{`{{${name}}}`}</Badge>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              The prompt text is compiled from the graph on save. Use Preview to see it now.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex gap-3">
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || nodes.length === 0}
+          data-testid="button-save-composition"
+        >
+          {saveMutation.isPending ? "Saving..." : id ? "Save Changes" : "Submit for Review"}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => navigate(id ? `/prompts/${id}` : "/")}
+          data-testid="button-cancel"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useLocation } from "wouter";
+import { useRef, useState } from "react";
+import { Link, useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
@@ -12,8 +12,12 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useDraftAutosave } from "@/hooks/useDraftAutosave";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { VariableDeclarationsEditor } from "@/components/variable-declarations-editor";
+import { AutosaveStatus } from "@/components/autosave-status";
 import { insertPromptSchema } from "@shared/schema";
+import { extractPlaceholders } from "@shared/templates";
 import type { PromptTechnique } from "@shared/schema";
 import {
   Form,
@@ -37,17 +41,29 @@ const createPromptFormSchema = insertPromptSchema.extend({
   title: z.string().min(10, "Title must be at least 10 characters").max(255),
   promptBodyText: z.string().min(20, "Prompt must be at least 20 characters"),
   rationale: z.string().min(30, "Rationale must be at least 30 characters"),
-  status: z.literal('pending_review').default('pending_review'),
 }).omit({
   authorId: true,
+  status: true,
 });
 
 type CreatePromptForm = z.infer<typeof createPromptFormSchema>;
 
+const draftContent = (values: CreatePromptForm) => ({
+  title: values.title,
+  promptBodyText: values.promptBodyText,
+  rationale: values.rationale,
+  variables: values.variables,
+});
+
+const hasContent = (values: CreatePromptForm) =>
+  !!(values.title.trim() || values.promptBodyText?.trim() || values.rationale.trim() || values.variables?.length);
+
 export default function CreatePrompt() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [selectedTechniqueIds, setSelectedTechniqueIds] = useState<number[]>([]);
+  // Set once the first autosave has created the draft; later saves update it
+  const draftIdRef = useRef<string | null>(null);
 
   // Fetch available techniques
   const { data: techniques = [], isLoading: techniquesLoading } = useQuery<PromptTechnique[]>({
@@ -60,34 +76,48 @@ export default function CreatePrompt() {
       title: "",
       promptBodyText: "",
       rationale: "",
-      status: "pending_review",
       version: 1,
       promptBodyJson: null,
       parentPromptId: null,
+      variables: [],
     },
   });
 
+  const values = form.watch();
+  const autosave = useDraftAutosave(values, hasContent(values), async (draft) => {
+    if (draftIdRef.current) {
+      await apiRequest('PUT', `/api/v1/prompts/${draftIdRef.current}`, { ...draftContent(draft), autosave: true });
+      return;
+    }
+    const res = await apiRequest('POST', '/api/v1/prompts', { ...draftContent(draft), draft: true });
+    draftIdRef.current = (await res.json()).id;
+  });
+
   const createPromptMutation = useMutation({
     mutationFn: async (data: CreatePromptForm) => {
-      const res = await apiRequest('POST', '/api/v1/prompts', data);
+      // Let any autosave land first so it cannot create a second draft
+      await autosave.flush();
+      // Technique tags are saved with the content, before the prompt goes to review
+      if (draftIdRef.current) {
+        await apiRequest('PUT', `/api/v1/prompts/${draftIdRef.current}`, {
+          ...draftContent(data),
+          techniqueIds: selectedTechniqueIds,
+          autosave: true,
+        });
+        const res = await apiRequest('POST', `/api/v1/prompts/${draftIdRef.current}/submit`, {});
+        return await res.json();
+      }
+      const res = await apiRequest('POST', '/api/v1/prompts', { ...data, techniqueIds: selectedTechniqueIds });
       return await res.json();
     },
-    onSuccess: async (newPrompt: any) => {
-      // Link selected techniques to the prompt
-      if (selectedTechniqueIds.length > 0) {
-        await Promise.all(
-          selectedTechniqueIds.map(techniqueId =>
-            apiRequest('POST', `/api/v1/prompts/${newPrompt.id}/techniques`, { techniqueId })
-          )
-        );
-      }
-
+    onSuccess: () => {
       toast({
         title: "Prompt submitted!",
         description: "Your prompt has been submitted for review.",
       });
 
       queryClient.invalidateQueries({ queryKey: ['/api/v1/prompts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/drafts'] });
       navigate('/');
     },
     onError: (error: any) => {
@@ -128,7 +158,8 @@ export default function CreatePrompt() {
         <CardHeader>
           <CardTitle data-testid="text-page-title">Create New Prompt</CardTitle>
           <p className="text-muted-foreground" data-testid="text-page-description">
-            Share your prompt engineering knowledge with the community
+            Share your prompt engineering knowledge with the community. Your work is saved as a draft as you type;
+            pick it up again from <Link to="/drafts" className="underline">My Drafts</Link>.
           </p>
         </CardHeader>
         <CardContent>
@@ -178,6 +209,27 @@ export default function CreatePrompt() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="variables"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Template Variables</FormLabel>
+                    <FormControl>
+                      <VariableDeclarationsEditor
+                        value={field.value || []}
+                        onChange={field.onChange}
+                        placeholders={extractPlaceholders(form.watch("promptBodyText"))}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Declare every {"{{placeholder}}"} used in the prompt text so readers get a fill-in form
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="rationale"
@@ -267,6 +319,9 @@ export default function CreatePrompt() {
                 >
                   Cancel
                 </Button>
+                <div className="ml-auto self-center">
+                  <AutosaveStatus status={autosave.status} savedAt={autosave.savedAt} />
+                </div>
               </div>
             </form>
           </Form>
@@ -0,0 +1,129 @@
+import { Link } from "wouter";
+import { formatDistance } from "date-fns";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { GitFork, Pencil, Plus } from "lucide-react";
+import { LoadMore } from "@/components/load-more";
+import { PromptLifecycleActions } from "@/components/prompt-lifecycle-actions";
+import { useAuth } from "@/hooks/useAuth";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import type { Prompt } from "@shared/schema";
+import { DRAFTS } from "@shared/schema";
+
+export default function Drafts() {
+  const { user } = useAuth();
+
+  const {
+    items: drafts,
+    totalCount,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedQuery<Prompt>(["/api/v1/drafts"], "/api/v1/drafts", { enabled: !!user });
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2" data-testid="text-page-title">
+            My Drafts
+          </h1>
+          <p className="text-muted-foreground" data-testid="text-page-description">
+            New prompts, forks and edits of approved prompts that haven't been submitted yet. Editors save
+            drafts every {DRAFTS.AUTOSAVE_SECONDS} seconds; empty drafts are removed after {DRAFTS.STALE_EMPTY_DAYS} days.
+          </p>
+        </div>
+        {user && (
+          <Button asChild data-testid="button-create-prompt">
+            <Link to="/create">
+              <Plus className="h-4 w-4 mr-2" />
+              New Prompt
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      {!user ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground" data-testid="text-drafts-login">
+              Log in to see your drafts.
+            </p>
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-32 w-full" />
+          ))}
+        </div>
+      ) : drafts.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground" data-testid="text-no-drafts">
+              No drafts. Anything you start writing is saved here automatically.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {drafts.map((draft) => (
+            <Card key={draft.id} data-testid={`card-draft-${draft.id}`}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <Link to={`/prompts/${draft.id}`}>
+                      <CardTitle className="text-xl hover:text-primary transition-colors cursor-pointer" data-testid={`text-draft-title-${draft.id}`}>
+                        {draft.title.trim() || "Untitled draft"}
+                      </CardTitle>
+                    </Link>
+                    <CardDescription className="mt-2 line-clamp-2">
+                      {draft.rationale || "No rationale yet"}
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {draft.status === "approved" && (
+                      <Badge variant="secondary" data-testid={`badge-draft-edit-${draft.id}`}>
+                        Edit of approved v{draft.version}
+                      </Badge>
+                    )}
+                    {draft.parentPromptId && (
+                      <Badge variant="outline" data-testid={`badge-draft-fork-${draft.id}`}>
+                        <GitFork className="h-3 w-3 mr-1" />
+                        Fork
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardFooter className="flex flex-wrap items-center justify-between gap-4">
+                <span className="text-sm text-muted-foreground" data-testid={`text-draft-saved-${draft.id}`}>
+                  Saved {formatDistance(new Date(draft.updatedAt), new Date(), { addSuffix: true })}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" asChild data-testid={`button-continue-draft-${draft.id}`}>
+                    <Link to={`/prompts/${draft.id}/edit`}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Continue editing
+                    </Link>
+                  </Button>
+                  <PromptLifecycleActions prompt={draft} />
+                </div>
+              </CardFooter>
+            </Card>
+          ))}
+          <LoadMore
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+            loaded={drafts.length}
+            totalCount={totalCount}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
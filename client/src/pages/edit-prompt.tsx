@@ -10,11 +10,17 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { X, Loader2 } from "lucide-react";
+import { X, Loader2, Lock, MessageSquareWarning, ShieldCheck, Workflow } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useDraftAutosave } from "@/hooks/useDraftAutosave";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { insertPromptSchema } from "@shared/schema";
-import type { PromptTechnique, Prompt } from "@shared/schema";
+import { VariableDeclarationsEditor } from "@/components/variable-declarations-editor";
+import { ReviewConversation } from "@/components/review-conversation";
+import { AutosaveStatus } from "@/components/autosave-status";
+import { PromptLifecycleActions } from "@/components/prompt-lifecycle-actions";
+import { canAutosave, insertPromptSchema, isUnderReview, reviewStatusOf } from "@shared/schema";
+import { extractPlaceholders } from "@shared/templates";
+import type { PromptTechnique, Prompt, PromptGraph, PromptRevision } from "@shared/schema";
 import {
   Form,
   FormControl,
@@ -37,6 +43,7 @@ const editPromptFormSchema = insertPromptSchema.extend({
   title: z.string().min(10, "Title must be at least 10 characters").max(255),
   promptBodyText: z.string().min(20, "Prompt must be at least 20 characters"),
   rationale: z.string().min(30, "Rationale must be at least 30 characters"),
+  editSummary: z.string().max(500).optional(),
 }).omit({
   authorId: true,
   status: true,
@@ -60,6 +67,13 @@ export default function EditPrompt() {
     },
   });
 
+  // Approved prompts are edited on top of their pending revision, if they have one
+  const pendingVersion = promptData?.pendingVersion ?? null;
+  const { data: pendingRevision, isLoading: revisionLoading } = useQuery<PromptRevision>({
+    queryKey: ['/api/v1/prompts', id, 'revisions', String(pendingVersion)],
+    enabled: pendingVersion !== null,
+  });
+
   // Fetch available techniques
   const { data: techniques = [], isLoading: techniquesLoading } = useQuery<PromptTechnique[]>({
     queryKey: ['/api/v1/techniques'],
@@ -74,67 +88,71 @@ export default function EditPrompt() {
       version: 1,
       promptBodyJson: null,
       parentPromptId: null,
+      variables: [],
+      editSummary: "",
     },
   });
 
   // Update form when prompt data loads
   useEffect(() => {
-    if (promptData) {
+    if (promptData && (pendingVersion === null || pendingRevision)) {
+      const content = pendingRevision ?? promptData;
       form.reset({
-        title: promptData.title,
-        promptBodyText: promptData.promptBodyText || "",
-        rationale: promptData.rationale,
-        version: promptData.version,
-        promptBodyJson: promptData.promptBodyJson,
+        title: content.title,
+        promptBodyText: content.promptBodyText || "",
+        rationale: content.rationale,
+        version: content.version,
+        promptBodyJson: content.promptBodyJson as PromptGraph | null,
         parentPromptId: promptData.parentPromptId,
+        variables: content.variables,
+        editSummary: "",
       });
       
-      // Set selected techniques
-      if (promptData.techniques) {
-        setSelectedTechniqueIds(promptData.techniques.map(t => t.id));
-      }
+      // Set selected techniques; a pending revision carries its own
+      setSelectedTechniqueIds(pendingRevision?.techniqueIds ?? promptData.techniques.map(t => t.id));
     }
-  }, [promptData, form]);
+  }, [promptData, pendingVersion, pendingRevision, form]);
+
+  // Drafts (and edits of approved prompts, which become draft revisions) save themselves;
+  // autosaves overwrite one working revision until the edit is submitted
+  const autosaveEnabled = !!promptData && canAutosave(promptData);
+  const values = form.watch();
+  const autosave = useDraftAutosave(values, autosaveEnabled && form.formState.isDirty, async (draft) => {
+    await apiRequest('PUT', `/api/v1/prompts/${id}`, { ...draft, autosave: true });
+  });
+
+  // Tags are saved with the content, so a tag-only change still needs a save
+  const savedTechniqueIds = pendingRevision?.techniqueIds ?? promptData?.techniques.map(t => t.id) ?? [];
+  const techniquesChanged = savedTechniqueIds.length !== selectedTechniqueIds.length
+    || selectedTechniqueIds.some(techniqueId => !savedTechniqueIds.includes(techniqueId));
 
   const updatePromptMutation = useMutation({
     mutationFn: async (data: EditPromptForm) => {
-      // Force status to pending_review when updating
-      const updateData = { ...data, status: 'pending_review' };
-      const res = await apiRequest('PUT', `/api/v1/prompts/${id}`, updateData);
-      return await res.json();
+      await autosave.flush();
+      // An untouched draft is submitted as it stands rather than saved again
+      const updated: Prompt = promptData && reviewStatusOf(promptData) === 'draft' && !form.formState.isDirty && !techniquesChanged
+        ? promptData
+        : await (await apiRequest('PUT', `/api/v1/prompts/${id}`, {
+            ...data,
+            techniqueIds: selectedTechniqueIds,
+            autosave: autosaveEnabled,
+          })).json();
+      // Saving never changes status, so queue the saved edit for review
+      const submitted = await apiRequest('POST', `/api/v1/prompts/${id}/submit`, {});
+      return await submitted.json();
     },
-    onSuccess: async (updatedPrompt: any) => {
-      // Get current techniques
-      const currentTechniqueIds = new Set(promptData?.techniques?.map(t => t.id) || []);
-      const newTechniqueIds = new Set(selectedTechniqueIds);
-
-      // Remove techniques that are no longer selected
-      const techniquesToRemove = Array.from(currentTechniqueIds).filter(tid => !newTechniqueIds.has(tid));
-      if (techniquesToRemove.length > 0) {
-        await Promise.all(
-          techniquesToRemove.map(techniqueId =>
-            apiRequest('DELETE', `/api/v1/prompts/${id}/techniques/${techniqueId}`, {})
-          )
-        );
-      }
-
-      // Add new techniques
-      const techniquesToAdd = selectedTechniqueIds.filter(tid => !currentTechniqueIds.has(tid));
-      if (techniquesToAdd.length > 0) {
-        await Promise.all(
-          techniquesToAdd.map(techniqueId =>
-            apiRequest('POST', `/api/v1/prompts/${id}/techniques`, { techniqueId })
-          )
-        );
-      }
-
+    onSuccess: () => {
       toast({
         title: "Prompt updated!",
-        description: "Your prompt has been updated and submitted for review.",
+        description: promptData?.status === 'approved'
+          ? "Your changes were submitted for review. The approved version stays live until they are approved."
+          : "Your prompt has been updated and submitted for review.",
       });
 
       queryClient.invalidateQueries({ queryKey: ['/api/v1/prompts'] });
       queryClient.invalidateQueries({ queryKey: ['/api/v1/prompts', id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/drafts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/notifications'] });
       navigate('/');
     },
     onError: (error: any) => {
@@ -161,6 +179,9 @@ export default function EditPrompt() {
     setSelectedTechniqueIds(selectedTechniqueIds.filter(id => id !== techniqueId));
   };
 
+  // Composer prompts have their text compiled server-side from promptBodyJson
+  const isComposed = !!promptData?.promptBodyJson;
+
   const availableTechniques = techniques.filter(
     t => !selectedTechniqueIds.includes(t.id)
   );
@@ -169,7 +190,7 @@ export default function EditPrompt() {
     t => selectedTechniqueIds.includes(t.id)
   );
 
-  if (promptLoading) {
+  if (promptLoading || (pendingVersion !== null && revisionLoading)) {
     return (
       <div className="container mx-auto px-4 py-8 max-w-4xl flex justify-center items-center min-h-[400px]">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -189,8 +210,56 @@ export default function EditPrompt() {
     );
   }
 
+  const reviewStatus = reviewStatusOf(promptData);
+  const underReview = isUnderReview(promptData);
+
   return (
-    <div className="container mx-auto px-4 py-8 max-w-4xl">
+    <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+      {underReview && (
+        <Card className="border-amber-500/50" data-testid="card-under-review">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Lock className="h-5 w-5 text-amber-500" />
+              {pendingVersion !== null ? `Revision v${pendingVersion} is under review` : "Under review"}
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Reviewers are judging this content as submitted, so it can't be changed. Withdraw it to draft to make changes, then submit it again.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <PromptLifecycleActions prompt={promptData} />
+          </CardContent>
+        </Card>
+      )}
+      {promptData.status === 'approved' && (
+        <Card className="border-primary/50" data-testid="card-approved-edit">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <ShieldCheck className="h-5 w-5 text-primary" />
+              {pendingVersion !== null ? `Editing pending revision v${pendingVersion}` : "Editing an approved prompt"}
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Version {promptData.version} stays live while your changes are reviewed. They replace it only once reviewers approve them.
+            </p>
+          </CardHeader>
+        </Card>
+      )}
+      {reviewStatus === 'needs_changes' && (
+        <Card className="border-amber-500/50" data-testid="card-requested-changes">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <MessageSquareWarning className="h-5 w-5 text-amber-500" />
+              Reviewers requested changes
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Address the feedback below, then resubmit. Reviewers will see this conversation alongside your changes.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <ReviewConversation promptId={promptData.id} />
+          </CardContent>
+        </Card>
+      )}
       <Card>
         <CardHeader>
           <CardTitle data-testid="text-page-title">Edit Prompt</CardTitle>
@@ -235,10 +304,34 @@ export default function EditPrompt() {
                         data-testid="input-prompt-text"
                         {...field}
                         value={field.value || ""}
+                        readOnly={isComposed}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      {isComposed
+                        ? "Compiled from the Visual Composer graph. Open the composer to change it."
+                        : "The actual prompt text that will be used with AI models"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="variables"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Template Variables</FormLabel>
+                    <FormControl>
+                      <VariableDeclarationsEditor
+                        value={field.value || []}
+                        onChange={field.onChange}
+                        placeholders={extractPlaceholders(form.watch("promptBodyText"))}
                       />
                     </FormControl>
                     <FormDescription>
-                      The actual prompt text that will be used with AI models
+                      Declare every {"{{placeholder}}"} used in the prompt text so readers get a fill-in form
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -267,6 +360,28 @@ export default function EditPrompt() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="editSummary"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Edit Summary</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g., Clarified the output format section"
+                        data-testid="input-edit-summary"
+                        {...field}
+                        value={field.value || ""}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Briefly describe what you changed; it is shown in the revision history
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <div className="space-y-3">
                 <Label>Techniques</Label>
                 <div className="flex gap-2 items-start">
@@ -321,10 +436,23 @@ export default function EditPrompt() {
               <div className="flex gap-3 pt-4">
                 <Button
                   type="submit"
-                  disabled={updatePromptMutation.isPending}
+                  disabled={updatePromptMutation.isPending || underReview}
                   data-testid="button-submit-prompt"
                 >
-                  {updatePromptMutation.isPending ? "Updating..." : "Update & Submit for Review"}
+                  {updatePromptMutation.isPending
+                    ? "Updating..."
+                    : reviewStatus === 'needs_changes'
+                    ? "Update & Resubmit for Review"
+                    : "Update & Submit for Review"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => navigate(`/prompts/${id}/composer`)}
+                  data-testid="button-open-composer"
+                >
+                  <Workflow className="h-4 w-4 mr-2" />
+                  Open in Composer
                 </Button>
                 <Button
                   type="button"
@@ -334,6 +462,9 @@ export default function EditPrompt() {
                 >
                   Cancel
                 </Button>
+                <div className="ml-auto self-center">
+                  <AutosaveStatus status={autosave.status} savedAt={autosave.savedAt} />
+                </div>
               </div>
             </form>
           </Form>
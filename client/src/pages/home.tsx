@@ -1,24 +1,87 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { MessageSquare, Plus } from "lucide-react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Flame, MessageSquare, Plus, Sparkles, Swords, TrendingUp } from "lucide-react";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { VoteButtons } from "@/components/vote-buttons";
-import type { PromptWithStats } from "@shared/schema";
+import { LoadMore } from "@/components/load-more";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import type { PromptSort, PromptWithStats, TopWindow } from "@shared/schema";
+
+const SORT_TABS: { value: PromptSort; label: string; icon: typeof Flame }[] = [
+  { value: "hot", label: "Hot", icon: Flame },
+  { value: "top", label: "Top", icon: TrendingUp },
+  { value: "new", label: "New", icon: Sparkles },
+  { value: "active", label: "Most Discussed", icon: MessageSquare },
+  { value: "controversial", label: "Controversial", icon: Swords },
+];
+
+const WINDOW_LABELS: Record<TopWindow, string> = {
+  day: "Today",
+  week: "This week",
+  month: "This month",
+  all: "All time",
+};
 
 export default function Home() {
-  const { data: prompts, isLoading } = useQuery<PromptWithStats[]>({
-    queryKey: ["/api/v1/prompts"],
+  const [sort, setSort] = useState<PromptSort>("hot");
+  const [topWindow, setTopWindow] = useState<TopWindow>("week");
+
+  const {
+    items: prompts,
+    totalCount,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedQuery<PromptWithStats>(["/api/v1/prompts", { sort, window: topWindow }], "/api/v1/prompts", {
+    params: { sort, window: sort === "top" ? topWindow : undefined },
   });
 
   const { user } = useAuth();
 
+  const sortControls = (
+    <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+      <Tabs value={sort} onValueChange={(value) => setSort(value as PromptSort)}>
+        <TabsList>
+          {SORT_TABS.map(({ value, label, icon: Icon }) => (
+            <TabsTrigger key={value} value={value} data-testid={`tab-sort-${value}`}>
+              <Icon className="h-4 w-4 mr-2" />
+              {label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+      {sort === "top" && (
+        <Select value={topWindow} onValueChange={(value) => setTopWindow(value as TopWindow)}>
+          <SelectTrigger className="w-[150px]" data-testid="select-top-window">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(WINDOW_LABELS) as TopWindow[]).map((value) => (
+              <SelectItem key={value} value={value}>{WINDOW_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="container mx-auto px-4 py-8 max-w-4xl">
+        {sortControls}
         <div className="space-y-4">
           {[1, 2, 3].map((i) => (
             <Card key={i}>
@@ -57,11 +120,15 @@ export default function Home() {
         )}
       </div>
 
-      {!prompts || prompts.length === 0 ? (
+      {sortControls}
+
+      {prompts.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center">
             <p className="text-muted-foreground mb-4" data-testid="text-empty-state">
-              No prompts yet. Be the first to contribute!
+              {sort === "top" && topWindow !== "all"
+                ? `No prompts from ${WINDOW_LABELS[topWindow].toLowerCase()}.`
+                : "No prompts yet. Be the first to contribute!"}
             </p>
             {user && (
               <Button asChild data-testid="button-create-first-prompt">
@@ -124,7 +191,7 @@ export default function Home() {
               </CardContent>
               <CardFooter className="flex items-center justify-between gap-4">
                 <div className="flex items-center gap-4">
-                  <VoteButtons promptId={prompt.id} />
+                  <VoteButtons promptId={prompt.id} authorId={prompt.authorId} />
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <MessageSquare className="h-4 w-4" />
                     <span data-testid={`text-comment-count-${prompt.id}`}>{prompt.commentCount}</span>
@@ -136,6 +203,14 @@ export default function Home() {
               </CardFooter>
             </Card>
           ))}
+          <LoadMore
+            infinite
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+            loaded={prompts.length}
+            totalCount={totalCount}
+          />
         </div>
       )}
     </div>
@@ -5,15 +5,29 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { VoteButtons } from "@/components/vote-buttons";
+import { RevisionHistory } from "@/components/revision-history";
+import { StatusHistory } from "@/components/status-history";
+import { LineageTree } from "@/components/lineage-tree";
+import { ChangeProposalList, ProposeChangesDialog } from "@/components/change-proposals";
+import { SuggestEditDialog, SuggestedEditList } from "@/components/suggested-edits";
+import { PromptLifecycleActions } from "@/components/prompt-lifecycle-actions";
+import { DiffDialog } from "@/components/diff-viewer";
+import { UsePromptPanel } from "@/components/use-prompt-panel";
+import { LoadMore } from "@/components/load-more";
+import { RubricScores } from "@/components/rubric-scores";
+import { ReviewConversation } from "@/components/review-conversation";
 import { useAuth } from "@/hooks/useAuth";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
 import { formatDistance } from "date-fns";
-import { GitFork } from "lucide-react";
+import { ClipboardCheck, Clock, GitCompare, GitFork, History, MessageSquare, ShieldCheck } from "lucide-react";
 import type { PromptWithTechniques, Comment } from "@shared/schema";
-import { canComment } from "@shared/schema";
+import { canComment, canModerate, canSuggestEdit } from "@shared/schema";
+import { getEconomy } from "@shared/economy";
 
 export default function PromptDetail() {
   const { id } = useParams();
@@ -26,9 +40,14 @@ export default function PromptDetail() {
     queryKey: ["/api/v1/prompts", id],
   });
 
-  const { data: comments, isLoading: commentsLoading } = useQuery<Comment[]>({
-    queryKey: ["/api/v1/prompts", id, "comments"],
-  });
+  const {
+    items: comments,
+    totalCount: commentCount,
+    isLoading: commentsLoading,
+    hasNextPage: hasMoreComments,
+    isFetchingNextPage: isFetchingMoreComments,
+    fetchNextPage: fetchMoreComments,
+  } = usePaginatedQuery<Comment>(["/api/v1/prompts", id, "comments"], `/api/v1/prompts/${id}/comments`);
 
   const forkMutation = useMutation({
     mutationFn: async () => {
@@ -51,6 +70,27 @@ export default function PromptDetail() {
     },
   });
 
+  const auditMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/v1/review-audits", { promptId: id });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/review-audits"] });
+      toast({
+        title: "Added as review audit",
+        description: "Reviewers will occasionally see this prompt in their queue as a test item.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add review audit",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const commentMutation = useMutation({
     mutationFn: async (content: string) => {
       const response = await apiRequest("POST", `/api/v1/comments`, { promptId: id, content });
@@ -88,7 +128,7 @@ export default function PromptDetail() {
     if (!canComment(userReputation)) {
       toast({
         title: "Insufficient reputation",
-        description: `You need 50 reputation to comment (you have ${userReputation})`,
+        description: `You need ${getEconomy().thresholds.COMMENT} reputation to comment (you have ${userReputation})`,
         variant: "destructive",
       });
       return;
@@ -162,6 +202,37 @@ export default function PromptDetail() {
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {prompt.pendingVersion !== null && (
+            <div
+              className="flex items-center justify-between gap-4 rounded-md border border-dashed p-3 text-sm"
+              data-testid="pending-revision"
+            >
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Clock className="h-4 w-4" />
+                <span>
+                  An edit (v{prompt.pendingVersion}) is{" "}
+                  {prompt.pendingStatus === "needs_changes"
+                    ? "waiting on requested changes"
+                    : prompt.pendingStatus === "draft"
+                    ? "saved as a draft"
+                    : "awaiting review"}.
+                  Version {prompt.version} stays live until reviewers approve it.
+                </span>
+              </div>
+              <DiffDialog
+                title={`Pending changes in v${prompt.pendingVersion}`}
+                promptId={prompt.id}
+                from={prompt.version}
+                to={prompt.pendingVersion}
+                trigger={
+                  <Button variant="ghost" size="sm" data-testid="button-compare-pending">
+                    <GitCompare className="h-4 w-4 mr-2" />
+                    Compare
+                  </Button>
+                }
+              />
+            </div>
+          )}
           <div>
             <h3 className="text-sm font-semibold mb-2">Prompt</h3>
             <pre className="text-sm bg-muted p-4 rounded-md overflow-x-auto font-mono" data-testid="text-prompt-body">
@@ -182,8 +253,38 @@ export default function PromptDetail() {
           )}
         </CardContent>
         <CardFooter className="flex items-center justify-between gap-4 flex-wrap">
-          <VoteButtons promptId={prompt.id} />
-          <div className="flex items-center gap-3">
+          <VoteButtons promptId={prompt.id} authorId={prompt.authorId} />
+          <div className="flex items-center gap-3 flex-wrap">
+            <PromptLifecycleActions prompt={prompt} />
+            {prompt.parentPromptId && (
+              <DiffDialog
+                title="Compare with parent"
+                promptId={prompt.id}
+                compareTo={prompt.parentPromptId}
+                trigger={
+                  <Button variant="outline" size="sm" data-testid="button-compare-parent">
+                    <GitCompare className="h-4 w-4 mr-2" />
+                    Compare with parent
+                  </Button>
+                }
+              />
+            )}
+            {prompt.parentPromptId && user?.id === prompt.authorId && prompt.status !== "archived" && (
+              <ProposeChangesDialog prompt={prompt} />
+            )}
+            {user && canSuggestEdit(prompt, user) && <SuggestEditDialog prompt={prompt} />}
+            {user && canModerate(user.reputation) && (prompt.status === "approved" || prompt.status === "rejected") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => auditMutation.mutate()}
+                disabled={auditMutation.isPending}
+                data-testid="button-make-audit"
+              >
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Use as audit
+              </Button>
+            )}
             {user && (
               <Button
                 variant="outline"
@@ -203,83 +304,200 @@ export default function PromptDetail() {
         </CardFooter>
       </Card>
 
-      {/* Comments Section */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Comments</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          {/* Comment Form */}
-          {user ? (
-            <>
-              {canComment(user.reputation || 0) ? (
-                <div className="space-y-2" data-testid="comment-form">
-                  <Textarea
-                    placeholder="Add a comment..."
-                    value={commentText}
-                    onChange={(e) => setCommentText(e.target.value)}
-                    disabled={commentMutation.isPending}
-                    data-testid="input-comment"
-                  />
-                  <Button
-                    onClick={handleSubmitComment}
-                    disabled={commentMutation.isPending || !commentText.trim()}
-                    data-testid="button-submit-comment"
-                  >
-                    {commentMutation.isPending ? "Posting..." : "Post Comment"}
-                  </Button>
-                </div>
+      {prompt.promptBodyText && (
+        <Card className="mb-6" data-testid="card-use-prompt">
+          <CardHeader>
+            <CardTitle>Use this prompt</CardTitle>
+            {prompt.variables.length > 0 && (
+              <CardDescription>Fill in the template variables, then copy the result.</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            <UsePromptPanel promptBodyText={prompt.promptBodyText} variables={prompt.variables} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Tabs defaultValue="comments" className="w-full">
+        <TabsList className="grid w-full grid-cols-4 mb-4">
+          <TabsTrigger value="comments" data-testid="tab-comments">
+            <MessageSquare className="h-4 w-4 mr-2" />
+            Comments ({commentCount})
+          </TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-history">
+            <History className="h-4 w-4 mr-2" />
+            History (v{prompt.version})
+          </TabsTrigger>
+          <TabsTrigger value="reviews" data-testid="tab-reviews">
+            <ClipboardCheck className="h-4 w-4 mr-2" />
+            Reviews
+          </TabsTrigger>
+          <TabsTrigger value="lineage" data-testid="tab-lineage">
+            <GitFork className="h-4 w-4 mr-2" />
+            Forks
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="comments">
+          {/* Comments Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Comments</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {/* Comment Form */}
+              {user ? (
+                <>
+                  {canComment(user.reputation || 0) ? (
+                    <div className="space-y-2" data-testid="comment-form">
+                      <Textarea
+                        placeholder="Add a comment..."
+                        value={commentText}
+                        onChange={(e) => setCommentText(e.target.value)}
+                        disabled={commentMutation.isPending}
+                        data-testid="input-comment"
+                      />
+                      <Button
+                        onClick={handleSubmitComment}
+                        disabled={commentMutation.isPending || !commentText.trim()}
+                        data-testid="button-submit-comment"
+                      >
+                        {commentMutation.isPending ? "Posting..." : "Post Comment"}
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground" data-testid="text-reputation-required">
+                      You need {getEconomy().thresholds.COMMENT} reputation to comment (you have {user.reputation || 0})
+                    </p>
+                  )}
+                </>
               ) : (
-                <p className="text-sm text-muted-foreground" data-testid="text-reputation-required">
-                  You need 50 reputation to comment (you have {user.reputation || 0})
+                <p className="text-sm text-muted-foreground" data-testid="text-login-prompt">
+                  Please log in to comment
                 </p>
               )}
-            </>
-          ) : (
-            <p className="text-sm text-muted-foreground" data-testid="text-login-prompt">
-              Please log in to comment
-            </p>
-          )}
 
-          {/* Comments List */}
-          <div className="space-y-4 mt-6">
-            {commentsLoading ? (
-              <div className="space-y-4">
-                {[1, 2].map((i) => (
-                  <div key={i} className="space-y-2">
-                    <Skeleton className="h-4 w-32" />
-                    <Skeleton className="h-16 w-full" />
+              {/* Comments List */}
+              <div className="space-y-4 mt-6">
+                {commentsLoading ? (
+                  <div className="space-y-4">
+                    {[1, 2].map((i) => (
+                      <div key={i} className="space-y-2">
+                        <Skeleton className="h-4 w-32" />
+                        <Skeleton className="h-16 w-full" />
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            ) : !comments || comments.length === 0 ? (
-              <p className="text-sm text-muted-foreground text-center py-8" data-testid="text-no-comments">
-                No comments yet. Be the first to comment!
-              </p>
-            ) : (
-              comments.map((comment) => (
-                <div
-                  key={comment.id}
-                  className="border-l-2 border-muted pl-4 py-2"
-                  data-testid={`comment-${comment.id}`}
-                >
-                  <div className="flex items-center gap-2 mb-2">
-                    <span className="text-sm font-medium" data-testid={`comment-author-${comment.id}`}>
-                      {comment.authorId}
-                    </span>
-                    <span className="text-xs text-muted-foreground" data-testid={`comment-time-${comment.id}`}>
-                      {formatDistance(new Date(comment.createdAt), new Date(), { addSuffix: true })}
-                    </span>
-                  </div>
-                  <p className="text-sm" data-testid={`comment-content-${comment.id}`}>
-                    {comment.content}
+                ) : comments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8" data-testid="text-no-comments">
+                    No comments yet. Be the first to comment!
                   </p>
-                </div>
-              ))
-            )}
-          </div>
-        </CardContent>
-      </Card>
+                ) : (
+                  comments.map((comment) => (
+                    <div
+                      key={comment.id}
+                      className="border-l-2 border-muted pl-4 py-2"
+                      data-testid={`comment-${comment.id}`}
+                    >
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="text-sm font-medium" data-testid={`comment-author-${comment.id}`}>
+                          {comment.authorId}
+                        </span>
+                        <span className="text-xs text-muted-foreground" data-testid={`comment-time-${comment.id}`}>
+                          {formatDistance(new Date(comment.createdAt), new Date(), { addSuffix: true })}
+                        </span>
+                      </div>
+                      <p className="text-sm" data-testid={`comment-content-${comment.id}`}>
+                        {comment.content}
+                      </p>
+                    </div>
+                  ))
+                )}
+                <LoadMore
+                  hasNextPage={hasMoreComments}
+                  isFetchingNextPage={isFetchingMoreComments}
+                  fetchNextPage={fetchMoreComments}
+                  loaded={comments.length}
+                  totalCount={commentCount}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Revision History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RevisionHistory
+                promptId={prompt.id}
+                currentVersion={prompt.version}
+                pendingVersion={prompt.pendingVersion}
+              />
+            </CardContent>
+          </Card>
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Status History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <StatusHistory promptId={prompt.id} />
+            </CardContent>
+          </Card>
+          <Card className="mt-6" data-testid="card-suggested-edits">
+            <CardHeader>
+              <CardTitle>Suggested Edits</CardTitle>
+              <CardDescription>Edits proposed by other users, accepted by the author or a reviewer</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SuggestedEditList promptId={prompt.id} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="reviews" className="space-y-6">
+          <Card data-testid="card-rubric-scores">
+            <CardHeader>
+              <CardTitle>Review Scores</CardTitle>
+              <CardDescription>Average rubric scores across all review rounds</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RubricScores queryKey={["/api/v1/prompts", prompt.id, "rubric-scores"]} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Reviewer Feedback</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ReviewConversation promptId={prompt.id} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="lineage">
+          <Card>
+            <CardHeader>
+              <CardTitle>Fork Lineage</CardTitle>
+              <CardDescription>Where this prompt came from and the variants built on it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LineageTree promptId={prompt.id} />
+            </CardContent>
+          </Card>
+          <Card className="mt-6" data-testid="card-change-proposals">
+            <CardHeader>
+              <CardTitle>Change Proposals</CardTitle>
+              <CardDescription>Forks asking to merge their changes back</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChangeProposalList promptId={prompt.id} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -0,0 +1,124 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import type { ReviewAuditWithStats } from "@shared/schema";
+import { canModerate, REVIEW_AUDITS } from "@shared/schema";
+import { getEconomy } from "@shared/economy";
+
+export default function ReviewAudits() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const allowed = !!user && canModerate(user.reputation);
+
+  const { data: audits = [], isLoading } = useQuery<ReviewAuditWithStats[]>({
+    queryKey: ["/api/v1/review-audits"],
+    enabled: allowed,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
+      await apiRequest("PUT", `/api/v1/review-audits/${id}`, { active });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/review-audits"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update audit",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2" data-testid="text-page-title">
+          Review Audits
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-page-description">
+          Known-good and known-bad prompts shown to reviewers as test items after every {REVIEW_AUDITS.INTERVAL} reviews.
+          Failing {REVIEW_AUDITS.MAX_FAILURES} of the last {REVIEW_AUDITS.WINDOW} suspends reviewing
+          for {REVIEW_AUDITS.SUSPENSION_DAYS} days. Add audits from an approved or rejected prompt's page.
+        </p>
+      </div>
+
+      {!allowed ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground" data-testid="text-audits-forbidden">
+              You need {getEconomy().thresholds.MODERATE} reputation to manage review audits.
+            </p>
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : audits.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground" data-testid="text-no-audits">
+              No review audits yet.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Prompt</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead className="text-right">Answered</TableHead>
+                <TableHead className="text-right">Pass rate</TableHead>
+                <TableHead className="text-right">Active</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {audits.map((audit) => (
+                <TableRow key={audit.id} data-testid={`row-audit-${audit.id}`}>
+                  <TableCell>
+                    <Link to={`/prompts/${audit.promptId}`} className="hover:text-primary">
+                      {audit.promptTitle}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={audit.expectedVote === "approve" ? "default" : "destructive"}>
+                      {audit.expectedVote}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{audit.attemptCount}</TableCell>
+                  <TableCell className="text-right" data-testid={`text-audit-pass-rate-${audit.id}`}>
+                    {audit.attemptCount > 0 ? `${Math.round((audit.passCount / audit.attemptCount) * 100)}%` : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Switch
+                      checked={audit.active}
+                      onCheckedChange={(active) => toggleMutation.mutate({ id: audit.id, active })}
+                      disabled={toggleMutation.isPending}
+                      data-testid={`switch-audit-active-${audit.id}`}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,245 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { AlertCircle, CheckCircle, XCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertCircle,
+  CheckCircle,
+  ClipboardCheck,
+  Clock,
+  GitCompare,
+  Lock,
+  MessageSquareWarning,
+  SkipForward,
+  Unlock,
+  XCircle,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { DiffDialog } from "@/components/diff-viewer";
+import { ReviewConversation } from "@/components/review-conversation";
+import { LoadMore } from "@/components/load-more";
 import { useAuth } from "@/hooks/useAuth";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Prompt } from "@shared/schema";
+import { queryClient, apiRequest, parseApiError } from "@/lib/queryClient";
+import type {
+  PromptTechnique,
+  ReviewBlockCode,
+  ReviewClaim,
+  ReviewCriterion,
+  ReviewQueueItem,
+  ReviewScoreInput,
+  ReviewSubmission,
+  ReviewVote,
+} from "@shared/schema";
+import { canReview, REVIEW_CONSENSUS, REVIEW_QUEUE, RUBRIC_SCALE } from "@shared/schema";
+import { getEconomy } from "@shared/economy";
+
+interface ReviewDialogProps {
+  promptId: string;
+  criteria: ReviewCriterion[];
+  disabled: boolean;
+  onSubmit: (review: { vote: ReviewVote; comment?: string; scores: ReviewScoreInput[] }) => void;
+}
+
+// Scores every active rubric criterion, then records the reviewer's vote
+function ReviewDialog({ promptId, criteria, disabled, onSubmit }: ReviewDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [scores, setScores] = useState<Record<number, number>>({});
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [comment, setComment] = useState("");
+  const allScored = criteria.every((criterion) => scores[criterion.id]);
+  const commentTooShort = comment.trim().length < 10;
+
+  const submit = (vote: ReviewVote) => {
+    onSubmit({
+      vote,
+      comment: comment.trim() || undefined,
+      scores: criteria.map((criterion) => ({
+        criterionId: criterion.id,
+        score: scores[criterion.id],
+        note: notes[criterion.id]?.trim() || null,
+      })),
+    });
+    setOpen(false);
+    setScores({});
+    setNotes({});
+    setComment("");
+  };
+
+  const scaleValues = Array.from(
+    { length: RUBRIC_SCALE.MAX - RUBRIC_SCALE.MIN + 1 },
+    (_, index) => String(RUBRIC_SCALE.MIN + index)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" disabled={disabled} data-testid={`button-review-${promptId}`}>
+          <ClipboardCheck className="h-4 w-4 mr-2" />
+          Review
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review prompt</DialogTitle>
+          <DialogDescription>
+            Score each criterion from {RUBRIC_SCALE.MIN} (poor) to {RUBRIC_SCALE.MAX} (excellent). Notes are shown to the author.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {criteria.map((criterion) => (
+            <div key={criterion.id} className="space-y-2" data-testid={`rubric-criterion-${criterion.key}`}>
+              <div>
+                <Label>{criterion.name}</Label>
+                <p className="text-xs text-muted-foreground">{criterion.description}</p>
+              </div>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                className="justify-start"
+                value={scores[criterion.id] ? String(scores[criterion.id]) : ""}
+                onValueChange={(value) =>
+                  setScores((current) => ({ ...current, [criterion.id]: Number(value) || 0 }))
+                }
+              >
+                {scaleValues.map((value) => (
+                  <ToggleGroupItem
+                    key={value}
+                    value={value}
+                    data-testid={`toggle-score-${criterion.key}-${value}`}
+                  >
+                    {value}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <Input
+                value={notes[criterion.id] ?? ""}
+                onChange={(e) => setNotes((current) => ({ ...current, [criterion.id]: e.target.value }))}
+                placeholder="Optional note"
+                data-testid={`input-score-note-${criterion.key}`}
+              />
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label htmlFor={`review-comment-${promptId}`}>Comment</Label>
+            <Textarea
+              id={`review-comment-${promptId}`}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Overall feedback. Required when requesting changes."
+              className="min-h-[100px]"
+              data-testid={`input-review-comment-${promptId}`}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => submit('request_changes')}
+            disabled={!allScored || commentTooShort}
+            data-testid={`button-request-changes-${promptId}`}
+          >
+            <MessageSquareWarning className="h-4 w-4 mr-2" />
+            Request Changes
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => submit('reject')}
+            disabled={!allScored}
+            data-testid={`button-reject-${promptId}`}
+          >
+            <XCircle className="h-4 w-4 mr-2" />
+            Reject
+          </Button>
+          <Button
+            onClick={() => submit('approve')}
+            disabled={!allScored}
+            data-testid={`button-approve-${promptId}`}
+          >
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Approve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Toast titles for the structured reasons the server refuses a review
+const REVIEW_BLOCK_TITLES: Record<ReviewBlockCode, string> = {
+  not_pending: "No longer awaiting review",
+  self_review: "You can't review your own prompt",
+  fork_conflict: "Conflict of interest",
+  duplicate_review: "Already reviewed",
+  claimed: "Claimed by another reviewer",
+  review_suspended: "Reviewing suspended",
+  under_review: "Under review",
+};
+
+// Time waiting in the queue, flagged as the review SLA approaches and passes
+function QueueAge({ prompt }: { prompt: ReviewQueueItem }) {
+  const queuedAt = new Date(prompt.queuedAt);
+  const hoursWaiting = (Date.now() - queuedAt.getTime()) / (60 * 60 * 1000);
+  const waiting = formatDistanceToNow(queuedAt);
+
+  if (hoursWaiting >= REVIEW_QUEUE.SLA_HOURS) {
+    return (
+      <Badge variant="destructive" data-testid={`badge-sla-${prompt.id}`}>
+        <Clock className="h-3 w-3 mr-1" />
+        Overdue · {waiting}
+      </Badge>
+    );
+  }
+  if (hoursWaiting >= REVIEW_QUEUE.SLA_HOURS * 0.75) {
+    return (
+      <Badge variant="secondary" data-testid={`badge-sla-${prompt.id}`}>
+        <Clock className="h-3 w-3 mr-1" />
+        Due soon · {waiting}
+      </Badge>
+    );
+  }
+  return (
+    <span className="flex items-center gap-1" data-testid={`text-queue-age-${prompt.id}`}>
+      <Clock className="h-3 w-3" />
+      Waiting {waiting}
+    </span>
+  );
+}
 
 export default function ReviewQueue() {
   const [, navigate] = useLocation();
   const { user, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
+  const [techniqueFilter, setTechniqueFilter] = useState("all");
+  const [firstTimeOnly, setFirstTimeOnly] = useState(false);
 
   // Check if user has sufficient reputation
   useEffect(() => {
@@ -24,44 +250,143 @@ export default function ReviewQueue() {
         variant: "destructive",
       });
       navigate('/');
-    } else if (!authLoading && user && user.reputation < 500) {
+    } else if (!authLoading && user && !canReview(user.reputation)) {
       toast({
         title: "Insufficient reputation",
-        description: "You need at least 500 reputation points to access the review queue.",
+        description: `You need at least ${getEconomy().thresholds.REVIEW} reputation points to access the review queue.`,
         variant: "destructive",
       });
       navigate('/');
     }
   }, [user, authLoading, navigate, toast]);
 
-  const { data: prompts = [], isLoading, error } = useQuery<Prompt[]>({
-    queryKey: ['/api/v1/reviews/queue'],
-    enabled: !!user && user.reputation >= 500,
+  const {
+    items: prompts,
+    totalCount,
+    isLoading,
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedQuery<ReviewQueueItem>(
+    ['/api/v1/reviews/queue', { technique: techniqueFilter, firstTimeAuthor: firstTimeOnly }],
+    '/api/v1/reviews/queue',
+    {
+      params: {
+        technique: techniqueFilter === "all" ? undefined : techniqueFilter,
+        firstTimeAuthor: firstTimeOnly ? "true" : undefined,
+      },
+      enabled: !!user && canReview(user.reputation),
+    },
+  );
+
+  const { data: techniques } = useQuery<PromptTechnique[]>({
+    queryKey: ['/api/v1/techniques'],
+    enabled: !!user && canReview(user.reputation),
   });
 
+  const { data: criteria = [] } = useQuery<ReviewCriterion[]>({
+    queryKey: ['/api/v1/review-criteria'],
+    enabled: !!user && canReview(user.reputation),
+  });
+  const activeCriteria = criteria.filter((criterion) => criterion.active);
+
+  // Refusals usually mean the queue is stale (claimed, already reviewed, ...), so refresh it
+  const reportQueueError = (title: string) => (error: Error) => {
+    const { message, code } = parseApiError(error);
+    queryClient.invalidateQueries({ queryKey: ['/api/v1/reviews/queue'] });
+    toast({
+      title: (code && REVIEW_BLOCK_TITLES[code as ReviewBlockCode]) || title,
+      description: message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
   const reviewMutation = useMutation({
-    mutationFn: async ({ promptId, vote }: { promptId: string; vote: 'approve' | 'reject' }) => {
-      const res = await apiRequest('POST', '/api/v1/reviews', { promptId, vote });
-      return await res.json();
+    mutationFn: async (review: { promptId: string; vote: ReviewVote; comment?: string; scores: ReviewScoreInput[] }) => {
+      const res = await apiRequest('POST', '/api/v1/reviews', review);
+      return await res.json() as ReviewSubmission;
     },
-    onSuccess: (_, variables) => {
+    onSuccess: ({ tally, audit }, { promptId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/reviews/queue'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/prompts', promptId] });
+      if (audit) {
+        // Audit items are revealed once answered
+        queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+        toast({
+          title: audit.passed ? "Review audit passed" : "Review audit failed",
+          description: audit.suspendedUntil
+            ? `That was a test item. Too many recent audits failed, so reviewing is paused until ${new Date(audit.suspendedUntil).toLocaleDateString()}.`
+            : audit.passed
+            ? "That was a test item with a known answer. Thanks for reviewing carefully."
+            : `That was a test item; the expected verdict was "${audit.expectedVote}". Read each prompt closely before voting.`,
+          variant: audit.passed ? "default" : "destructive",
+        });
+      } else if (tally.outcome === 'needs_changes') {
+        toast({
+          title: "Changes requested",
+          description: "The author has been notified and can resubmit after editing.",
+        });
+      } else if (tally.outcome) {
+        toast({
+          title: tally.outcome === 'approved' ? "Prompt approved" : "Prompt rejected",
+          description: `Consensus reached after ${tally.reviewCount} reviews.`,
+        });
+      } else {
+        toast({
+          title: "Review recorded",
+          description: tally.reviewCount < tally.required
+            ? `${tally.reviewCount} of ${tally.required} reviews in. The prompt stays in the queue until quorum is reached.`
+            : "Reviewers are evenly split. The prompt stays in the queue for a tie-breaking review.",
+        });
+      }
+    },
+    onError: reportQueueError("Review failed"),
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (promptId: string) => {
+      const res = await apiRequest('POST', `/api/v1/reviews/queue/${promptId}/claim`);
+      return await res.json() as ReviewClaim;
+    },
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/v1/reviews/queue'] });
       toast({
-        title: variables.vote === 'approve' ? "Prompt approved" : "Prompt rejected",
-        description: `The prompt has been ${variables.vote === 'approve' ? 'approved' : 'rejected'}.`,
+        title: "Prompt claimed",
+        description: `Other reviewers won't see it for the next ${REVIEW_QUEUE.CLAIM_MINUTES} minutes.`,
       });
     },
-    onError: (error: Error) => {
+    onError: reportQueueError("Claim failed"),
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (promptId: string) => {
+      await apiRequest('DELETE', `/api/v1/reviews/queue/${promptId}/claim`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/reviews/queue'] });
+    },
+    onError: reportQueueError("Release failed"),
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: async (promptId: string) => {
+      await apiRequest('POST', `/api/v1/reviews/queue/${promptId}/skip`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/reviews/queue'] });
       toast({
-        title: "Review failed",
-        description: error.message || "Failed to submit review. Please try again.",
-        variant: "destructive",
+        title: "Prompt skipped",
+        description: "It won't appear in your queue again unless the author resubmits it.",
       });
     },
+    onError: reportQueueError("Skip failed"),
   });
 
+  const queueActionPending = claimMutation.isPending || releaseMutation.isPending || skipMutation.isPending;
+
   // Show loading state while checking auth
-  if (authLoading || !user || user.reputation < 500) {
+  if (authLoading || !user || !canReview(user.reputation)) {
     return null; // Will redirect in useEffect
   }
 
@@ -84,7 +409,7 @@ export default function ReviewQueue() {
           <CardContent className="py-12 text-center">
             <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
             <p className="text-destructive" data-testid="text-error">
-              {error instanceof Error ? error.message : "Failed to load review queue"}
+              {error instanceof Error ? parseApiError(error).message : "Failed to load review queue"}
             </p>
           </CardContent>
         </Card>
@@ -103,12 +428,42 @@ export default function ReviewQueue() {
         </p>
       </div>
 
+      <div className="flex flex-wrap items-end gap-6 mb-6">
+        <div className="space-y-2 w-56">
+          <Label>Technique</Label>
+          <Select value={techniqueFilter} onValueChange={setTechniqueFilter}>
+            <SelectTrigger data-testid="select-queue-technique">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All techniques</SelectItem>
+              {techniques?.map((technique) => (
+                <SelectItem key={technique.id} value={String(technique.id)}>
+                  {technique.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Switch
+            id="queue-first-time"
+            checked={firstTimeOnly}
+            onCheckedChange={setFirstTimeOnly}
+            data-testid="switch-queue-first-time"
+          />
+          <Label htmlFor="queue-first-time">First-time authors only</Label>
+        </div>
+      </div>
+
       {prompts.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center">
             <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
             <p className="text-muted-foreground" data-testid="text-empty-queue">
-              No prompts pending review. Great job!
+              {techniqueFilter !== "all" || firstTimeOnly
+                ? "No prompts match these filters."
+                : "No prompts pending review. Great job!"}
             </p>
           </CardContent>
         </Card>
@@ -116,7 +471,7 @@ export default function ReviewQueue() {
         <div className="space-y-4">
           <div className="mb-4">
             <Badge variant="outline" data-testid="badge-queue-count">
-              {prompts.length} prompt{prompts.length !== 1 ? 's' : ''} pending review
+              {totalCount} prompt{totalCount !== 1 ? 's' : ''} pending review
             </Badge>
           </div>
 
@@ -128,18 +483,42 @@ export default function ReviewQueue() {
                     <CardTitle className="mb-2" data-testid={`text-title-${prompt.id}`}>
                       {prompt.title}
                     </CardTitle>
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
                       <Badge variant="secondary" data-testid={`badge-status-${prompt.id}`}>
                         pending review
                       </Badge>
+                      {prompt.pendingVersion !== null && (
+                        <Badge variant="outline" data-testid={`badge-revision-${prompt.id}`}>
+                          Edit of approved prompt
+                        </Badge>
+                      )}
+                      {prompt.firstTimeAuthor && (
+                        <Badge variant="outline" data-testid={`badge-first-time-${prompt.id}`}>
+                          First-time author
+                        </Badge>
+                      )}
+                      {prompt.claimExpiresAt && (
+                        <Badge data-testid={`badge-claimed-${prompt.id}`}>
+                          <Lock className="h-3 w-3 mr-1" />
+                          Claimed by you · {formatDistanceToNow(new Date(prompt.claimExpiresAt))} left
+                        </Badge>
+                      )}
                       <span>•</span>
                       <span data-testid={`text-author-${prompt.id}`}>
                         by {prompt.authorId}
                       </span>
                       <span>•</span>
                       <span data-testid={`text-version-${prompt.id}`}>
-                        v{prompt.version}
+                        {prompt.pendingVersion !== null
+                          ? `v${prompt.pendingVersion} (live: v${prompt.version})`
+                          : `v${prompt.version}`}
                       </span>
+                      <span>•</span>
+                      <span data-testid={`text-review-count-${prompt.id}`}>
+                        {prompt.reviewCount} of {REVIEW_CONSENSUS.QUORUM} reviews
+                      </span>
+                      <span>•</span>
+                      <QueueAge prompt={prompt} />
                     </div>
                   </div>
                 </div>
@@ -155,6 +534,15 @@ export default function ReviewQueue() {
                   </div>
                 )}
                 
+                {prompt.reviewRound > 1 && (
+                  <div>
+                    <h4 className="text-sm font-semibold mb-1">
+                      Earlier review feedback (resubmission {prompt.reviewRound - 1})
+                    </h4>
+                    <ReviewConversation promptId={prompt.id} beforeRound={prompt.reviewRound} />
+                  </div>
+                )}
+
                 {prompt.promptBodyText && (
                   <div>
                     <h4 className="text-sm font-semibold mb-1">Prompt</h4>
@@ -166,25 +554,44 @@ export default function ReviewQueue() {
               </CardContent>
 
               <CardFooter className="flex gap-2 flex-wrap">
-                <Button
-                  variant="default"
-                  size="sm"
-                  onClick={() => reviewMutation.mutate({ promptId: prompt.id, vote: 'approve' })}
+                <ReviewDialog
+                  promptId={prompt.id}
+                  criteria={activeCriteria}
                   disabled={reviewMutation.isPending}
-                  data-testid={`button-approve-${prompt.id}`}
-                >
-                  <CheckCircle className="h-4 w-4 mr-2" />
-                  Approve
-                </Button>
+                  onSubmit={(review) => reviewMutation.mutate({ promptId: prompt.id, ...review })}
+                />
+                {prompt.claimExpiresAt ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => releaseMutation.mutate(prompt.id)}
+                    disabled={queueActionPending}
+                    data-testid={`button-release-${prompt.id}`}
+                  >
+                    <Unlock className="h-4 w-4 mr-2" />
+                    Release
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => claimMutation.mutate(prompt.id)}
+                    disabled={queueActionPending}
+                    data-testid={`button-claim-${prompt.id}`}
+                  >
+                    <Lock className="h-4 w-4 mr-2" />
+                    Claim
+                  </Button>
+                )}
                 <Button
-                  variant="destructive"
+                  variant="ghost"
                   size="sm"
-                  onClick={() => reviewMutation.mutate({ promptId: prompt.id, vote: 'reject' })}
-                  disabled={reviewMutation.isPending}
-                  data-testid={`button-reject-${prompt.id}`}
+                  onClick={() => skipMutation.mutate(prompt.id)}
+                  disabled={queueActionPending}
+                  data-testid={`button-skip-${prompt.id}`}
                 >
-                  <XCircle className="h-4 w-4 mr-2" />
-                  Reject
+                  <SkipForward className="h-4 w-4 mr-2" />
+                  Skip
                 </Button>
                 <Button
                   variant="outline"
@@ -194,9 +601,54 @@ export default function ReviewQueue() {
                 >
                   View Details
                 </Button>
+                {prompt.pendingVersion !== null ? (
+                  <DiffDialog
+                    title={`Changes from live v${prompt.version}`}
+                    promptId={prompt.id}
+                    from={prompt.version}
+                    to={prompt.pendingVersion}
+                    trigger={
+                      <Button variant="outline" size="sm" data-testid={`button-view-changes-${prompt.id}`}>
+                        <GitCompare className="h-4 w-4 mr-2" />
+                        View Changes
+                      </Button>
+                    }
+                  />
+                ) : prompt.version > 1 && (
+                  <DiffDialog
+                    title={`Changes since v${prompt.version - 1}`}
+                    promptId={prompt.id}
+                    trigger={
+                      <Button variant="outline" size="sm" data-testid={`button-view-changes-${prompt.id}`}>
+                        <GitCompare className="h-4 w-4 mr-2" />
+                        View Changes
+                      </Button>
+                    }
+                  />
+                )}
+                {prompt.parentPromptId && (
+                  <DiffDialog
+                    title="Compare with parent"
+                    promptId={prompt.id}
+                    compareTo={prompt.parentPromptId}
+                    trigger={
+                      <Button variant="outline" size="sm" data-testid={`button-compare-parent-${prompt.id}`}>
+                        <GitCompare className="h-4 w-4 mr-2" />
+                        Compare with Parent
+                      </Button>
+                    }
+                  />
+                )}
               </CardFooter>
             </Card>
           ))}
+          <LoadMore
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+            loaded={prompts.length}
+            totalCount={totalCount}
+          />
         </div>
       )}
     </div>
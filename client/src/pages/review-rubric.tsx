@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { InsertReviewCriterion, ReviewCriterion, UpdateReviewCriterion } from "@shared/schema";
+import { canManageRubric } from "@shared/schema";
+import { getEconomy } from "@shared/economy";
+
+interface CriterionEditorProps {
+  criterion: ReviewCriterion;
+  editable: boolean;
+}
+
+function CriterionEditor({ criterion, editable }: CriterionEditorProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState(criterion.name);
+  const [description, setDescription] = useState(criterion.description);
+  const [sortOrder, setSortOrder] = useState(String(criterion.sortOrder));
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: UpdateReviewCriterion) => {
+      const res = await apiRequest("PUT", `/api/v1/review-criteria/${criterion.id}`, data);
+      return await res.json() as ReviewCriterion;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/review-criteria"] });
+      toast({ title: "Criterion saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save criterion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dirty =
+    name !== criterion.name ||
+    description !== criterion.description ||
+    sortOrder !== String(criterion.sortOrder);
+
+  return (
+    <Card className={criterion.active ? "" : "opacity-70"} data-testid={`card-criterion-${criterion.key}`}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <CardTitle className="text-lg">{criterion.name}</CardTitle>
+            <Badge variant="outline" className="font-mono text-xs">{criterion.key}</Badge>
+            {!criterion.active && <Badge variant="secondary">retired</Badge>}
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`criterion-active-${criterion.id}`} className="text-sm text-muted-foreground">
+              Active
+            </Label>
+            <Switch
+              id={`criterion-active-${criterion.id}`}
+              checked={criterion.active}
+              disabled={!editable || updateMutation.isPending}
+              onCheckedChange={(active) => updateMutation.mutate({ active })}
+              data-testid={`switch-criterion-active-${criterion.key}`}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid gap-3 md:grid-cols-[1fr_120px]">
+          <div className="space-y-1">
+            <Label htmlFor={`criterion-name-${criterion.id}`}>Name</Label>
+            <Input
+              id={`criterion-name-${criterion.id}`}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={!editable}
+              data-testid={`input-criterion-name-${criterion.key}`}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`criterion-order-${criterion.id}`}>Order</Label>
+            <Input
+              id={`criterion-order-${criterion.id}`}
+              type="number"
+              min={0}
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value)}
+              disabled={!editable}
+              data-testid={`input-criterion-order-${criterion.key}`}
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`criterion-description-${criterion.id}`}>Description</Label>
+          <Textarea
+            id={`criterion-description-${criterion.id}`}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            disabled={!editable}
+            data-testid={`input-criterion-description-${criterion.key}`}
+          />
+        </div>
+      </CardContent>
+      {editable && (
+        <CardFooter>
+          <Button
+            size="sm"
+            onClick={() => updateMutation.mutate({ name, description, sortOrder: Number(sortOrder) || 0 })}
+            disabled={!dirty || updateMutation.isPending}
+            data-testid={`button-save-criterion-${criterion.key}`}
+          >
+            {updateMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+function NewCriterionForm({ nextSortOrder }: { nextSortOrder: number }) {
+  const { toast } = useToast();
+  const [key, setKey] = useState("");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertReviewCriterion) => {
+      const res = await apiRequest("POST", "/api/v1/review-criteria", data);
+      return await res.json() as ReviewCriterion;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/review-criteria"] });
+      setKey("");
+      setName("");
+      setDescription("");
+      toast({ title: "Criterion added", description: "Reviewers will score it from now on." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add criterion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mb-6" data-testid="card-new-criterion">
+      <CardHeader>
+        <CardTitle className="text-lg">Add criterion</CardTitle>
+        <CardDescription>The key is permanent; retire a criterion instead of repurposing it.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="new-criterion-key">Key</Label>
+            <Input
+              id="new-criterion-key"
+              value={key}
+              onChange={(e) => setKey(e.target.value)}
+              placeholder="e.g. output_format"
+              className="font-mono"
+              data-testid="input-new-criterion-key"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-criterion-name">Name</Label>
+            <Input
+              id="new-criterion-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Output format"
+              data-testid="input-new-criterion-name"
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="new-criterion-description">Description</Label>
+          <Textarea
+            id="new-criterion-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What should reviewers look for?"
+            data-testid="input-new-criterion-description"
+          />
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={() => createMutation.mutate({ key: key.trim(), name, description, sortOrder: nextSortOrder })}
+          disabled={!key.trim() || !name.trim() || !description.trim() || createMutation.isPending}
+          data-testid="button-add-criterion"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          {createMutation.isPending ? "Adding..." : "Add Criterion"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+export default function ReviewRubric() {
+  const { user } = useAuth();
+  const editable = !!user && canManageRubric(user.reputation);
+
+  const { data: criteria = [], isLoading } = useQuery<ReviewCriterion[]>({
+    queryKey: ["/api/v1/review-criteria"],
+  });
+
+  const nextSortOrder = criteria.reduce((max, criterion) => Math.max(max, criterion.sortOrder), 0) + 10;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2" data-testid="text-page-title">
+          Review Rubric
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-page-description">
+          Reviewers score every active criterion from 1 to 5 on each review.
+          {!editable && ` Users with ${getEconomy().thresholds.MANAGE_RUBRIC}+ reputation can edit the rubric.`}
+        </p>
+      </div>
+
+      {editable && <NewCriterionForm nextSortOrder={nextSortOrder} />}
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-40 w-full" />
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {criteria.map((criterion) => (
+            <CriterionEditor
+              key={`${criterion.id}-${criterion.updatedAt}`}
+              criterion={criterion}
+              editable={editable}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useSearch } from "wouter";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MessageSquare, Search as SearchIcon } from "lucide-react";
+import { LoadMore } from "@/components/load-more";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import type { PromptTechnique, SearchResult } from "@shared/schema";
+
+// ts_headline wraps matches in <mark> tags; render them as elements rather than raw HTML
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part}</mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function Search() {
+  const searchString = useSearch();
+  const [, setLocation] = useLocation();
+  const params = new URLSearchParams(searchString);
+  const q = params.get("q") || "";
+
+  const [query, setQuery] = useState(q);
+
+  const { data: techniques } = useQuery<PromptTechnique[]>({
+    queryKey: ["/api/v1/techniques"],
+  });
+
+  const {
+    items: results,
+    totalCount,
+    isLoading,
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedQuery<SearchResult>(["/api/v1/search", searchString], "/api/v1/search", {
+    params: Object.fromEntries(params),
+    enabled: q.trim().length > 0,
+  });
+
+  const updateParams = (patch: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(searchString);
+    for (const [key, value] of Object.entries(patch)) {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    }
+    setLocation(`/search?${next.toString()}`);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ q: query.trim() || undefined });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-8">
+        <h1 className="text-4xl font-semibold mb-2" data-testid="text-page-title">
+          Search
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-page-description">
+          Search prompt titles, bodies, rationales, comments and techniques
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-4">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder='e.g. "chain of thought" -math'
+          data-testid="input-search-query"
+        />
+        <Button type="submit" data-testid="button-search">
+          <SearchIcon className="h-4 w-4 mr-2" />
+          Search
+        </Button>
+      </form>
+
+      <div className="grid gap-4 md:grid-cols-4 mb-8">
+        <div className="space-y-2">
+          <Label>Technique</Label>
+          <Select
+            value={params.get("technique") || "all"}
+            onValueChange={(value) => updateParams({ technique: value === "all" ? undefined : value })}
+          >
+            <SelectTrigger data-testid="select-search-technique">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All techniques</SelectItem>
+              {techniques?.map((technique) => (
+                <SelectItem key={technique.id} value={String(technique.id)}>
+                  {technique.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select
+            value={params.get("status") || "approved"}
+            onValueChange={(value) => updateParams({ status: value === "approved" ? undefined : value })}
+          >
+            <SelectTrigger data-testid="select-search-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="pending_review">Pending review</SelectItem>
+              <SelectItem value="any">Any status</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="search-from">From</Label>
+          <Input
+            id="search-from"
+            type="date"
+            value={params.get("from") || ""}
+            onChange={(e) => updateParams({ from: e.target.value || undefined })}
+            data-testid="input-search-from"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="search-to">To</Label>
+          <Input
+            id="search-to"
+            type="date"
+            value={params.get("to") || ""}
+            onChange={(e) => updateParams({ to: e.target.value || undefined })}
+            data-testid="input-search-to"
+          />
+        </div>
+      </div>
+
+      {!q ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground" data-testid="text-search-empty-query">
+              Enter a search term to find prompts.
+            </p>
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Card key={i}>
+              <CardHeader>
+                <Skeleton className="h-6 w-3/4" />
+                <Skeleton className="h-4 w-full" />
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-destructive" data-testid="text-search-error">
+              {error.message}
+            </p>
+          </CardContent>
+        </Card>
+      ) : results.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground" data-testid="text-search-no-results">
+              No prompts match "{q}".
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground" data-testid="text-search-count">
+            {totalCount} result{totalCount === 1 ? "" : "s"}
+          </p>
+          {results.map((result) => (
+            <Card key={result.id} className="hover-elevate" data-testid={`card-search-result-${result.id}`}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <Link to={`/prompts/${result.id}`}>
+                      <CardTitle className="text-xl hover:text-primary transition-colors cursor-pointer" data-testid={`text-result-title-${result.id}`}>
+                        {result.title}
+                      </CardTitle>
+                    </Link>
+                    <CardDescription className="mt-2" data-testid={`text-result-snippet-${result.id}`}>
+                      <Highlighted text={result.snippet} />
+                    </CardDescription>
+                  </div>
+                  <Badge variant={result.status === "approved" ? "default" : "secondary"}>
+                    {result.status.replace("_", " ")}
+                  </Badge>
+                </div>
+              </CardHeader>
+              {(result.commentSnippet || result.techniques.length > 0) && (
+                <CardContent className="space-y-3">
+                  {result.commentSnippet && (
+                    <div className="flex gap-2 text-sm text-muted-foreground" data-testid={`text-result-comment-${result.id}`}>
+                      <MessageSquare className="h-4 w-4 mt-0.5 shrink-0" />
+                      <p><Highlighted text={result.commentSnippet} /></p>
+                    </div>
+                  )}
+                  {result.techniques.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {result.techniques.map((technique) => (
+                        <Badge key={technique.id} variant="outline" className="text-xs">
+                          {technique.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              )}
+              <CardFooter className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+                <span>{result.voteCount} votes · {result.commentCount} comments</span>
+                <span>by {result.authorId}</span>
+              </CardFooter>
+            </Card>
+          ))}
+          <LoadMore
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+            loaded={results.length}
+            totalCount={totalCount}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LoadMore } from "@/components/load-more";
+import { SuggestedEditRow } from "@/components/suggested-edits";
+import { useAuth } from "@/hooks/useAuth";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import type { SuggestedEditWithPrompt } from "@shared/schema";
+import { canReview } from "@shared/schema";
+import { getEconomy } from "@shared/economy";
+
+// Queue of pending suggested edits, oldest first. Separate from the prompt review queue:
+// one reviewer accepts or rejects each suggestion.
+export default function SuggestedEdits() {
+  const { user } = useAuth();
+  const allowed = !!user && canReview(user.reputation);
+
+  const {
+    items: edits,
+    totalCount,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePaginatedQuery<SuggestedEditWithPrompt>(
+    ["/api/v1/suggested-edits", "queue"],
+    "/api/v1/suggested-edits/queue",
+    { enabled: allowed },
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2" data-testid="text-page-title">
+          Suggested Edits
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-page-description">
+          Edits other users proposed to prompts they didn't write. Accepting one applies it as a new
+          revision credited to the suggester; edits of approved prompts still go through review.
+        </p>
+      </div>
+
+      {!allowed ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground" data-testid="text-suggested-edits-forbidden">
+              You need {getEconomy().thresholds.REVIEW} reputation to review suggested edits.
+            </p>
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+      ) : edits.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground" data-testid="text-no-suggested-edits">
+              No suggested edits are waiting.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-2">
+            <ul className="divide-y">
+              {edits.map((edit) => (
+                <SuggestedEditRow key={edit.id} edit={edit} showPrompt />
+              ))}
+            </ul>
+            <LoadMore
+              hasNextPage={hasNextPage}
+              isFetchingNextPage={isFetchingNextPage}
+              fetchNextPage={fetchNextPage}
+              loaded={edits.length}
+              totalCount={totalCount}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,9 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Trophy, FileText, CheckCircle } from "lucide-react";
+import { LoadMore } from "@/components/load-more";
+import { RubricScores } from "@/components/rubric-scores";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
 import type { User, PromptWithStats, Review } from "@shared/schema";
 
 export default function UserProfile() {
@@ -14,20 +17,19 @@ export default function UserProfile() {
     queryKey: ["/api/v1/users", username],
   });
 
-  const { data: prompts, isLoading: promptsLoading } = useQuery<PromptWithStats[]>({
-    queryKey: ["/api/v1/prompts"],
-    enabled: !!user,
-    queryFn: async () => {
-      const response = await fetch(`/api/v1/prompts?authorId=${user?.id}&status=`);
-      if (!response.ok) throw new Error("Failed to fetch prompts");
-      return response.json();
-    },
-  });
+  const promptsQuery = usePaginatedQuery<PromptWithStats>(
+    ["/api/v1/prompts", { authorId: user?.id }],
+    "/api/v1/prompts",
+    { params: { authorId: user?.id, status: "" }, enabled: !!user },
+  );
+  const { items: prompts, isLoading: promptsLoading } = promptsQuery;
 
-  const { data: reviews, isLoading: reviewsLoading } = useQuery<Review[]>({
-    queryKey: ["/api/v1/users", user?.id, "reviews"],
-    enabled: !!user,
-  });
+  const reviewsQuery = usePaginatedQuery<Review>(
+    ["/api/v1/users", user?.id, "reviews"],
+    `/api/v1/users/${user?.id}/reviews`,
+    { enabled: !!user },
+  );
+  const { items: reviews, isLoading: reviewsLoading } = reviewsQuery;
 
   if (userLoading) {
     return (
@@ -54,10 +56,10 @@ export default function UserProfile() {
     );
   }
 
-  const approvedPrompts = prompts?.filter(p => p.status === 'approved') || [];
-  const pendingPrompts = prompts?.filter(p => p.status === 'pending_review') || [];
-  const approveReviews = reviews?.filter(r => r.vote === 'approve') || [];
-  const rejectReviews = reviews?.filter(r => r.vote === 'reject') || [];
+  const approvedPrompts = prompts.filter(p => p.status === 'approved');
+  const pendingPrompts = prompts.filter(p => p.status === 'pending_review');
+  const approveReviews = reviews.filter(r => r.vote === 'approve');
+  const rejectReviews = reviews.filter(r => r.vote === 'reject');
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-6xl">
@@ -84,16 +86,30 @@ export default function UserProfile() {
         </CardHeader>
       </Card>
 
+      {/* Rubric averages from reviews of this user's prompts */}
+      <Card className="mb-6" data-testid="card-author-rubric-scores">
+        <CardHeader>
+          <CardTitle className="text-lg">Review Scores</CardTitle>
+          <CardDescription>How reviewers rate this author's prompts</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RubricScores
+            queryKey={["/api/v1/users", user.id, "rubric-scores"]}
+            emptyMessage="None of this author's prompts have been scored yet."
+          />
+        </CardContent>
+      </Card>
+
       {/* Tabs for Prompts and Reviews */}
       <Tabs defaultValue="prompts" className="w-full">
         <TabsList className="grid w-full grid-cols-2">
           <TabsTrigger value="prompts" data-testid="tab-prompts">
             <FileText className="h-4 w-4 mr-2" />
-            Prompts ({prompts?.length || 0})
+            Prompts ({promptsQuery.totalCount})
           </TabsTrigger>
           <TabsTrigger value="reviews" data-testid="tab-reviews">
             <CheckCircle className="h-4 w-4 mr-2" />
-            Reviews ({reviews?.length || 0})
+            Reviews ({reviewsQuery.totalCount})
           </TabsTrigger>
         </TabsList>
 
@@ -109,7 +125,7 @@ export default function UserProfile() {
                 </Card>
               ))}
             </div>
-          ) : !prompts || prompts.length === 0 ? (
+          ) : prompts.length === 0 ? (
             <Card>
               <CardContent className="py-12 text-center">
                 <p className="text-muted-foreground" data-testid="text-no-prompts">
@@ -158,6 +174,13 @@ export default function UserProfile() {
                   </Card>
                 </Link>
               ))}
+              <LoadMore
+                hasNextPage={promptsQuery.hasNextPage}
+                isFetchingNextPage={promptsQuery.isFetchingNextPage}
+                fetchNextPage={promptsQuery.fetchNextPage}
+                loaded={prompts.length}
+                totalCount={promptsQuery.totalCount}
+              />
             </div>
           )}
         </TabsContent>
@@ -174,7 +197,7 @@ export default function UserProfile() {
                 </Card>
               ))}
             </div>
-          ) : !reviews || reviews.length === 0 ? (
+          ) : reviews.length === 0 ? (
             <Card>
               <CardContent className="py-12 text-center">
                 <p className="text-muted-foreground" data-testid="text-no-reviews">
@@ -229,6 +252,13 @@ export default function UserProfile() {
                   </CardHeader>
                 </Card>
               ))}
+              <LoadMore
+                hasNextPage={reviewsQuery.hasNextPage}
+                isFetchingNextPage={reviewsQuery.isFetchingNextPage}
+                fetchNextPage={reviewsQuery.fetchNextPage}
+                loaded={reviews.length}
+                totalCount={reviewsQuery.totalCount}
+              />
             </div>
           )}
         </TabsContent>
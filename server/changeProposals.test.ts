@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { getEconomy } from "@shared/economy";
+import { prompts, users, type ChangeProposalWithPrompts, type Prompt } from "@shared/schema";
+import { db, resetDatabase } from "./testDatabase";
+import { storage } from "./storage";
+import { applyChangeProposalAction, openChangeProposal } from "./changeProposals";
+
+vi.mock("./db", () => import("./testDatabase"));
+
+describe("accepting a change proposal", () => {
+  let original: Prompt;
+  let proposal: ChangeProposalWithPrompts;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values([
+      { id: "author", username: "author" },
+      { id: "forker", username: "forker", reputation: 100 },
+    ]);
+    original = await storage.createPrompt({
+      authorId: "author",
+      title: "Prompt",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "approved",
+      variables: [],
+    });
+    const fork = await storage.forkPrompt(original.id, "forker");
+    await db.update(prompts).set({ promptBodyText: "Better body" }).where(eq(prompts.id, fork.id));
+
+    const opened = await openChangeProposal((await storage.getUser("forker"))!, {
+      sourcePromptId: fork.id,
+      title: "Better body",
+      description: "Tightens up the body",
+    });
+    if ('refusal' in opened) {
+      throw new Error(opened.refusal.message);
+    }
+    proposal = (await storage.getChangeProposal(opened.proposal.id))!;
+  });
+
+  const accept = async () => applyChangeProposalAction(proposal, (await storage.getUser("author"))!, 'accept');
+
+  it("merges and pays out once when accepted twice", async () => {
+    expect(await accept()).toHaveProperty('proposal.status', 'accepted');
+    expect(await accept()).toEqual({ refusal: expect.objectContaining({ status: 409 }) });
+
+    // The original is approved, so the merge waits in review as its one pending revision
+    expect((await storage.getPrompt(original.id))?.pendingVersion).toBe(2);
+    expect((await storage.getPromptRevisions(original.id)).items.map(revision => revision.promptBodyText)).toEqual(["Better body", "Body"]);
+    expect((await storage.getUser("forker"))!.reputation).toBe(100 + getEconomy().reputation.CHANGE_PROPOSAL_ACCEPTED);
+  });
+
+  it("leaves the proposal open and unpaid when it can no longer be merged", async () => {
+    await db.update(prompts).set({ status: 'archived' }).where(eq(prompts.id, original.id));
+
+    expect(await accept()).toEqual({ refusal: expect.objectContaining({ status: 409 }) });
+    expect((await storage.getChangeProposal(proposal.id))?.status).toBe('open');
+    expect((await storage.getUser("forker"))!.reputation).toBe(100);
+  });
+});
@@ -0,0 +1,176 @@
+// Change proposals: the author of a fork asks the prompt it was forked from to adopt the fork's
+// content. The target's author (or a moderator) accepts it into a new revision of the target,
+// credited to the proposer, or declines it; the proposer can withdraw it while it is open.
+import { storage, type IStorage } from "./storage";
+import { handleChangeProposalAccepted } from "./reputationSystem";
+import { applyContributedEdit, ContributedEditConflict } from "./promptLifecycle";
+import { canResolveChangeProposal, isUnderReview, reviewVersionOf } from "@shared/schema";
+import type { ChangeProposal, ChangeProposalWithPrompts, InsertChangeProposal, Prompt, UpdatePrompt, User } from "@shared/schema";
+
+export type ChangeProposalAction = 'accept' | 'decline' | 'withdraw';
+
+type ProposalRefusal = {
+  status: 400 | 403 | 404 | 409;
+  message: string;
+};
+
+const ALREADY_RESOLVED: ProposalRefusal = {
+  status: 409,
+  message: "This proposal has already been resolved",
+};
+
+export async function openChangeProposal(
+  user: User,
+  data: InsertChangeProposal,
+): Promise<{ proposal: ChangeProposal; target: Prompt } | { refusal: ProposalRefusal }> {
+  const source = await storage.getPrompt(data.sourcePromptId);
+  if (!source) {
+    return { refusal: { status: 404, message: "Prompt not found" } };
+  }
+  if (source.authorId !== user.id) {
+    return { refusal: { status: 403, message: "Only the fork's author can propose its changes upstream" } };
+  }
+  if (!source.parentPromptId) {
+    return { refusal: { status: 400, message: "Only forks can propose changes to the prompt they were forked from" } };
+  }
+  if (source.status === 'archived') {
+    return { refusal: { status: 409, message: "Archived forks cannot propose changes" } };
+  }
+  if (!source.promptBodyText?.trim()) {
+    return { refusal: { status: 400, message: "Add a prompt body to the fork before proposing it" } };
+  }
+
+  const target = await storage.getPrompt(source.parentPromptId);
+  if (!target) {
+    return { refusal: { status: 404, message: "The prompt this was forked from no longer exists" } };
+  }
+  if (target.authorId === user.id) {
+    return { refusal: { status: 400, message: "You wrote the original prompt; edit it directly instead" } };
+  }
+  if (target.status === 'archived') {
+    return { refusal: { status: 409, message: "The original prompt is archived and no longer takes changes" } };
+  }
+  if (await storage.getOpenChangeProposalForSource(source.id)) {
+    return { refusal: { status: 409, message: "This fork already has an open change proposal" } };
+  }
+
+  const proposal = await storage.createChangeProposal({
+    ...data,
+    targetPromptId: target.id,
+    targetVersion: reviewVersionOf(target),
+    proposerId: user.id,
+  });
+  await storage.createNotification({
+    userId: target.authorId,
+    type: 'change_proposed',
+    message: `${user.username} proposed changes to "${target.title}": ${proposal.title}`,
+    promptId: target.id,
+  });
+  return { proposal, target };
+}
+
+// Accepting writes the fork's current content to the target as an edit by the proposer
+async function mergeChangeProposal(tx: IStorage, proposal: ChangeProposalWithPrompts): Promise<{ prompt: Prompt; proposal: ChangeProposal } | undefined> {
+  const [source, target] = await Promise.all([
+    tx.getPrompt(proposal.sourcePromptId),
+    tx.getPrompt(proposal.targetPromptId),
+  ]);
+  if (!source || !target) {
+    return undefined;
+  }
+
+  const content: UpdatePrompt = {
+    title: source.title,
+    promptBodyText: source.promptBodyText,
+    promptBodyJson: source.promptBodyJson as UpdatePrompt['promptBodyJson'],
+    rationale: source.rationale,
+    variables: source.variables,
+    editSummary: `Merged change proposal #${proposal.id} from "${source.title}"`.slice(0, 500),
+  };
+  const merged = await applyContributedEdit(target, proposal.proposerId, content, tx);
+  if (!merged) {
+    return undefined;
+  }
+  const recorded = await tx.recordChangeProposalMerge(proposal.id, source.version, reviewVersionOf(merged));
+  return recorded && { prompt: merged, proposal: recorded };
+}
+
+export async function applyChangeProposalAction(
+  proposal: ChangeProposalWithPrompts,
+  user: User,
+  action: ChangeProposalAction,
+  reason?: string,
+): Promise<{ proposal: ChangeProposal } | { refusal: ProposalRefusal }> {
+  if (proposal.status !== 'open') {
+    return { refusal: ALREADY_RESOLVED };
+  }
+  if (action === 'withdraw' && proposal.proposerId !== user.id) {
+    return { refusal: { status: 403, message: "Only the proposer can withdraw this proposal" } };
+  }
+  if (action !== 'withdraw' && !canResolveChangeProposal(proposal, user)) {
+    return { refusal: { status: 403, message: `Only the original prompt's author or a moderator can ${action} this proposal` } };
+  }
+  if (action === 'accept') {
+    const target = await storage.getPrompt(proposal.targetPromptId);
+    if (target && isUnderReview(target)) {
+      return { refusal: { status: 409, message: "The original prompt is under review; accept this proposal once reviewers have decided" } };
+    }
+    return await acceptChangeProposal(proposal, user, reason);
+  }
+
+  const resolved = await storage.resolveChangeProposal(proposal.id, action === 'decline' ? 'declined' : 'withdrawn', user.id, reason);
+  if (!resolved) {
+    return { refusal: ALREADY_RESOLVED };
+  }
+  if (action === 'decline') {
+    await storage.createNotification({
+      userId: proposal.proposerId,
+      type: 'change_proposal_declined',
+      message: `Your proposed changes to "${proposal.targetTitle}" were declined`,
+      promptId: proposal.sourcePromptId,
+    });
+  }
+  return { proposal: resolved };
+}
+
+// Settling the proposal, merging it and paying the proposer commit together. Settling first
+// means a concurrent accept waits on the proposal and then finds it resolved, so it cannot
+// merge (or pay out) twice; a merge that cannot apply rolls the acceptance back.
+async function acceptChangeProposal(
+  proposal: ChangeProposalWithPrompts,
+  user: User,
+  reason?: string,
+): Promise<{ proposal: ChangeProposal } | { refusal: ProposalRefusal }> {
+  let merged: Awaited<ReturnType<typeof mergeChangeProposal>>;
+  try {
+    merged = await storage.transaction(async (tx) => {
+      if (!await tx.resolveChangeProposal(proposal.id, 'accepted', user.id, reason)) {
+        return undefined;
+      }
+      const applied = await mergeChangeProposal(tx, proposal);
+      if (!applied) {
+        throw new ContributedEditConflict();
+      }
+      await handleChangeProposalAccepted(applied.proposal, tx);
+      return applied;
+    });
+  } catch (error) {
+    if (error instanceof ContributedEditConflict) {
+      return { refusal: { status: 409, message: "The original prompt changed in the meantime; reload and try again" } };
+    }
+    throw error;
+  }
+  if (!merged) {
+    return { refusal: ALREADY_RESOLVED };
+  }
+
+  await storage.createNotification({
+    userId: proposal.proposerId,
+    type: 'change_proposal_accepted',
+    message: merged.prompt.status === 'approved'
+      ? `Your proposed changes to "${proposal.targetTitle}" were accepted and will go live once reviewed`
+      : `Your proposed changes to "${proposal.targetTitle}" were accepted`,
+    promptId: proposal.targetPromptId,
+  });
+  return { proposal: merged.proposal };
+}
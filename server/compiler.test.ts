@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { compilePromptGraph } from "@shared/compiler";
+import { promptGraphSchema, type ComposerNode, type PromptGraph } from "@shared/schema";
+
+function node(id: string, type: ComposerNode['type'], content: string, y = 0): ComposerNode {
+  return { id, type, content, position: { x: 0, y } };
+}
+
+describe("prompt graph compiler", () => {
+  it("orders ready nodes by type and then position, whatever order they were saved in", () => {
+    const graph: PromptGraph = {
+      version: 1,
+      nodes: [
+        node("format", "output_format", "Answer in JSON"),
+        node("second", "instruction", "Then do {{ task }}", 100),
+        node("first", "instruction", "First read {{input}}"),
+        node("role", "role", "You are a {{role}}"),
+      ],
+      edges: [],
+    };
+
+    const compiled = compilePromptGraph(graph);
+    expect(compiled.text).toBe([
+      "## Role\nYou are a {{role}}",
+      "## Instructions\nFirst read {{input}}",
+      "## Instructions\nThen do {{task}}",
+      "## Output Format\nAnswer in JSON",
+    ].join("\n\n"));
+    expect(compiled.variables).toEqual(["role", "input", "task"]);
+    expect(compilePromptGraph({ ...graph, nodes: [...graph.nodes].reverse() })).toEqual(compiled);
+  });
+
+  it("lets edges override the type order", () => {
+    const compiled = compilePromptGraph({
+      version: 1,
+      nodes: [node("role", "role", "Role"), node("context", "context", "Context")],
+      edges: [{ id: "e1", source: "context", target: "role" }],
+    });
+    expect(compiled.text).toBe("## Context\nContext\n\n## Role\nRole");
+  });
+
+  it("rejects cyclic graphs when they are saved and when they are compiled", () => {
+    const cyclic: PromptGraph = {
+      version: 1,
+      nodes: [node("a", "role", "A"), node("b", "context", "B"), node("c", "instruction", "C")],
+      edges: [
+        { id: "e1", source: "a", target: "b" },
+        { id: "e2", source: "b", target: "c" },
+        { id: "e3", source: "c", target: "a" },
+      ],
+    };
+
+    expect(promptGraphSchema.safeParse(cyclic).success).toBe(false);
+    expect(() => compilePromptGraph(cyclic)).toThrow("Composer graph must not contain cycles");
+  });
+});
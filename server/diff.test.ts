@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { diffJson, diffLines, diffPrompts, diffWords, type DiffSide } from "@shared/diff";
+import type { PromptTechnique } from "@shared/schema";
+
+function technique(id: number, name: string): PromptTechnique {
+  return { id, name, description: name, parentId: null, createdAt: new Date(0) };
+}
+
+describe("prompt diff", () => {
+  it("keeps one op per line and merges word runs", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc")).toEqual([
+      { type: "equal", value: "a" },
+      { type: "delete", value: "b" },
+      { type: "insert", value: "x" },
+      { type: "equal", value: "c" },
+    ]);
+    expect(diffWords("the quick fox", "the slow brown fox")).toEqual([
+      { type: "equal", value: "the " },
+      { type: "delete", value: "quick" },
+      { type: "insert", value: "slow brown" },
+      { type: "equal", value: " fox" },
+    ]);
+  });
+
+  it("reports structural changes by path", () => {
+    expect(diffJson({ nodes: [{ id: "a" }], version: 1 }, { nodes: [{ id: "b" }, { id: "c" }], version: 1 })).toEqual([
+      { path: "$.nodes[0].id", type: "changed", before: "a", after: "b" },
+      { path: "$.nodes[1]", type: "added", after: { id: "c" } },
+    ]);
+  });
+
+  it("compares technique tags only when both sides recorded them", () => {
+    const base: DiffSide = {
+      promptId: "p",
+      version: 1,
+      title: "Title",
+      promptBodyText: "Body",
+      promptBodyJson: null,
+      rationale: "Rationale",
+      techniques: [technique(1, "Few-shot"), technique(2, "Role play")],
+    };
+    const head: DiffSide = { ...base, version: 2, techniques: [technique(2, "Role play"), technique(3, "Chain of thought")] };
+
+    expect(diffPrompts(base, head).techniques).toEqual({ added: [technique(3, "Chain of thought")], removed: [technique(1, "Few-shot")] });
+    expect(diffPrompts({ ...base, techniques: undefined }, head).techniques).toBeNull();
+  });
+});
@@ -0,0 +1,23 @@
+// Drafts workspace housekeeping. Editors create a draft as soon as something is typed, so
+// abandoned forms leave empty drafts behind; this job clears the ones nobody came back to.
+import { storage } from "./storage";
+import { DRAFTS } from "@shared/schema";
+
+export async function cleanupStaleDrafts(): Promise<number> {
+  const cutoff = new Date(Date.now() - DRAFTS.STALE_EMPTY_DAYS * 24 * 60 * 60 * 1000);
+  return await storage.deleteStaleEmptyDrafts(cutoff);
+}
+
+// Runs once at startup and then every CLEANUP_INTERVAL_HOURS; failures are logged and retried
+// on the next run
+export function scheduleDraftCleanup(): void {
+  const run = async () => {
+    try {
+      await cleanupStaleDrafts();
+    } catch (error) {
+      console.error("Error cleaning up stale drafts:", error);
+    }
+  };
+  void run();
+  setInterval(run, DRAFTS.CLEANUP_INTERVAL_HOURS * 60 * 60 * 1000).unref();
+}
@@ -0,0 +1,21 @@
+// Loads the reputation economy at startup: DEFAULT_ECONOMY, with any values overridden by the
+// JSON file named in ECONOMY_CONFIG. An invalid file stops the server rather than running with
+// an economy nobody configured.
+import { readFileSync } from "fs";
+import { DEFAULT_ECONOMY, economyOverrideSchema, mergeEconomy, setEconomy, type Economy } from "@shared/economy";
+
+export function loadEconomy(): Economy {
+  const path = process.env.ECONOMY_CONFIG;
+  if (!path) {
+    setEconomy(DEFAULT_ECONOMY);
+    return DEFAULT_ECONOMY;
+  }
+
+  const override = economyOverrideSchema.safeParse(JSON.parse(readFileSync(path, "utf8")));
+  if (!override.success) {
+    throw new Error(`Invalid economy config in ${path}: ${override.error.message}`);
+  }
+  const economy = mergeEconomy(DEFAULT_ECONOMY, override.data);
+  setEconomy(economy);
+  return economy;
+}
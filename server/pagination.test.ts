@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prompts, users } from "@shared/schema";
+import { db, resetDatabase } from "./testDatabase";
+import { storage } from "./storage";
+import { encodeCursor } from "./pagination";
+
+vi.mock("./db", () => import("./testDatabase"));
+
+describe("prompt pagination", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values({ id: "author", username: "author" });
+    for (let i = 0; i < 5; i++) {
+      await storage.createPrompt({
+        authorId: "author",
+        title: `Prompt ${i}`,
+        promptBodyText: "Body",
+        rationale: "Rationale",
+        status: "approved",
+        variables: [],
+      });
+    }
+  });
+
+  it("returns every prompt exactly once when tied scores straddle page boundaries", async () => {
+    await db.update(prompts).set({ createdAt: new Date("2026-01-01T00:00:00Z") });
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await storage.getPromptsWithTechniques({ sort: 'top' }, { cursor, limit: 2 });
+      expect(page.totalCount).toBe(5);
+      seen.push(...page.items.map(prompt => prompt.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toHaveLength(5);
+    expect(new Set(seen).size).toBe(5);
+  });
+
+  it.each([
+    ["garbage", "not a cursor"],
+    ["the wrong number of keys", encodeCursor(["2026-01-01T00:00:00+00:00"])],
+    ["values of the wrong type", encodeCursor(["yesterday", "not-a-uuid"])],
+  ])("rejects a cursor with %s as a validation error", async (_, cursor) => {
+    // Routes answer ZodErrors with 400
+    await expect(storage.getPromptsWithTechniques({ sort: 'new' }, { cursor }))
+      .rejects.toMatchObject({ name: 'ZodError' });
+  });
+});
@@ -0,0 +1,97 @@
+// Keyset (cursor) pagination shared by every list endpoint
+import { sql, asc, desc, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import type { Page } from "@shared/schema";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PageOptions {
+  cursor?: string;
+  limit?: number;
+}
+
+// Query string shape accepted by paginated routes
+export const pageQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+// One column of the ordering. The last key must be unique (usually the primary key)
+// so that every row has a distinct position; `type` is used to cast cursor values back.
+export interface SortKey {
+  expr: SQL | AnyPgColumn;
+  type: 'float8' | 'int8' | 'timestamptz' | 'uuid' | 'text';
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+type CursorValue = string | number;
+
+const cursorSchema = z.array(z.union([z.string(), z.number()])).min(1);
+
+// What each sort key type accepts, so a tampered cursor fails here rather than in the cast
+const cursorValueSchemas: Record<SortKey['type'], z.ZodType<CursorValue>> = {
+  float8: z.number().finite(),
+  int8: z.number().int(),
+  timestamptz: z.string().datetime({ offset: true }),
+  uuid: z.string().uuid(),
+  text: z.string(),
+};
+
+function invalidCursor(): z.ZodError {
+  return new z.ZodError([{ code: z.ZodIssueCode.custom, path: ['cursor'], message: "Invalid cursor" }]);
+}
+
+// Cursors are opaque to clients: base64url JSON of the last row's sort key values
+export function encodeCursor(values: CursorValue[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, keys: SortKey[]): CursorValue[] {
+  let values: CursorValue[];
+  try {
+    values = cursorSchema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+  } catch {
+    throw invalidCursor();
+  }
+  if (values.length !== keys.length || values.some((value, index) => !cursorValueSchemas[keys[index].type].safeParse(value).success)) {
+    throw invalidCursor();
+  }
+  return values;
+}
+
+// Selected alongside each row so the cursor can be built from the last one
+export function cursorValues(keys: SortKey[]): SQL<CursorValue[]> {
+  return sql<CursorValue[]>`json_build_array(${sql.join(keys.map(key => key.expr), sql`, `)})`;
+}
+
+export function keysetOrderBy(keys: SortKey[], direction: SortDirection = 'desc'): SQL[] {
+  return keys.map(key => (direction === 'desc' ? desc(key.expr) : asc(key.expr)));
+}
+
+// Row comparison: everything strictly after the cursor in the given direction
+export function keysetCondition(keys: SortKey[], cursor: string, direction: SortDirection = 'desc'): SQL {
+  const values = decodeCursor(cursor, keys);
+  const operator = direction === 'desc' ? sql`<` : sql`>`;
+  return sql`(${sql.join(keys.map(key => key.expr), sql`, `)}) ${operator} (${sql.join(
+    values.map((value, index) => sql`${value}::${sql.raw(keys[index].type)}`),
+    sql`, `,
+  )})`;
+}
+
+// Callers fetch limit + 1 rows; the extra row only signals that another page exists
+export function toPage<T>(rows: { item: T; cursor: CursorValue[] }[], limit: number, totalCount: number): Page<T> {
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    items: pageRows.map(row => row.item),
+    nextCursor: hasMore ? encodeCursor(pageRows[pageRows.length - 1].cursor) : null,
+    totalCount,
+  };
+}
+
+export function pageLimit(options?: PageOptions): number {
+  return Math.min(options?.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+}
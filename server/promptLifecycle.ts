@@ -0,0 +1,139 @@
+// Prompt lifecycle actions. Authors and moderators change a prompt's status only through
+// these; each move is checked against PROMPT_TRANSITIONS (or PENDING_REVISION_TRANSITIONS when
+// an approved prompt has a pending revision) and storage records it in prompt_transitions.
+import { storage, type IStorage } from "./storage";
+import { canModerate, isUnderReview, PENDING_REVISION_TRANSITIONS, PROMPT_TRANSITIONS } from "@shared/schema";
+import type { PendingRevisionStatus, Prompt, PromptActor, PromptRevision, PromptStatus, ReviewBlock, TransitionRefusal, UpdatePrompt, User } from "@shared/schema";
+import { findUndeclaredPlaceholders } from "@shared/templates";
+
+export type PromptAction = 'submit' | 'withdraw' | 'archive';
+
+const ACTION_TARGETS: Record<PromptAction, PromptStatus> = {
+  submit: 'pending_review',
+  withdraw: 'draft',
+  archive: 'archived',
+};
+
+// Roles the user holds for this prompt; an author with moderator reputation holds both
+export function promptActorRoles(prompt: Prompt, user: User): PromptActor[] {
+  const roles: PromptActor[] = [];
+  if (prompt.authorId === user.id) {
+    roles.push('author');
+  }
+  if (canModerate(user.reputation)) {
+    roles.push('moderator');
+  }
+  return roles;
+}
+
+function refusal(action: PromptAction, subject: string, allowed: readonly PromptActor[] | undefined): TransitionRefusal {
+  if (!allowed) {
+    return { status: 409, message: `Cannot ${action} ${subject}` };
+  }
+  return { status: 403, message: `Only the ${allowed.join(' or ')} can ${action} this prompt` };
+}
+
+const CONCURRENT_CHANGE: TransitionRefusal = {
+  status: 409,
+  message: "The prompt changed in the meantime; reload and try again",
+};
+
+// Content and technique tags stay as reviewers see them until the author withdraws the prompt
+export function underReviewBlock(prompt: Prompt): ReviewBlock | null {
+  if (!isUnderReview(prompt)) {
+    return null;
+  }
+  return { status: 409, code: 'under_review', message: "This prompt is under review; withdraw it to make changes" };
+}
+
+// Drafts are autosaved half-written, so nothing reaches reviewers until it is complete
+function incompleteContent(content: Prompt | PromptRevision): TransitionRefusal | null {
+  const missing = [
+    !content.title.trim() && 'a title',
+    !content.promptBodyText?.trim() && 'a prompt body',
+    !content.rationale.trim() && 'a rationale',
+  ].filter((field): field is string => !!field);
+  if (missing.length > 0) {
+    return { status: 400, message: `Add ${missing.join(', ')} before submitting for review` };
+  }
+  
+  const undeclared = findUndeclaredPlaceholders(content.promptBodyText, content.variables);
+  if (undeclared.length > 0) {
+    return { status: 400, message: `Undeclared template variables: ${undeclared.join(', ')}` };
+  }
+  return null;
+}
+
+// Submit and withdraw act on the pending revision when an approved prompt has one; archiving
+// always acts on the prompt (and drops the revision)
+export async function applyPromptAction(
+  prompt: Prompt,
+  user: User,
+  action: PromptAction,
+  reason?: string,
+): Promise<{ prompt: Prompt } | { refusal: TransitionRefusal }> {
+  const roles = promptActorRoles(prompt, user);
+  
+  if (action !== 'archive' && prompt.pendingStatus !== null) {
+    const from = prompt.pendingStatus;
+    const to: PendingRevisionStatus = action === 'submit' ? 'pending_review' : 'draft';
+    const allowed = PENDING_REVISION_TRANSITIONS[from][to];
+    const role = allowed?.find(candidate => roles.includes(candidate));
+    if (!role) {
+      return { refusal: refusal(action, `an edit that is ${from.replace('_', ' ')}`, allowed) };
+    }
+    if (action === 'submit') {
+      const revision = prompt.pendingVersion !== null
+        ? await storage.getPromptRevision(prompt.id, prompt.pendingVersion)
+        : undefined;
+      const incomplete = revision ? incompleteContent(revision) : CONCURRENT_CHANGE;
+      if (incomplete) {
+        return { refusal: incomplete };
+      }
+    }
+    const updated = await storage.transitionPendingRevision(prompt.id, from, to, { id: user.id, role }, reason);
+    return updated ? { prompt: updated } : { refusal: CONCURRENT_CHANGE };
+  }
+  
+  const to = ACTION_TARGETS[action];
+  const allowed = PROMPT_TRANSITIONS[prompt.status][to];
+  const role = allowed?.find(candidate => roles.includes(candidate));
+  if (!role) {
+    return { refusal: refusal(action, `a prompt that is ${prompt.status.replace('_', ' ')}`, allowed) };
+  }
+  if (action === 'submit') {
+    const incomplete = incompleteContent(prompt);
+    if (incomplete) {
+      return { refusal: incomplete };
+    }
+  }
+  const updated = await storage.transitionPromptStatus(prompt.id, prompt.status, to, { id: user.id, role }, reason);
+  return updated ? { prompt: updated } : { refusal: CONCURRENT_CHANGE };
+}
+
+// Writes an edit someone else contributed (an accepted change proposal or suggested edit) the
+// way the author's own PUT would: approved content stays live and the edit becomes a draft
+// pending revision for the author to submit; other prompts get a new version. The contributor
+// is recorded as the revision's editor.
+export async function applyContributedEdit(
+  prompt: Prompt,
+  editorId: string,
+  data: UpdatePrompt,
+  store: IStorage = storage,
+): Promise<Prompt | undefined> {
+  if (prompt.status === 'archived') {
+    return undefined;
+  }
+  return prompt.status === 'approved'
+    ? await store.proposePromptRevision(prompt.id, editorId, data)
+    : await store.revisePrompt(prompt.id, editorId, data);
+}
+
+// Thrown inside an accept transaction when the contributed edit can no longer be applied, so
+// the acceptance rolls back with it and the contribution stays open
+export class ContributedEditConflict extends Error {
+  constructor() {
+    super("The prompt can no longer take this edit");
+    this.name = 'ContributedEditConflict';
+  }
+}
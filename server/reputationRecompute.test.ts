@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getEconomy } from "@shared/economy";
+import { users, type Prompt } from "@shared/schema";
+import { db, resetDatabase } from "./testDatabase";
+import { DatabaseStorage, storage } from "./storage";
+import { handlePromptVote } from "./reputationSystem";
+import { recomputeReputation } from "./reputationRecompute";
+
+vi.mock("./db", () => import("./testDatabase"));
+
+describe("reputation recompute", () => {
+  let prompt: Prompt;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values([
+      { id: "author", username: "author" },
+      { id: "voter", username: "voter", reputation: 1000 },
+      { id: "late", username: "late", reputation: 1000 },
+    ]);
+    prompt = await storage.createPrompt({
+      authorId: "author",
+      title: "Prompt",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "approved",
+      variables: [],
+    });
+    await handlePromptVote({ userId: "voter", promptId: prompt.id, voteType: 'upvote' });
+  });
+
+  it("does not correct a vote that lands between deriving and applying", async () => {
+    // The late vote starts once the vote counts are read and gets a moment to land before the
+    // recorded totals are; on a shared snapshot it waits for the recompute instead
+    let lateVote: Promise<unknown> | undefined;
+    const getPromptVoteCounts = DatabaseStorage.prototype.getPromptVoteCounts;
+    vi.spyOn(DatabaseStorage.prototype, 'getPromptVoteCounts').mockImplementationOnce(async function (this: DatabaseStorage) {
+      const counts = await getPromptVoteCounts.call(this);
+      lateVote = handlePromptVote({ userId: "late", promptId: prompt.id, voteType: 'upvote' });
+      await Promise.race([lateVote, new Promise(resolve => setTimeout(resolve, 200))]);
+      return counts;
+    });
+
+    const report = await recomputeReputation({ rederive: true, apply: true });
+    await lateVote;
+
+    expect(report.corrections).toEqual([]);
+    expect((await storage.getUser("author"))?.reputation).toBe(2 * getEconomy().reputation.PROMPT_UPVOTED);
+  });
+});
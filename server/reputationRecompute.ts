@@ -0,0 +1,134 @@
+// Reputation drift repair. users.reputation is a running total of reputation_events; replaying
+// the log finds users whose counter drifted from it. Optionally the vote and review verdict
+// events are re-derived from the votes and transitions they came from, so a change to
+// the economy's reputation amounts or a fixed bug in reputationSystem.ts can be applied retroactively.
+// Daily cap events stand as recorded: the votes they trimmed are re-derived at their full amounts.
+import { storage, type IStorage, type ReputationDrift, type ReputationEventTotal } from "./storage";
+import { getEconomy } from "@shared/economy";
+import type { InsertReputationEvent } from "@shared/schema";
+
+// The event types each source produces, and the one this job records its corrections as.
+// Corrections count towards the source, so a repaired source is not corrected again.
+const DERIVED_SOURCES = {
+  prompt_votes: {
+    events: ['prompt_upvoted', 'prompt_downvoted', 'prompt_vote_retracted'],
+    correction: 'prompt_votes_recalculated',
+  },
+  downvotes_cast: {
+    events: ['downvote_cast', 'downvote_removed'],
+    correction: 'downvotes_cast_recalculated',
+  },
+  review_verdicts: {
+    events: ['review_approved', 'review_rejected'],
+    correction: 'review_verdicts_recalculated',
+  },
+};
+
+type DerivedSource = keyof typeof DERIVED_SOURCES;
+
+const recordedTotals = (store: IStorage, source: DerivedSource) =>
+  store.getReputationEventTotals([...DERIVED_SOURCES[source].events, DERIVED_SOURCES[source].correction]);
+
+export interface ReputationCorrection {
+  userId: string;
+  promptId: string | null;
+  source: DerivedSource;
+  expected: number;
+  recorded: number;
+}
+
+export interface ReputationRecomputeReport {
+  corrections: ReputationCorrection[];
+  drift: ReputationDrift[];
+  applied: boolean;
+}
+
+const totalKey = (userId: string, promptId: string | null) => `${userId}:${promptId ?? ''}`;
+
+function compare(
+  source: DerivedSource,
+  expected: ReputationEventTotal[],
+  recorded: ReputationEventTotal[],
+): ReputationCorrection[] {
+  const totals = new Map<string, ReputationCorrection>();
+  const entry = (row: ReputationEventTotal) => {
+    const key = totalKey(row.userId, row.promptId);
+    let correction = totals.get(key);
+    if (!correction) {
+      correction = { userId: row.userId, promptId: row.promptId, source, expected: 0, recorded: 0 };
+      totals.set(key, correction);
+    }
+    return correction;
+  };
+  for (const row of expected) {
+    entry(row).expected += row.total;
+  }
+  for (const row of recorded) {
+    entry(row).recorded += row.total;
+  }
+  return Array.from(totals.values()).filter(correction => correction.expected !== correction.recorded);
+}
+
+// What each source should have credited under the current reputation amounts, against what the
+// log holds. The voter's downvote penalty is tracked per user: removing one never named a prompt.
+async function deriveCorrections(tx: IStorage): Promise<ReputationCorrection[]> {
+  const [voteCounts, downvoteCounts, verdictCounts] = await Promise.all([
+    tx.getPromptVoteCounts(),
+    tx.getDownvoteCountsByVoter(),
+    tx.getReviewVerdictCounts(),
+  ]);
+
+  const values = getEconomy().reputation;
+  const promptVotes = voteCounts.map(row => ({
+    userId: row.authorId,
+    promptId: row.promptId,
+    total: row.upvotes * values.PROMPT_UPVOTED + row.downvotes * values.PROMPT_DOWNVOTED,
+  }));
+  const downvotesCast = downvoteCounts.map(row => ({ userId: row.userId, promptId: null, total: row.downvotes * values.DOWNVOTE_CAST }));
+  const verdicts = verdictCounts.map(row => ({
+    userId: row.authorId,
+    promptId: row.promptId,
+    total: row.approved * values.REVIEW_APPROVED + row.rejected * values.REVIEW_REJECTED,
+  }));
+
+  // Only prompts with a complete transition history can be checked for verdicts
+  const verdictPrompts = new Set(verdictCounts.map(row => row.promptId));
+  const recordedVerdicts = (await recordedTotals(tx, 'review_verdicts'))
+    .filter(row => row.promptId !== null && verdictPrompts.has(row.promptId));
+  const recordedDownvotes = (await recordedTotals(tx, 'downvotes_cast'))
+    .map(row => ({ ...row, promptId: null }));
+
+  return [
+    ...compare('prompt_votes', promptVotes, await recordedTotals(tx, 'prompt_votes')),
+    ...compare('downvotes_cast', downvotesCast, recordedDownvotes),
+    ...compare('review_verdicts', verdicts, recordedVerdicts),
+  ];
+}
+
+// Reports drift and, with apply, repairs it: re-derived corrections are recorded as events
+// first (moving the counters with them), then counters that still disagree with the log are
+// reset to it. Without apply nothing is written.
+//
+// Everything runs on one REPEATABLE READ snapshot, so a vote or verdict landing meanwhile is
+// either wholly counted (its source row and its event) or not at all. If it touches a user being
+// corrected, the run fails with a serialization error rather than overwriting it.
+export async function recomputeReputation(options: { rederive: boolean; apply: boolean }): Promise<ReputationRecomputeReport> {
+  return await storage.transaction(async (tx) => {
+    const corrections = options.rederive ? await deriveCorrections(tx) : [];
+    if (options.apply && corrections.length > 0) {
+      const events: InsertReputationEvent[] = corrections.map(correction => ({
+        userId: correction.userId,
+        eventType: DERIVED_SOURCES[correction.source].correction,
+        changeAmount: correction.expected - correction.recorded,
+        relatedPromptId: correction.promptId,
+      }));
+      await tx.recordReputationEvents(events);
+    }
+
+    const drift = await tx.getReputationDrift();
+    if (options.apply) {
+      await tx.repairReputationDrift(drift.map(row => row.userId));
+    }
+    return { corrections, drift, applied: options.apply };
+  }, { isolationLevel: 'repeatable read' });
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_ECONOMY, mergeEconomy, setEconomy } from "@shared/economy";
+import { users, type Prompt } from "@shared/schema";
+import { db, resetDatabase } from "./testDatabase";
+import { storage } from "./storage";
+import { handlePromptVote, handleVoteRetraction } from "./reputationSystem";
+
+vi.mock("./db", () => import("./testDatabase"));
+
+const reputationOf = async (userId: string) => (await storage.getUser(userId))!.reputation;
+
+async function vote(userId: string, prompt: Prompt, voteType: 'upvote' | 'downvote') {
+  const result = await handlePromptVote({ userId, promptId: prompt.id, voteType });
+  expect(result).toHaveProperty('vote');
+}
+
+async function retract(userId: string, prompt: Prompt) {
+  expect(await handleVoteRetraction(userId, prompt.id)).toBeDefined();
+}
+
+describe("vote settlement", () => {
+  let prompt: Prompt;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values([
+      { id: "author", username: "author" },
+      { id: "voter", username: "voter", reputation: 1000 },
+      { id: "other", username: "other", reputation: 1000 },
+    ]);
+    prompt = await storage.createPrompt({
+      authorId: "author",
+      title: "Prompt",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "approved",
+      variables: [],
+    });
+  });
+
+  afterEach(() => {
+    setEconomy(DEFAULT_ECONOMY);
+  });
+
+  it.each(['upvote', 'downvote'] as const)("nets zero for author and voter when %s → retract is repeated", async (voteType) => {
+    for (let i = 0; i < 2; i++) {
+      await vote("voter", prompt, voteType);
+      await retract("voter", prompt);
+    }
+
+    expect(await reputationOf("author")).toBe(0);
+    expect(await reputationOf("voter")).toBe(1000);
+  });
+
+  it("nets zero when a vote is changed before it is retracted", async () => {
+    await vote("voter", prompt, 'upvote');
+    await vote("voter", prompt, 'downvote');
+    await vote("voter", prompt, 'upvote');
+    await retract("voter", prompt);
+
+    expect(await reputationOf("author")).toBe(0);
+    expect(await reputationOf("voter")).toBe(1000);
+  });
+
+  it("gives back what the daily cap withheld when a capped vote is toggled", async () => {
+    setEconomy(mergeEconomy(DEFAULT_ECONOMY, { caps: { DAILY_VOTE_REPUTATION: 15 } }));
+    await vote("other", prompt, 'upvote');
+    expect(await reputationOf("author")).toBe(10);
+
+    for (let i = 0; i < 2; i++) {
+      await vote("voter", prompt, 'upvote');
+      expect(await reputationOf("author")).toBe(15);
+      await retract("voter", prompt);
+      expect(await reputationOf("author")).toBe(10);
+    }
+
+    const history = await storage.getReputationHistory("author");
+    const eventTypes = history.items.map(event => event.eventType);
+    expect(eventTypes).toContain('reputation_capped');
+    expect(eventTypes).toContain('reputation_cap_released');
+    expect(await reputationOf("voter")).toBe(1000);
+  });
+
+  it("refuses votes on your own prompt and on unpublished prompts", async () => {
+    const own = await handlePromptVote({ userId: "author", promptId: prompt.id, voteType: 'upvote' });
+    expect(own).toEqual({ refusal: expect.objectContaining({ status: 403 }) });
+
+    const draft = await storage.createPrompt({
+      authorId: "author",
+      title: "Draft",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "draft",
+      variables: [],
+    });
+    const unpublished = await handlePromptVote({ userId: "voter", promptId: draft.id, voteType: 'upvote' });
+    expect(unpublished).toEqual({ refusal: expect.objectContaining({ status: 409 }) });
+    expect(await reputationOf("author")).toBe(0);
+  });
+
+  it("counts retracted votes towards the daily vote limit", async () => {
+    setEconomy(mergeEconomy(DEFAULT_ECONOMY, { caps: { DAILY_VOTES: 2 } }));
+    for (let i = 0; i < 2; i++) {
+      await vote("voter", prompt, 'upvote');
+      await retract("voter", prompt);
+    }
+
+    const refused = await handlePromptVote({ userId: "voter", promptId: prompt.id, voteType: 'upvote' });
+    expect(refused).toEqual({ refusal: expect.objectContaining({ status: 429 }) });
+    expect(await reputationOf("author")).toBe(0);
+  });
+});
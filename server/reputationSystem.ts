@@ -1,26 +1,19 @@
 // Reputation system logic for gamification
-import { storage } from "./storage";
-import type { InsertReputationEvent } from "@shared/schema";
-
-// Reputation change amounts based on event type
-const REPUTATION_VALUES = {
-  PROMPT_UPVOTED: 10,
-  PROMPT_DOWNVOTED: -2,
-  REVIEW_APPROVED: 15,
-  REVIEW_REJECTED: -5,
-  ACCURATE_REVIEW: 5, // When reviewer's vote matches majority
-  FIRST_PROMPT_APPROVED: 50,
-  COMMENT_UPVOTED: 2,
-};
+import { storage, type IStorage } from "./storage";
+import { getEconomy } from "@shared/economy";
+import { isPrivatePromptStatus } from "@shared/schema";
+import type { ChangeProposal, InsertReputationEvent, InsertVote, Prompt, SuggestedEdit, Vote } from "@shared/schema";
+
+// Reputation change amounts come from the active economy (shared/economy.ts)
 
-// Badge trigger conditions
+// Badge trigger conditions, read through the storage of the action that triggered them
 const BADGE_CONDITIONS = {
-  FIRST_COT: async (userId: string) => {
-    const prompts = await storage.getPrompts({ authorId: userId, status: 'approved' });
+  FIRST_COT: async (store: IStorage, userId: string) => {
+    const prompts = await store.getPrompts({ authorId: userId, status: 'approved' });
     const cotPrompts = [];
     
     for (const prompt of prompts) {
-      const techniques = await storage.getPromptTechniques(prompt.id);
+      const techniques = await store.getPromptTechniques(prompt.id);
       if (techniques.some(t => t.name.toLowerCase().includes('chain-of-thought'))) {
         cotPrompts.push(prompt);
       }
@@ -29,176 +22,297 @@ const BADGE_CONDITIONS = {
     return cotPrompts.length === 1; // First CoT prompt approved
   },
   
-  REPUTATION_500: async (userId: string) => {
-    const user = await storage.getUser(userId);
-    return user ? user.reputation >= 500 : false;
+  REVIEW_THRESHOLD: async (store: IStorage, userId: string) => {
+    const user = await store.getUser(userId);
+    return user ? user.reputation >= getEconomy().thresholds.REVIEW : false;
   },
   
-  REPUTATION_2000: async (userId: string) => {
-    const user = await storage.getUser(userId);
-    return user ? user.reputation >= 2000 : false;
+  MODERATE_THRESHOLD: async (store: IStorage, userId: string) => {
+    const user = await store.getUser(userId);
+    return user ? user.reputation >= getEconomy().thresholds.MODERATE : false;
   },
 };
 
-export async function handlePromptVote(
+// Each handler builds every event one action produces and records them together, so the
+// events and users.reputation always commit as a unit. Keys name the action, so a retry is a no-op.
+// Handlers given a transaction's storage (see storage.transaction) commit with the action itself.
+
+// Events for a vote on a prompt, given the voter's previous vote on it. A null voteType is a
+// retraction: the previous vote's effect is reversed, so casting and retracting nets zero.
+function voteEvents(
   promptId: string,
-  voteType: 'upvote' | 'downvote',
+  authorId: string,
   voterId: string,
-  previousVoteType?: 'upvote' | 'downvote'
-) {
-  const prompt = await storage.getPrompt(promptId);
-  if (!prompt) return;
+  voteType: 'upvote' | 'downvote' | null,
+  previousVoteType?: 'upvote' | 'downvote',
+): InsertReputationEvent[] {
+  const events: InsertReputationEvent[] = [];
 
-  const authorId = prompt.authorId;
-  
   // Calculate reputation change for prompt author
   let changeAmount = 0;
   
   if (previousVoteType) {
     // User changed their vote, reverse previous effect
     if (previousVoteType === 'upvote') {
-      changeAmount -= REPUTATION_VALUES.PROMPT_UPVOTED;
+      changeAmount -= getEconomy().reputation.PROMPT_UPVOTED;
     } else {
-      changeAmount -= REPUTATION_VALUES.PROMPT_DOWNVOTED;
+      changeAmount -= getEconomy().reputation.PROMPT_DOWNVOTED;
     }
   }
   
   // Apply new vote
   if (voteType === 'upvote') {
-    changeAmount += REPUTATION_VALUES.PROMPT_UPVOTED;
-  } else {
-    changeAmount += REPUTATION_VALUES.PROMPT_DOWNVOTED;
+    changeAmount += getEconomy().reputation.PROMPT_UPVOTED;
+  } else if (voteType === 'downvote') {
+    changeAmount += getEconomy().reputation.PROMPT_DOWNVOTED;
   }
   
   if (changeAmount !== 0) {
-    await storage.updateUserReputation(authorId, changeAmount);
-    await storage.createReputationEvent({
+    events.push({
       userId: authorId,
-      eventType: `prompt_${voteType}d`,
+      eventType: voteType ? `prompt_${voteType}d` : 'prompt_vote_retracted',
       changeAmount,
       relatedPromptId: promptId,
     });
   }
 
-  // Stack Overflow rule: Downvoter loses 1 reputation
+  // Stack Overflow rule: Downvoter pays DOWNVOTE_CAST
   if (voteType === 'downvote' && previousVoteType !== 'downvote') {
     // Apply penalty when casting a downvote (new or changed from upvote)
-    await storage.updateUserReputation(voterId, -1);
-    await storage.createReputationEvent({
+    events.push({
       userId: voterId,
       eventType: 'downvote_cast',
-      changeAmount: -1,
+      changeAmount: getEconomy().reputation.DOWNVOTE_CAST,
       relatedPromptId: promptId,
     });
   } else if (previousVoteType === 'downvote' && voteType !== 'downvote') {
-    // Restore 1 reputation when removing downvote (change to upvote or remove vote)
-    await storage.updateUserReputation(voterId, 1);
-    await storage.createReputationEvent({
+    // Give the penalty back when removing downvote (change to upvote or remove vote)
+    events.push({
       userId: voterId,
       eventType: 'downvote_removed',
-      changeAmount: 1,
+      changeAmount: -getEconomy().reputation.DOWNVOTE_CAST,
       relatedPromptId: promptId,
     });
   }
+  return events;
 }
 
-export async function handleReviewSubmission(
-  promptId: string,
-  reviewerId: string,
-  vote: 'approve' | 'reject'
-) {
+// Events that count towards the author's daily vote reputation cap, including the cap's own
+// adjustments so withheld reputation is not counted as earned
+const CAPPED_EVENT_TYPES = [
+  'prompt_upvoted',
+  'prompt_downvoted',
+  'prompt_vote_retracted',
+  'reputation_capped',
+  'reputation_cap_released',
+] as const;
+
+// Gives back what the daily cap withheld from a vote that is being changed or retracted, so
+// the vote's effect is reversed in full
+function capReleaseEvents(previous: Vote, authorId: string): InsertReputationEvent[] {
+  return previous.cappedAmount > 0 ? [{
+    userId: authorId,
+    eventType: 'reputation_cap_released',
+    changeAmount: previous.cappedAmount,
+    relatedPromptId: previous.promptId,
+  }] : [];
+}
+
+type VoteRefusal = {
+  status: 403 | 404 | 409 | 429;
+  message: string;
+};
+
+// Records the vote and its reputation in one transaction. Past the daily vote limit new votes
+// are refused; past the author's daily cap the gain is recorded, then withheld by a
+// reputation_capped event that the vote remembers in cappedAmount.
+export async function handlePromptVote(vote: InsertVote): Promise<{ vote: Vote } | { refusal: VoteRefusal }> {
+  const prompt = await storage.getPrompt(vote.promptId);
+  if (!prompt) {
+    return { refusal: { status: 404, message: "Prompt not found" } };
+  }
+  // Votes on your own or unpublished work would only farm reputation for the author
+  if (prompt.authorId === vote.userId) {
+    return { refusal: { status: 403, message: "You cannot vote on your own prompt" } };
+  }
+  if (isPrivatePromptStatus(prompt.status)) {
+    return { refusal: { status: 409, message: `Prompts in ${prompt.status} cannot be voted on` } };
+  }
+
+  const { caps } = getEconomy();
+  const voteType = vote.voteType as 'upvote' | 'downvote';
+  const recorded = await storage.castVote(vote, async (previous, ledger) => {
+    if (previous?.voteType === voteType) {
+      return { events: [], cappedAmount: previous.cappedAmount };
+    }
+    if (!previous && await ledger.votesCastToday(vote.userId) >= caps.DAILY_VOTES) {
+      return undefined;
+    }
+
+    const events = [
+      ...voteEvents(prompt.id, prompt.authorId, vote.userId, voteType, previous?.voteType as 'upvote' | 'downvote' | undefined),
+      ...(previous ? capReleaseEvents(previous, prompt.authorId) : []),
+    ];
+    const gain = events
+      .filter(event => event.userId === prompt.authorId)
+      .reduce((sum, event) => sum + event.changeAmount, 0);
+    if (gain <= 0) {
+      return { events, cappedAmount: 0 };
+    }
+
+    const earned = await ledger.earnedToday(prompt.authorId, CAPPED_EVENT_TYPES);
+    const cappedAmount = Math.min(gain, Math.max(0, earned + gain - caps.DAILY_VOTE_REPUTATION));
+    if (cappedAmount > 0) {
+      events.push({
+        userId: prompt.authorId,
+        eventType: 'reputation_capped',
+        changeAmount: -cappedAmount,
+        relatedPromptId: prompt.id,
+      });
+    }
+    return { events, cappedAmount };
+  });
+
+  if (!recorded) {
+    return { refusal: { status: 429, message: `You can cast ${caps.DAILY_VOTES} votes per day; try again tomorrow` } };
+  }
+  return { vote: recorded };
+}
+
+// Removes the user's vote and reverses what it credited; undefined if there was no vote
+export async function handleVoteRetraction(userId: string, promptId: string): Promise<Vote | undefined> {
   const prompt = await storage.getPrompt(promptId);
-  if (!prompt) return;
+  if (!prompt) return undefined;
+
+  return await storage.retractVote(userId, promptId, async previous => [
+    ...voteEvents(prompt.id, prompt.authorId, userId, null, previous.voteType as 'upvote' | 'downvote'),
+    ...capReleaseEvents(previous, prompt.authorId),
+  ]);
+}
+
+function accurateReviewEvents(prompt: Prompt, reviewerIds: string[]): InsertReputationEvent[] {
+  // Award small reputation for accurate review (matching majority opinion)
+  return reviewerIds.map(reviewerId => ({
+    userId: reviewerId,
+    eventType: 'accurate_review',
+    changeAmount: getEconomy().reputation.ACCURATE_REVIEW,
+    relatedPromptId: prompt.id,
+    idempotencyKey: `accurate_review:${prompt.id}:${prompt.reviewRound}:${reviewerId}`,
+  }));
+}
 
+// Settles a decided review round of a new prompt: the author's verdict, first-approval and fork
+// bonuses, the reviewers who voted with the outcome and the author's badges
+export async function handleReviewSubmission(
+  prompt: Prompt,
+  vote: 'approve' | 'reject',
+  accurateReviewerIds: string[],
+  store: IStorage = storage,
+) {
+  const promptId = prompt.id;
   const authorId = prompt.authorId;
   const changeAmount = vote === 'approve' 
-    ? REPUTATION_VALUES.REVIEW_APPROVED 
-    : REPUTATION_VALUES.REVIEW_REJECTED;
+    ? getEconomy().reputation.REVIEW_APPROVED 
+    : getEconomy().reputation.REVIEW_REJECTED;
   
-  // Update author's reputation
-  await storage.updateUserReputation(authorId, changeAmount);
-  await storage.createReputationEvent({
+  const events: InsertReputationEvent[] = [{
     userId: authorId,
     eventType: `review_${vote}d`,
     changeAmount,
     relatedPromptId: promptId,
-  });
+    idempotencyKey: `review_${vote}d:${promptId}:${prompt.reviewRound}`,
+  }];
   
   // Check for first approved prompt badge
   if (vote === 'approve') {
-    const approvedPrompts = await storage.getPrompts({ 
+    const approvedPrompts = await store.getPrompts({ 
       authorId, 
       status: 'approved' 
     });
     
     if (approvedPrompts.length === 1) {
       // First prompt approved! Award bonus reputation
-      await storage.updateUserReputation(authorId, REPUTATION_VALUES.FIRST_PROMPT_APPROVED);
-      await storage.createReputationEvent({
+      events.push({
         userId: authorId,
         eventType: 'first_prompt_approved',
-        changeAmount: REPUTATION_VALUES.FIRST_PROMPT_APPROVED,
+        changeAmount: getEconomy().reputation.FIRST_PROMPT_APPROVED,
         relatedPromptId: promptId,
+        idempotencyKey: `first_prompt_approved:${authorId}`,
       });
     }
     
     // If this is a forked prompt, reward the original author
     if (prompt.parentPromptId) {
-      const parentPrompt = await storage.getPrompt(prompt.parentPromptId);
+      const parentPrompt = await store.getPrompt(prompt.parentPromptId);
       if (parentPrompt) {
-        const FORK_BONUS = 5;
-        await storage.updateUserReputation(parentPrompt.authorId, FORK_BONUS);
-        await storage.createReputationEvent({
+        events.push({
           userId: parentPrompt.authorId,
           eventType: 'fork_approved',
-          changeAmount: FORK_BONUS,
+          changeAmount: getEconomy().reputation.FORK_APPROVED,
           relatedPromptId: promptId,
+          idempotencyKey: `fork_approved:${promptId}`,
         });
       }
     }
   }
   
+  await store.recordReputationEvents([...events, ...accurateReviewEvents(prompt, accurateReviewerIds)]);
+  
   // Check for badge triggers
-  await checkAndAwardBadges(authorId, promptId);
+  await checkAndAwardBadges(authorId, store);
 }
 
-export async function handleAccurateReview(reviewerId: string, promptId: string) {
-  // Award small reputation for accurate review (matching majority opinion)
-  await storage.updateUserReputation(reviewerId, REPUTATION_VALUES.ACCURATE_REVIEW);
-  await storage.createReputationEvent({
-    userId: reviewerId,
-    eventType: 'accurate_review',
-    changeAmount: REPUTATION_VALUES.ACCURATE_REVIEW,
-    relatedPromptId: promptId,
-  });
+// Settles a decided review round of a pending revision; the author was credited on first approval
+export async function handleAccurateReviews(prompt: Prompt, reviewerIds: string[], store: IStorage = storage) {
+  await store.recordReputationEvents(accurateReviewEvents(prompt, reviewerIds));
+}
+
+export async function handleChangeProposalAccepted(proposal: ChangeProposal, store: IStorage = storage) {
+  await store.recordReputationEvents([{
+    userId: proposal.proposerId,
+    eventType: 'change_proposal_accepted',
+    changeAmount: getEconomy().reputation.CHANGE_PROPOSAL_ACCEPTED,
+    relatedPromptId: proposal.targetPromptId,
+    idempotencyKey: `change_proposal_accepted:${proposal.id}`,
+  }]);
+}
+
+export async function handleSuggestedEditAccepted(edit: SuggestedEdit, store: IStorage = storage) {
+  await store.recordReputationEvents([{
+    userId: edit.suggesterId,
+    eventType: 'suggested_edit_accepted',
+    changeAmount: getEconomy().reputation.SUGGESTED_EDIT_ACCEPTED,
+    relatedPromptId: edit.promptId,
+    idempotencyKey: `suggested_edit_accepted:${edit.id}`,
+  }]);
 }
 
-async function checkAndAwardBadges(userId: string, promptId?: string) {
-  const allBadges = await storage.getBadges();
-  const userBadges = await storage.getUserBadges(userId);
+async function checkAndAwardBadges(userId: string, store: IStorage) {
+  const allBadges = await store.getBadges();
+  const userBadges = await store.getUserBadges(userId);
   const userBadgeIds = new Set(userBadges.map(ub => ub.badgeId));
   
   // Check First CoT badge
   const cotBadge = allBadges.find(b => b.name === 'First CoT Prompt');
   if (cotBadge && !userBadgeIds.has(cotBadge.id)) {
-    if (await BADGE_CONDITIONS.FIRST_COT(userId)) {
-      await storage.awardBadge(userId, cotBadge.id);
+    if (await BADGE_CONDITIONS.FIRST_COT(store, userId)) {
+      await store.awardBadge(userId, cotBadge.id);
     }
   }
   
-  // Check Reviewer badge (reputation >= 500)
+  // Check Reviewer badge (review threshold)
   const reviewerBadge = allBadges.find(b => b.name === 'Reviewer');
   if (reviewerBadge && !userBadgeIds.has(reviewerBadge.id)) {
-    if (await BADGE_CONDITIONS.REPUTATION_500(userId)) {
-      await storage.awardBadge(userId, reviewerBadge.id);
+    if (await BADGE_CONDITIONS.REVIEW_THRESHOLD(store, userId)) {
+      await store.awardBadge(userId, reviewerBadge.id);
     }
   }
   
-  // Check Moderator badge (reputation >= 2000)
+  // Check Moderator badge (moderation threshold)
   const moderatorBadge = allBadges.find(b => b.name === 'Moderator');
   if (moderatorBadge && !userBadgeIds.has(moderatorBadge.id)) {
-    if (await BADGE_CONDITIONS.REPUTATION_2000(userId)) {
-      await storage.awardBadge(userId, moderatorBadge.id);
+    if (await BADGE_CONDITIONS.MODERATE_THRESHOLD(store, userId)) {
+      await store.awardBadge(userId, moderatorBadge.id);
     }
   }
 }
@@ -206,6 +320,7 @@ async function checkAndAwardBadges(userId: string, promptId?: string) {
 // Initialize default badges in database
 export async function initializeDefaultBadges() {
   const existingBadges = await storage.getBadges();
+  const { thresholds } = getEconomy();
   
   const defaultBadges = [
     {
@@ -215,12 +330,12 @@ export async function initializeDefaultBadges() {
     },
     {
       name: 'Reviewer',
-      description: 'Achieved 500+ reputation and can participate in peer reviews',
+      description: `Achieved ${thresholds.REVIEW}+ reputation and can participate in peer reviews`,
       iconUrl: null,
     },
     {
       name: 'Moderator',
-      description: 'Achieved 2000+ reputation and can moderate content',
+      description: `Achieved ${thresholds.MODERATE}+ reputation and can moderate content`,
       iconUrl: null,
     },
     {
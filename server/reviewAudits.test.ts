@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { promptTechniques, reviewAuditAttempts, reviewAudits, users, type Prompt } from "@shared/schema";
+import { db, resetDatabase } from "./testDatabase";
+import { storage } from "./storage";
+import { getOpenAuditFor, getQueueAuditItem } from "./reviewAudits";
+
+vi.mock("./db", () => import("./testDatabase"));
+
+describe("review audits", () => {
+  let prompt: Prompt;
+  let taggedId: number;
+  let otherId: number;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values([
+      { id: "author", username: "author" },
+      { id: "moderator", username: "moderator" },
+      { id: "reviewer", username: "reviewer", reputation: 1000 },
+    ]);
+    [{ id: taggedId }, { id: otherId }] = await db
+      .insert(promptTechniques)
+      .values([
+        { name: "Chain of thought", description: "Step by step" },
+        { name: "Few-shot", description: "Worked examples" },
+      ])
+      .returning();
+    prompt = await storage.createPrompt({
+      authorId: "author",
+      title: "Known good",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "approved",
+      variables: [],
+    }, [taggedId]);
+    const [audit] = await db
+      .insert(reviewAudits)
+      .values({ promptId: prompt.id, expectedVote: 'approve', createdBy: "moderator" })
+      .returning();
+    await db.insert(reviewAuditAttempts).values({ auditId: audit.id, reviewerId: "reviewer" });
+  });
+
+  it("shows an open audit on filtered queues it fits, disguised as a first-round item", async () => {
+    expect(await getQueueAuditItem("reviewer", { techniqueId: otherId })).toBeNull();
+
+    const item = await getQueueAuditItem("reviewer", { techniqueId: taggedId, firstTimeAuthor: true });
+    expect(item).toMatchObject({
+      id: prompt.id,
+      status: 'pending_review',
+      pendingVersion: null,
+      reviewRound: 1,
+      reviewCount: 0,
+      firstTimeAuthor: true,
+    });
+    expect(item).not.toHaveProperty('techniques');
+  });
+
+  it("finds the open audit only for the reviewer it was assigned to", async () => {
+    expect(await getOpenAuditFor("reviewer", prompt.id)).toHaveProperty('audit.promptId', prompt.id);
+    expect(await getOpenAuditFor("author", prompt.id)).toBeUndefined();
+    expect(await getOpenAuditFor(undefined, prompt.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,116 @@
+// Review audits: known-good/known-bad prompts mixed into the review queue to catch reviewers
+// who approve (or reject) without reading. Answers are scored against the audit and never
+// touch the real prompt; repeated failures suspend review privileges for a while.
+import { storage } from "./storage";
+import { REVIEW_AUDITS } from "@shared/schema";
+import type {
+  Prompt,
+  ReviewAudit,
+  ReviewAuditAttempt,
+  ReviewAuditOutcome,
+  ReviewBlock,
+  ReviewQueueFilters,
+  ReviewQueueItem,
+  User,
+} from "@shared/schema";
+
+type OpenAuditAttempt = ReviewAuditAttempt & { audit: ReviewAudit };
+
+export function reviewSuspensionBlock(user: User): ReviewBlock | null {
+  if (!user.reviewSuspendedUntil || user.reviewSuspendedUntil <= new Date()) {
+    return null;
+  }
+  return {
+    status: 403,
+    code: 'review_suspended',
+    message: `Review privileges are suspended until ${user.reviewSuspendedUntil.toISOString()} after failed review audits`,
+  };
+}
+
+// Audit items must be indistinguishable from real queue entries, in the queue and on the
+// prompt's own page
+export function disguiseAuditPrompt<T extends Prompt>(prompt: T, attempt: OpenAuditAttempt): T {
+  return {
+    ...prompt,
+    status: 'pending_review',
+    pendingVersion: null,
+    pendingStatus: null,
+    reviewRound: 1,
+    submittedAt: attempt.assignedAt,
+  };
+}
+
+function toQueueItem(prompt: Prompt, attempt: OpenAuditAttempt, filters: ReviewQueueFilters): ReviewQueueItem {
+  return {
+    ...disguiseAuditPrompt(prompt, attempt),
+    reviewCount: 0,
+    queuedAt: attempt.assignedAt,
+    firstTimeAuthor: filters.firstTimeAuthor ?? false,
+    claimExpiresAt: null,
+  };
+}
+
+// The viewer's open audit on this prompt, if any. While it is open the prompt endpoints serve
+// the disguise and hide the reviews, votes and comments that would give it away.
+export async function getOpenAuditFor(viewerId: string | undefined, promptId: string): Promise<OpenAuditAttempt | undefined> {
+  return viewerId ? storage.getOpenAuditAttempt(viewerId, promptId) : undefined;
+}
+
+// The audit item to mix into this reviewer's queue, if one is due. An assigned audit keeps
+// showing until it is answered or skipped, on every filtered view it fits.
+export async function getQueueAuditItem(reviewerId: string, filters: ReviewQueueFilters = {}): Promise<ReviewQueueItem | null> {
+  let attempt = await storage.getOpenAuditAttempt(reviewerId);
+  if (!attempt) {
+    const latest = await storage.getLatestAuditAttempt(reviewerId);
+    const reviewsSince = await storage.countReviewsSince(reviewerId, latest?.assignedAt);
+    if (reviewsSince < REVIEW_AUDITS.INTERVAL) {
+      return null;
+    }
+    attempt = await storage.assignReviewAudit(reviewerId, filters.techniqueId);
+    if (!attempt) {
+      return null;
+    }
+  }
+
+  const prompt = await storage.getPromptWithTechniques(attempt.audit.promptId);
+  if (!prompt) {
+    return null;
+  }
+  if (filters.techniqueId !== undefined && !prompt.techniques.some(technique => technique.id === filters.techniqueId)) {
+    return null;
+  }
+  const { techniques, ...item } = prompt;
+  return toQueueItem(item, attempt, filters);
+}
+
+// Requesting changes on a known-bad prompt counts as catching it
+function auditPassed(expectedVote: string, vote: string): boolean {
+  return vote === expectedVote || (expectedVote === 'reject' && vote === 'request_changes');
+}
+
+// Scores the reviewer's answer and suspends them once too many recent audits have failed.
+// Only failures since the end of any previous suspension count.
+export async function answerReviewAudit(attempt: OpenAuditAttempt, reviewer: User, vote: string): Promise<ReviewAuditOutcome> {
+  const passed = auditPassed(attempt.audit.expectedVote, vote);
+  const outcome: ReviewAuditOutcome = { passed, expectedVote: attempt.audit.expectedVote, suspendedUntil: null };
+
+  const answered = await storage.answerAuditAttempt(attempt.id, vote, passed);
+  if (!answered || passed) {
+    return outcome;
+  }
+
+  const recent = await storage.getRecentAuditResults(reviewer.id, REVIEW_AUDITS.WINDOW, reviewer.reviewSuspendedUntil ?? undefined);
+  const failures = recent.filter(result => result.passed === false).length;
+  if (failures >= REVIEW_AUDITS.MAX_FAILURES) {
+    const until = new Date(Date.now() + REVIEW_AUDITS.SUSPENSION_DAYS * 24 * 60 * 60 * 1000);
+    await storage.suspendReviewer(reviewer.id, until);
+    await storage.createNotification({
+      userId: reviewer.id,
+      type: 'review_suspended',
+      message: `Your review privileges are suspended for ${REVIEW_AUDITS.SUSPENSION_DAYS} days after ${failures} failed review audits`,
+      promptId: null,
+    });
+    outcome.suspendedUntil = until;
+  }
+  return outcome;
+}
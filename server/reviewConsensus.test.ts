@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { users, type Prompt } from "@shared/schema";
+import { db, resetDatabase } from "./testDatabase";
+import { DatabaseStorage, storage } from "./storage";
+import { applyReviewConsensus } from "./reviewConsensus";
+import { initializeDefaultBadges } from "./reputationSystem";
+
+vi.mock("./db", () => import("./testDatabase"));
+
+const reviewerIds = ["r1", "r2", "r3"];
+
+describe("review consensus", () => {
+  let prompt: Prompt;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    await resetDatabase();
+    await initializeDefaultBadges();
+    await db.insert(users).values([
+      { id: "author", username: "author" },
+      ...reviewerIds.map(id => ({ id, username: id, reputation: 500 })),
+    ]);
+    prompt = await storage.createPrompt({
+      authorId: "author",
+      title: "Prompt",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "pending_review",
+      variables: [],
+    });
+    for (const reviewerId of reviewerIds) {
+      await storage.createReview({ promptId: prompt.id, reviewerId, vote: 'approve', scores: [], round: 1, promptVersion: 1 });
+    }
+  });
+
+  it("approves the prompt and pays the author and reviewers together", async () => {
+    const tally = await applyReviewConsensus(prompt, "r3");
+
+    expect(tally.outcome).toBe('approved');
+    expect((await storage.getPrompt(prompt.id))?.status).toBe('approved');
+    expect((await storage.getUser("author"))?.reputation).toBe(65);
+    expect((await storage.getUser("r1"))?.reputation).toBe(505);
+  });
+
+  it("rolls the verdict back with its reputation when settling it fails", async () => {
+    vi.spyOn(DatabaseStorage.prototype, 'getUserBadges').mockRejectedValue(new Error("badge lookup failed"));
+
+    await expect(applyReviewConsensus(prompt, "r3")).rejects.toThrow("badge lookup failed");
+    expect((await storage.getPrompt(prompt.id))?.status).toBe('pending_review');
+    expect((await storage.getUser("author"))?.reputation).toBe(0);
+    expect((await storage.getUser("r1"))?.reputation).toBe(500);
+    expect((await storage.getReputationHistory("author")).items).toEqual([]);
+
+    vi.restoreAllMocks();
+    expect((await applyReviewConsensus(prompt, "r3")).outcome).toBe('approved');
+    expect((await storage.getUser("author"))?.reputation).toBe(65);
+  });
+});
+
+describe("request-changes rounds", () => {
+  let prompt: Prompt;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    await resetDatabase();
+    await initializeDefaultBadges();
+    await db.insert(users).values([
+      { id: "author", username: "author" },
+      ...reviewerIds.map(id => ({ id, username: id, reputation: 500 })),
+    ]);
+    prompt = await storage.createPrompt({
+      authorId: "author",
+      title: "Prompt",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "pending_review",
+      variables: [],
+    });
+    for (const reviewerId of reviewerIds) {
+      await storage.createReview({ promptId: prompt.id, reviewerId, vote: 'request_changes', scores: [], round: 1, promptVersion: 1 });
+    }
+  });
+
+  it("sends the prompt back without settling reputation and starts a fresh round on resubmission", async () => {
+    expect((await applyReviewConsensus(prompt, "r3")).outcome).toBe('needs_changes');
+    expect((await storage.getPrompt(prompt.id))?.status).toBe('needs_changes');
+    expect((await storage.getUser("author"))?.reputation).toBe(0);
+    expect((await storage.getUser("r1"))?.reputation).toBe(500);
+
+    await storage.revisePrompt(prompt.id, "author", { promptBodyText: "Better body" });
+    const resubmitted = await storage.transitionPromptStatus(prompt.id, 'needs_changes', 'pending_review', { id: "author", role: 'author' });
+    expect(resubmitted).toMatchObject({ reviewRound: 2, version: 2 });
+
+    // Round one's votes no longer count, and its reviewers see the new version in their queue
+    expect((await applyReviewConsensus(resubmitted!, "r3")).outcome).toBeNull();
+    expect((await storage.getPrompt(prompt.id))?.status).toBe('pending_review');
+    expect((await storage.getReviewQueue("r1")).items.map(item => item.id)).toEqual([prompt.id]);
+  });
+});
@@ -0,0 +1,98 @@
+// Multi-reviewer consensus for prompts awaiting review
+import { storage, type IStorage } from "./storage";
+import { handleAccurateReviews, handleReviewSubmission } from "./reputationSystem";
+import { REVIEW_CONSENSUS, reviewerWeight } from "@shared/schema";
+import type { Prompt, ReviewTally, ReviewWithReviewer } from "@shared/schema";
+
+export function tallyReviews(reviews: ReviewWithReviewer[]): ReviewTally {
+  let approveWeight = 0;
+  let rejectWeight = 0;
+  for (const review of reviews) {
+    const weight = reviewerWeight(review.reviewerReputation);
+    if (review.vote === 'approve') {
+      approveWeight += weight;
+    } else if (review.vote === 'reject') {
+      rejectWeight += weight;
+    }
+  }
+
+  // A tie at quorum stays pending until another reviewer breaks it
+  let outcome: ReviewTally['outcome'] = null;
+  if (reviews.some(review => review.vote === 'request_changes')) {
+    outcome = 'needs_changes';
+  } else if (reviews.length >= REVIEW_CONSENSUS.QUORUM && approveWeight !== rejectWeight) {
+    outcome = approveWeight > rejectWeight ? 'approved' : 'rejected';
+  }
+
+  return {
+    reviewCount: reviews.length,
+    required: REVIEW_CONSENSUS.QUORUM,
+    approveWeight,
+    rejectWeight,
+    outcome,
+  };
+}
+
+// Re-tally the current round after a review is recorded and, once it is decided, move the
+// prompt out of pending_review. Side effects only run for the request whose status
+// transition succeeds, so concurrent reviews closing the round cannot pay out twice, and they
+// commit in the same transaction as the transition, so a failure cannot lose them either.
+export async function applyReviewConsensus(prompt: Prompt, reviewerId: string): Promise<ReviewTally> {
+  const reviews = await storage.getReviewsWithReviewers(prompt.id, prompt.reviewRound);
+  const tally = tallyReviews(reviews);
+  const { outcome } = tally;
+  if (outcome) {
+    await storage.transaction(tx => settleReviewRound(tx, prompt, reviews, outcome, reviewerId));
+  }
+  return tally;
+}
+
+async function settleReviewRound(
+  tx: IStorage,
+  prompt: Prompt,
+  reviews: ReviewWithReviewer[],
+  outcome: NonNullable<ReviewTally['outcome']>,
+  reviewerId: string,
+) {
+  const promptId = prompt.id;
+
+  // A pending revision of an approved prompt is settled on its own; the live version stays up
+  const revision = prompt.pendingVersion !== null;
+  const actor = { id: reviewerId, role: 'review' } as const;
+  const resolved = revision
+    ? await tx.transitionPendingRevision(promptId, 'pending_review', outcome, actor)
+    : await tx.transitionPromptStatus(promptId, 'pending_review', outcome, actor);
+  if (!resolved) {
+    return;
+  }
+
+  // Requested changes send the prompt back to its author without settling reputation
+  if (outcome === 'needs_changes') {
+    await tx.createNotification({
+      userId: prompt.authorId,
+      type: 'changes_requested',
+      message: `A reviewer requested changes to "${prompt.title}"`,
+      promptId,
+    });
+    return;
+  }
+
+  const winningVote = outcome === 'approved' ? 'approve' : 'reject';
+  const accurateReviewerIds = reviews
+    .filter(review => review.vote === winningVote)
+    .map(review => review.reviewerId);
+  if (revision) {
+    // The author was already credited when the prompt was first approved
+    await tx.createNotification({
+      userId: prompt.authorId,
+      type: outcome === 'approved' ? 'revision_approved' : 'revision_rejected',
+      message: outcome === 'approved'
+        ? `Your edit to "${prompt.title}" was approved and is now live`
+        : `Your edit to "${prompt.title}" was rejected; the approved version stays live`,
+      promptId,
+    });
+    await handleAccurateReviews(prompt, accurateReviewerIds, tx);
+  } else {
+    await handleReviewSubmission(prompt, winningVote, accurateReviewerIds, tx);
+  }
+}
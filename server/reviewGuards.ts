@@ -0,0 +1,43 @@
+// Conflict-of-interest and duplicate-review rules checked before a review is recorded
+import { storage } from "./storage";
+import { REVIEW_CONFLICT_RULES, reviewStatusOf, reviewVersionOf } from "@shared/schema";
+import type { Prompt, ReviewBlock } from "@shared/schema";
+
+// Returns why this reviewer may not review the prompt right now, or null if they may
+export async function checkReviewEligibility(prompt: Prompt, reviewerId: string): Promise<ReviewBlock | null> {
+  if (reviewStatusOf(prompt) !== 'pending_review') {
+    return { status: 409, code: 'not_pending', message: "Prompt is not awaiting review" };
+  }
+  if (prompt.authorId === reviewerId) {
+    return { status: 403, code: 'self_review', message: "You cannot review your own prompt" };
+  }
+  if (REVIEW_CONFLICT_RULES.BLOCK_FORK_RELATIONSHIPS && await storage.haveForkRelationship(reviewerId, prompt.authorId)) {
+    return {
+      status: 403,
+      code: 'fork_conflict',
+      message: "You cannot review this author's prompts because one of you has forked the other's work",
+    };
+  }
+
+  const version = reviewVersionOf(prompt);
+  const existing = await storage.findReviewerReview(prompt.id, reviewerId, prompt.reviewRound, version);
+  if (existing) {
+    return {
+      status: 409,
+      code: 'duplicate_review',
+      message: existing.promptVersion === version
+        ? `You have already reviewed version ${version} of this prompt`
+        : "You have already reviewed this prompt in the current review round",
+    };
+  }
+
+  const claim = await storage.getActiveReviewClaim(prompt.id);
+  if (claim && claim.reviewerId !== reviewerId) {
+    return {
+      status: 409,
+      code: 'claimed',
+      message: `Another reviewer has claimed this prompt until ${claim.expiresAt.toISOString()}`,
+    };
+  }
+  return null;
+}
@@ -0,0 +1,63 @@
+// Structured review rubric: criteria definitions live in the database so high-reputation
+// users can evolve them; these defaults are only seeded when missing
+import { storage } from "./storage";
+import type { ReviewCriterion, ReviewScoreInput } from "@shared/schema";
+
+const DEFAULT_REVIEW_CRITERIA = [
+  {
+    key: 'clarity',
+    name: 'Clarity',
+    description: 'Instructions are unambiguous and the expected output is clearly specified',
+    sortOrder: 10,
+  },
+  {
+    key: 'reusability',
+    name: 'Reusability',
+    description: 'The prompt generalises beyond one case, with variables for the parts that change',
+    sortOrder: 20,
+  },
+  {
+    key: 'technique_tags',
+    name: 'Technique tags',
+    description: 'Linked techniques are correct and complete for what the prompt actually does',
+    sortOrder: 30,
+  },
+  {
+    key: 'rationale',
+    name: 'Rationale quality',
+    description: 'The rationale explains why the prompt is structured this way and when to use it',
+    sortOrder: 40,
+  },
+  {
+    key: 'safety',
+    name: 'Safety',
+    description: 'The prompt avoids eliciting harmful output and handles sensitive input responsibly',
+    sortOrder: 50,
+  },
+];
+
+export async function initializeDefaultReviewCriteria() {
+  const existingCriteria = await storage.getReviewCriteria();
+
+  for (const criterion of DEFAULT_REVIEW_CRITERIA) {
+    const exists = existingCriteria.some(c => c.key === criterion.key);
+    if (!exists) {
+      await storage.createReviewCriterion(criterion);
+    }
+  }
+}
+
+// Every active criterion must be scored exactly once; returns an error message, or null
+export function validateRubricScores(scores: ReviewScoreInput[], criteria: ReviewCriterion[]): string | null {
+  const active = criteria.filter(criterion => criterion.active);
+  const activeIds = new Set(active.map(criterion => criterion.id));
+
+  if (scores.some(score => !activeIds.has(score.criterionId))) {
+    return "Scores may only be given for active rubric criteria";
+  }
+  const missing = active.filter(criterion => !scores.some(score => score.criterionId === criterion.id));
+  if (missing.length > 0) {
+    return `Missing rubric scores for: ${missing.map(criterion => criterion.name).join(', ')}`;
+  }
+  return null;
+}
@@ -1,28 +1,127 @@
 // API Routes implementation - from blueprints and Issuepedia API specification
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { 
   handlePromptVote, 
-  handleReviewSubmission,
+  handleVoteRetraction,
   initializeDefaultBadges 
 } from "./reputationSystem";
+import { applyReviewConsensus } from "./reviewConsensus";
+import { applyPromptAction, underReviewBlock, type PromptAction } from "./promptLifecycle";
+import { checkReviewEligibility } from "./reviewGuards";
+import { answerReviewAudit, disguiseAuditPrompt, getOpenAuditFor, getQueueAuditItem, reviewSuspensionBlock } from "./reviewAudits";
+import { initializeDefaultReviewCriteria, validateRubricScores } from "./reviewRubric";
+import { scheduleDraftCleanup } from "./drafts";
+import { applyChangeProposalAction, openChangeProposal, type ChangeProposalAction } from "./changeProposals";
+import { reviewSuggestedEdit, suggestEdit, type SuggestedEditAction } from "./suggestedEdits";
+import { recomputeReputation } from "./reputationRecompute";
+import { loadEconomy } from "./economy";
+import { getEconomy } from "@shared/economy";
 import { 
   insertPromptSchema, 
+  createPromptSchema,
+  updatePromptSchema,
+  promptTransitionRequestSchema,
+  PROMPT_STATUSES,
+  isPrivatePromptStatus,
+  isHiddenFrom,
   insertReviewSchema, 
   insertVoteSchema,
   insertCommentSchema,
-  insertPromptTechniqueSchema 
+  insertPromptTechniqueSchema,
+  insertReviewCriterionSchema,
+  insertReviewAuditSchema,
+  insertChangeProposalSchema,
+  insertChangeProposalCommentSchema,
+  changeProposalResolutionSchema,
+  canDiscussChangeProposal,
+  insertSuggestedEditSchema,
+  suggestedEditReviewSchema,
+  reputationRecomputeSchema,
+  canReview,
+  canUpvote,
+  canDownvote,
+  canComment,
+  canModerate,
+  canAutosave,
+  REVIEW_QUEUE,
+  reviewVersionOf,
+  updateReviewCriterionSchema,
+  canManageRubric,
+  promptGraphSchema,
+  PROMPT_SORTS,
+  TOP_WINDOWS,
+  type Prompt,
+  type PromptRevision,
+  type PromptTechnique,
 } from "@shared/schema";
+import { diffPrompts, type DiffSide } from "@shared/diff";
+import { compilePromptGraph } from "@shared/compiler";
+import { findUndeclaredPlaceholders } from "@shared/templates";
 import { z } from "zod";
+import { pageQuerySchema } from "./pagination";
+
+// The signed-in user on routes that also serve anonymous visitors
+function viewerIdOf(req: Request): string | undefined {
+  const user: { claims?: { sub?: string } } | undefined = req.user;
+  return req.isAuthenticated() ? user?.claims?.sub : undefined;
+}
+
+// Tags must name techniques in the taxonomy
+async function hasUnknownTechnique(techniqueIds: number[] | undefined): Promise<boolean> {
+  if (!techniqueIds?.length) {
+    return false;
+  }
+  const known = new Set((await storage.getTechniques()).map(technique => technique.id));
+  return techniqueIds.some(id => !known.has(id));
+}
+
+// A revision as one side of a diff; tags are left out for revisions that predate tag snapshots
+function revisionDiffSide(revision: PromptRevision, techniques: PromptTechnique[]): DiffSide {
+  const techniqueIds = revision.techniqueIds;
+  return {
+    promptId: revision.promptId,
+    version: revision.version,
+    title: revision.title,
+    promptBodyText: revision.promptBodyText,
+    promptBodyJson: revision.promptBodyJson,
+    rationale: revision.rationale,
+    techniques: techniqueIds ? techniques.filter(technique => techniqueIds.includes(technique.id)) : undefined,
+  };
+}
+
+// Tags are versioned with the content, so changing them is an edit like PUT: approved prompts
+// get it as a pending revision and keep their live tags until it is approved
+async function retagPrompt(prompt: Prompt, editorId: string, retag: (techniqueIds: number[]) => number[]): Promise<Prompt | undefined> {
+  const pending = prompt.pendingVersion !== null
+    ? await storage.getPromptRevision(prompt.id, prompt.pendingVersion)
+    : undefined;
+  const current = pending?.techniqueIds ?? (await storage.getPromptTechniques(prompt.id)).map(technique => technique.id);
+  const data = { techniqueIds: retag(current), editSummary: "Changed technique tags" };
+  return prompt.status === 'approved'
+    ? await storage.proposePromptRevision(prompt.id, editorId, data)
+    : await storage.revisePrompt(prompt.id, editorId, data);
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Economy first: badge seeding and every handler read it
+  loadEconomy();
+
   // Auth middleware
   await setupAuth(app);
   
   // Initialize default badges on startup
   await initializeDefaultBadges();
+  await initializeDefaultReviewCriteria();
+  await storage.backfillPromptRevisions();
+  scheduleDraftCleanup();
+
+  // Reputation amounts and privilege thresholds in effect; the client loads this before rendering
+  app.get('/api/v1/economy', (_req, res) => {
+    res.json(getEconomy());
+  });
 
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
@@ -39,31 +138,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Prompts API - /api/v1/prompts
   app.get('/api/v1/prompts', async (req, res) => {
     try {
-      const { status, authorId, limit, offset } = req.query;
+      const { authorId } = req.query;
+      const { status, sort, window, ...page } = pageQuerySchema.extend({
+        status: z.enum(PROMPT_STATUSES).or(z.literal('')).optional(),
+        sort: z.enum(PROMPT_SORTS).default('new'),
+        window: z.enum(TOP_WINDOWS).default('all'),
+      }).parse(req.query);
+      // Drafts and prompts awaiting changes are the author's work in progress
+      if (status && isPrivatePromptStatus(status) && (!authorId || authorId !== viewerIdOf(req))) {
+        return res.status(403).json({ message: `Prompts in ${status} are only listed to their author` });
+      }
       // Default to 'approved' status if not specified
       const prompts = await storage.getPromptsWithTechniques({
-        status: (status as string) || 'approved',
+        status: status || 'approved',
         authorId: authorId as string,
-        limit: limit ? parseInt(limit as string) : undefined,
-        offset: offset ? parseInt(offset as string) : undefined,
-      });
+        sort,
+        window,
+      }, page);
       res.json(prompts);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error fetching prompts:", error);
-      res.status(500).json({ message: "Failed to fetch prompts" });
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch prompts" });
+    }
+  });
+
+  // Full-text search across prompts, rationales, comments and techniques
+  app.get('/api/v1/search', async (req, res) => {
+    try {
+      const querySchema = pageQuerySchema.extend({
+        q: z.string().trim().min(1, "Search query is required").max(200),
+        status: z.enum([...PROMPT_STATUSES, 'any']).default('approved'),
+        author: z.string().optional(),
+        technique: z.coerce.number().int().positive().optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+      });
+      const { q, status, author, technique, from, to, ...page } = querySchema.parse(req.query);
+      
+      let authorId: string | undefined;
+      if (author) {
+        const authorUser = await storage.getUserByUsername(author);
+        if (!authorUser) {
+          return res.json({ items: [], nextCursor: null, totalCount: 0 });
+        }
+        authorId = authorUser.id;
+      }
+      
+      const results = await storage.searchPrompts({
+        q,
+        status: status === 'any' ? undefined : status,
+        authorId,
+        viewerId: viewerIdOf(req),
+        techniqueId: technique,
+        from,
+        to,
+      }, page);
+      res.json(results);
+    } catch (error: any) {
+      console.error("Error searching prompts:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: error.message || "Failed to search prompts" });
     }
   });
 
   app.post('/api/v1/prompts', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      // Force pending_review status server-side for all new prompts
+      // New prompts go straight to pending_review unless the client asks for a draft (editors
+      // autosave into one and submit it later); the client never picks the status itself
+      const { draft, techniqueIds, ...promptData } = createPromptSchema.extend({
+        draft: z.boolean().default(false),
+      }).parse(req.body);
+      if (await hasUnknownTechnique(techniqueIds)) {
+        return res.status(400).json({ message: "Unknown technique" });
+      }
       const validatedData = insertPromptSchema.parse({
-        ...req.body,
+        ...promptData,
         authorId: userId,
-        status: 'pending_review', // Always set to pending_review regardless of client input
+        status: draft ? 'draft' : 'pending_review',
       });
-      const prompt = await storage.createPrompt(validatedData);
+      // Composer prompts always get their text from the graph
+      if (validatedData.promptBodyJson) {
+        validatedData.promptBodyText = compilePromptGraph(validatedData.promptBodyJson).text;
+      }
+      
+      // Drafts may be half-written; submitting one checks it instead
+      const undeclared = draft ? [] : findUndeclaredPlaceholders(validatedData.promptBodyText, validatedData.variables);
+      if (undeclared.length > 0) {
+        return res.status(400).json({ 
+          message: `Undeclared template variables: ${undeclared.join(', ')}`,
+          undeclaredVariables: undeclared,
+        });
+      }
+      
+      const prompt = await storage.createPrompt(validatedData, techniqueIds);
       res.status(201).json(prompt);
     } catch (error: any) {
       console.error("Error creating prompt:", error);
@@ -74,10 +243,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/v1/prompts/:id', async (req, res) => {
     try {
       const prompt = await storage.getPromptWithTechniques(req.params.id);
-      if (!prompt) {
+      if (!prompt || isHiddenFrom(prompt, viewerIdOf(req))) {
         return res.status(404).json({ message: "Prompt not found" });
       }
-      res.json(prompt);
+      const audit = await getOpenAuditFor(viewerIdOf(req), prompt.id);
+      res.json(audit ? disguiseAuditPrompt(prompt, audit) : prompt);
     } catch (error) {
       console.error("Error fetching prompt:", error);
       res.status(500).json({ message: "Failed to fetch prompt" });
@@ -97,18 +267,200 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized to edit this prompt" });
       }
       
-      const updated = await storage.updatePrompt(req.params.id, req.body);
+      if (prompt.status === 'archived') {
+        return res.status(409).json({ message: "Archived prompts cannot be edited" });
+      }
+      
+      const reviewBlock = underReviewBlock(prompt);
+      if (reviewBlock) {
+        return res.status(reviewBlock.status).json({ code: reviewBlock.code, message: reviewBlock.message });
+      }
+      
+      // Every edit bumps the version and writes an immutable revision, except that autosaves
+      // keep overwriting one working copy until the next manual save or submission. Status
+      // never changes here; see the lifecycle endpoints below
+      const { autosave, ...validatedData } = updatePromptSchema.extend({
+        autosave: z.boolean().default(false),
+      }).parse(req.body);
+      if (autosave && !canAutosave(prompt)) {
+        return res.status(409).json({ message: "Only drafts are autosaved; save this prompt explicitly" });
+      }
+      if (await hasUnknownTechnique(validatedData.techniqueIds)) {
+        return res.status(400).json({ message: "Unknown technique" });
+      }
+      
+      // Edits to an approved prompt build on its pending revision, if any
+      const current = prompt.pendingVersion !== null
+        ? (await storage.getPromptRevision(prompt.id, prompt.pendingVersion)) ?? prompt
+        : prompt;
+      
+      // While a prompt has a composer graph its text is derived, never edited directly
+      const graph = validatedData.promptBodyJson !== undefined
+        ? validatedData.promptBodyJson
+        : promptGraphSchema.safeParse(current.promptBodyJson).data;
+      if (graph) {
+        validatedData.promptBodyText = compilePromptGraph(graph).text;
+      }
+      
+      const undeclared = autosave ? [] : findUndeclaredPlaceholders(
+        validatedData.promptBodyText !== undefined ? validatedData.promptBodyText : current.promptBodyText,
+        validatedData.variables ?? current.variables,
+      );
+      if (undeclared.length > 0) {
+        return res.status(400).json({ 
+          message: `Undeclared template variables: ${undeclared.join(', ')}`,
+          undeclaredVariables: undeclared,
+        });
+      }
+      
+      // Approved content stays live; the edit waits as a pending revision only reviewers can promote
+      if (prompt.status === 'approved') {
+        const revised = await storage.proposePromptRevision(prompt.id, userId, validatedData, autosave);
+        if (!revised) {
+          return res.status(409).json({ message: "Prompt status changed while saving; please retry" });
+        }
+        return res.json(revised);
+      }
+      
+      const updated = await storage.revisePrompt(req.params.id, userId, validatedData, autosave);
+      if (!updated) {
+        return res.status(409).json({ message: "Prompt status changed while saving; please retry" });
+      }
       res.json(updated);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error updating prompt:", error);
-      res.status(500).json({ message: "Failed to update prompt" });
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: error.message || "Failed to update prompt" });
+    }
+  });
+
+  // The current user's drafts workspace: draft prompts (including forks) and draft edits of
+  // their approved prompts
+  app.get('/api/v1/drafts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const page = pageQuerySchema.parse(req.query);
+      const drafts = await storage.getDrafts(userId, page);
+      res.json(drafts);
+    } catch (error: any) {
+      console.error("Error fetching drafts:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch drafts" });
+    }
+  });
+
+  app.get('/api/v1/prompts/:id/revisions', async (req, res) => {
+    try {
+      const prompt = await storage.getPrompt(req.params.id);
+      if (!prompt || isHiddenFrom(prompt, viewerIdOf(req))) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      
+      const page = pageQuerySchema.parse(req.query);
+      const revisions = await storage.getPromptRevisions(req.params.id, page);
+      res.json(revisions);
+    } catch (error: any) {
+      console.error("Error fetching revisions:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch revisions" });
+    }
+  });
+
+  app.get('/api/v1/prompts/:id/revisions/:version', async (req, res) => {
+    try {
+      const version = parseInt(req.params.version);
+      if (isNaN(version)) {
+        return res.status(400).json({ message: "Invalid version" });
+      }
+      
+      const prompt = await storage.getPrompt(req.params.id);
+      if (!prompt || isHiddenFrom(prompt, viewerIdOf(req))) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      
+      const revision = await storage.getPromptRevision(prompt.id, version);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      console.error("Error fetching revision:", error);
+      res.status(500).json({ message: "Failed to fetch revision" });
+    }
+  });
+
+  // Compile a composer graph without saving, for live previews
+  app.post('/api/v1/compile', async (req, res) => {
+    try {
+      const graph = promptGraphSchema.parse(req.body.promptBodyJson);
+      const { text, variables } = compilePromptGraph(graph);
+      res.json({ promptBodyText: text, variables });
+    } catch (error: any) {
+      console.error("Error compiling prompt graph:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: error.message || "Failed to compile prompt" });
+    }
+  });
+
+  // Compare two revisions of a prompt (?from=&to=) or the prompt against another one (?compareTo=)
+  app.get('/api/v1/prompts/:id/diff', async (req, res) => {
+    try {
+      const viewerId = viewerIdOf(req);
+      const prompt = await storage.getPromptWithTechniques(req.params.id);
+      if (!prompt || isHiddenFrom(prompt, viewerId)) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      
+      const { from, to, compareTo } = req.query;
+      
+      if (compareTo) {
+        const other = await storage.getPromptWithTechniques(compareTo as string);
+        if (!other || isHiddenFrom(other, viewerId)) {
+          return res.status(404).json({ message: "Comparison prompt not found" });
+        }
+        const toSide = (p: typeof prompt): DiffSide => ({
+          promptId: p.id,
+          version: p.version,
+          title: p.title,
+          promptBodyText: p.promptBodyText,
+          promptBodyJson: p.promptBodyJson,
+          rationale: p.rationale,
+          techniques: p.techniques,
+        });
+        return res.json(diffPrompts(toSide(other), toSide(prompt)));
+      }
+      
+      const toVersion = to ? parseInt(to as string) : prompt.version;
+      const fromVersion = from ? parseInt(from as string) : toVersion - 1;
+      if (isNaN(toVersion) || isNaN(fromVersion) || fromVersion < 1) {
+        return res.status(400).json({ message: "Invalid revision range" });
+      }
+      
+      const [baseRevision, headRevision] = await Promise.all([
+        storage.getPromptRevision(prompt.id, fromVersion),
+        storage.getPromptRevision(prompt.id, toVersion),
+      ]);
+      if (!baseRevision || !headRevision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      const techniques = await storage.getTechniques();
+      res.json(diffPrompts(revisionDiffSide(baseRevision, techniques), revisionDiffSide(headRevision, techniques)));
+    } catch (error) {
+      console.error("Error computing prompt diff:", error);
+      res.status(500).json({ message: "Failed to compute diff" });
     }
   });
 
   app.post('/api/v1/prompts/:id/fork', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const forked = await storage.forkPrompt(req.params.id, userId);
+      const original = await storage.getPrompt(req.params.id);
+      if (!original || isHiddenFrom(original, userId)) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      
+      const forked = await storage.forkPrompt(original.id, userId);
       res.status(201).json(forked);
     } catch (error: any) {
       console.error("Error forking prompt:", error);
@@ -116,21 +468,465 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Fork family of a prompt: its ancestors and published descendants with votes and status
+  app.get('/api/v1/prompts/:id/lineage', async (req, res) => {
+    try {
+      const viewerId = viewerIdOf(req);
+      const lineage = await storage.getPromptLineage(req.params.id, viewerId);
+      if (!lineage || isHiddenFrom(lineage.prompt, viewerId)) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      res.json(lineage);
+    } catch (error) {
+      console.error("Error fetching prompt lineage:", error);
+      res.status(500).json({ message: "Failed to fetch lineage" });
+    }
+  });
+
+  // Change proposals API - /api/v1/change-proposals
+  // A fork's author asks the prompt it was forked from to adopt the fork's changes
+  app.post('/api/v1/change-proposals', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const validatedData = insertChangeProposalSchema.parse(req.body);
+      const result = await openChangeProposal(user, validatedData);
+      if ('refusal' in result) {
+        return res.status(result.refusal.status).json({ message: result.refusal.message });
+      }
+      res.status(201).json(result.proposal);
+    } catch (error: any) {
+      console.error("Error opening change proposal:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to open change proposal" });
+    }
+  });
+
+  app.get('/api/v1/change-proposals/:id', async (req, res) => {
+    try {
+      const proposalId = z.coerce.number().int().parse(req.params.id);
+      const proposal = await storage.getChangeProposal(proposalId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Change proposal not found" });
+      }
+      res.json(proposal);
+    } catch (error: any) {
+      console.error("Error fetching change proposal:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch change proposal" });
+    }
+  });
+
+  // Proposals made to this prompt and, for a fork, the ones it made upstream
+  app.get('/api/v1/prompts/:id/proposals', async (req, res) => {
+    try {
+      const page = pageQuerySchema.parse(req.query);
+      const proposals = await storage.getChangeProposalsForPrompt(req.params.id, page);
+      res.json(proposals);
+    } catch (error: any) {
+      console.error("Error fetching change proposals:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch change proposals" });
+    }
+  });
+
+  // Accepting merges the fork's current content into a new revision of the original prompt
+  const changeProposalActionHandler = (action: ChangeProposalAction) => async (req: any, res: any) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      const proposalId = z.coerce.number().int().parse(req.params.id);
+      const proposal = await storage.getChangeProposal(proposalId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Change proposal not found" });
+      }
+      
+      const { reason } = changeProposalResolutionSchema.parse(req.body ?? {});
+      const result = await applyChangeProposalAction(proposal, user, action, reason);
+      if ('refusal' in result) {
+        return res.status(result.refusal.status).json({ message: result.refusal.message });
+      }
+      res.json(result.proposal);
+    } catch (error: any) {
+      console.error(`Error applying change proposal action ${action}:`, error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : `Failed to ${action} change proposal` });
+    }
+  };
+  app.post('/api/v1/change-proposals/:id/accept', isAuthenticated, changeProposalActionHandler('accept'));
+  app.post('/api/v1/change-proposals/:id/decline', isAuthenticated, changeProposalActionHandler('decline'));
+  app.post('/api/v1/change-proposals/:id/withdraw', isAuthenticated, changeProposalActionHandler('withdraw'));
+
+  // Discussion, oldest first
+  app.get('/api/v1/change-proposals/:id/comments', async (req, res) => {
+    try {
+      const proposalId = z.coerce.number().int().parse(req.params.id);
+      const page = pageQuerySchema.parse(req.query);
+      const comments = await storage.getChangeProposalComments(proposalId, page);
+      res.json(comments);
+    } catch (error: any) {
+      console.error("Error fetching change proposal comments:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch comments" });
+    }
+  });
+
+  // Open to both parties and to reviewers; each party is notified of the other's comments
+  app.post('/api/v1/change-proposals/:id/comments', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      const proposalId = z.coerce.number().int().parse(req.params.id);
+      const proposal = await storage.getChangeProposal(proposalId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Change proposal not found" });
+      }
+      if (!canDiscussChangeProposal(proposal, user)) {
+        return res.status(403).json({ message: "Only the proposer, the original author and reviewers can discuss this proposal" });
+      }
+      if (proposal.status !== 'open') {
+        return res.status(409).json({ message: "This proposal has been resolved; its discussion is closed" });
+      }
+      
+      const { content } = insertChangeProposalCommentSchema.parse(req.body);
+      const comment = await storage.createChangeProposalComment({ proposalId, authorId: user.id, content });
+      
+      const recipients = new Set([proposal.proposerId, proposal.targetAuthorId]);
+      recipients.delete(user.id);
+      for (const recipientId of Array.from(recipients)) {
+        await storage.createNotification({
+          userId: recipientId,
+          type: 'change_proposal_comment',
+          message: `${user.username} commented on the proposal "${proposal.title}"`,
+          promptId: proposal.targetPromptId,
+        });
+      }
+      res.status(201).json(comment);
+    } catch (error: any) {
+      console.error("Error creating change proposal comment:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to create comment" });
+    }
+  });
+
+  // Suggested edits API - /api/v1/suggested-edits
+  // Anyone with SUGGEST_EDIT reputation can suggest changes to someone else's prompt
+  app.post('/api/v1/suggested-edits', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const validatedData = insertSuggestedEditSchema.parse(req.body);
+      const result = await suggestEdit(user, validatedData);
+      if ('refusal' in result) {
+        return res.status(result.refusal.status).json({ message: result.refusal.message });
+      }
+      res.status(201).json(result.edit);
+    } catch (error: any) {
+      console.error("Error suggesting edit:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to suggest edit" });
+    }
+  });
+
+  // Pending suggestions across all prompts, oldest first; separate from the prompt review queue
+  app.get('/api/v1/suggested-edits/queue', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !canReview(user.reputation)) {
+        return res.status(403).json({ message: "Insufficient reputation to review suggested edits" });
+      }
+      const suspension = reviewSuspensionBlock(user);
+      if (suspension) {
+        return res.status(suspension.status).json({ code: suspension.code, message: suspension.message });
+      }
+      
+      const page = pageQuerySchema.parse(req.query);
+      const queue = await storage.getSuggestedEditQueue(user.id, page);
+      res.json(queue);
+    } catch (error: any) {
+      console.error("Error fetching suggested edit queue:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch suggested edits" });
+    }
+  });
+
+  app.get('/api/v1/suggested-edits/:id', async (req, res) => {
+    try {
+      const editId = z.coerce.number().int().parse(req.params.id);
+      const edit = await storage.getSuggestedEdit(editId);
+      if (!edit) {
+        return res.status(404).json({ message: "Suggested edit not found" });
+      }
+      res.json(edit);
+    } catch (error: any) {
+      console.error("Error fetching suggested edit:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch suggested edit" });
+    }
+  });
+
+  // The suggestion applied to the prompt's current content (its pending revision, if any)
+  app.get('/api/v1/suggested-edits/:id/diff', async (req, res) => {
+    try {
+      const editId = z.coerce.number().int().parse(req.params.id);
+      const edit = await storage.getSuggestedEdit(editId);
+      if (!edit) {
+        return res.status(404).json({ message: "Suggested edit not found" });
+      }
+      const prompt = await storage.getPromptWithTechniques(edit.promptId);
+      if (!prompt) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      
+      const pending = prompt.pendingVersion !== null
+        ? await storage.getPromptRevision(prompt.id, prompt.pendingVersion)
+        : undefined;
+      const allTechniques = await storage.getTechniques();
+      const current = pending ?? prompt;
+      const base: DiffSide = {
+        promptId: prompt.id,
+        version: reviewVersionOf(prompt),
+        title: current.title,
+        promptBodyText: current.promptBodyText,
+        promptBodyJson: current.promptBodyJson,
+        rationale: current.rationale,
+        techniques: (pending && revisionDiffSide(pending, allTechniques).techniques) ?? prompt.techniques,
+      };
+      const techniques = edit.techniqueIds !== null
+        ? allTechniques.filter(technique => edit.techniqueIds?.includes(technique.id))
+        : base.techniques;
+      res.json(diffPrompts(base, {
+        ...base,
+        title: edit.title ?? base.title,
+        promptBodyText: edit.promptBodyText ?? base.promptBodyText,
+        rationale: edit.rationale ?? base.rationale,
+        techniques,
+      }));
+    } catch (error: any) {
+      console.error("Error computing suggested edit diff:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to compute diff" });
+    }
+  });
+
+  // Accepting applies the suggestion as a revision credited to the suggester
+  const suggestedEditActionHandler = (action: SuggestedEditAction) => async (req: any, res: any) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      const editId = z.coerce.number().int().parse(req.params.id);
+      const edit = await storage.getSuggestedEdit(editId);
+      if (!edit) {
+        return res.status(404).json({ message: "Suggested edit not found" });
+      }
+      
+      const { reason } = suggestedEditReviewSchema.parse(req.body ?? {});
+      const result = await reviewSuggestedEdit(edit, user, action, reason);
+      if ('refusal' in result) {
+        return res.status(result.refusal.status).json({ message: result.refusal.message });
+      }
+      res.json(result.edit);
+    } catch (error: any) {
+      console.error(`Error applying suggested edit action ${action}:`, error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : `Failed to ${action} suggested edit` });
+    }
+  };
+  app.post('/api/v1/suggested-edits/:id/accept', isAuthenticated, suggestedEditActionHandler('accept'));
+  app.post('/api/v1/suggested-edits/:id/reject', isAuthenticated, suggestedEditActionHandler('reject'));
+
+  app.get('/api/v1/prompts/:id/suggested-edits', async (req, res) => {
+    try {
+      const page = pageQuerySchema.parse(req.query);
+      const edits = await storage.getSuggestedEditsForPrompt(req.params.id, page);
+      res.json(edits);
+    } catch (error: any) {
+      console.error("Error fetching suggested edits:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch suggested edits" });
+    }
+  });
+
+  // Lifecycle actions - the only way authors and moderators change a prompt's status (see
+  // PROMPT_TRANSITIONS). Submitting a prompt that was sent back or rejected opens a new review
+  // round; /resubmit is kept as an alias of /submit
+  const promptActionHandler = (action: PromptAction) => async (req: any, res: any) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      const prompt = await storage.getPrompt(req.params.id);
+      if (!prompt) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      
+      const { reason } = promptTransitionRequestSchema.parse(req.body ?? {});
+      const result = await applyPromptAction(prompt, user, action, reason);
+      if ('refusal' in result) {
+        return res.status(result.refusal.status).json({ message: result.refusal.message });
+      }
+      res.json(result.prompt);
+    } catch (error: any) {
+      console.error(`Error applying prompt action ${action}:`, error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : `Failed to ${action} prompt` });
+    }
+  };
+  app.post(['/api/v1/prompts/:id/submit', '/api/v1/prompts/:id/resubmit'], isAuthenticated, promptActionHandler('submit'));
+  app.post('/api/v1/prompts/:id/withdraw', isAuthenticated, promptActionHandler('withdraw'));
+  app.post('/api/v1/prompts/:id/archive', isAuthenticated, promptActionHandler('archive'));
+
+  // Status history (including pending revisions), oldest first
+  app.get('/api/v1/prompts/:id/transitions', async (req, res) => {
+    try {
+      if (await getOpenAuditFor(viewerIdOf(req), req.params.id)) {
+        return res.json([]);
+      }
+      const transitions = await storage.getPromptTransitions(req.params.id);
+      res.json(transitions);
+    } catch (error) {
+      console.error("Error fetching prompt transitions:", error);
+      res.status(500).json({ message: "Failed to fetch status history" });
+    }
+  });
+
+  // Review conversation across all rounds, oldest first
+  app.get('/api/v1/prompts/:id/reviews', async (req, res) => {
+    try {
+      if (await getOpenAuditFor(viewerIdOf(req), req.params.id)) {
+        return res.json([]);
+      }
+      const reviews = await storage.getReviewsByPromptId(req.params.id);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching prompt reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
   // Reviews API - /api/v1/reviews
   app.get('/api/v1/reviews/queue', isAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
       
-      // Access control: Only users with 500+ reputation can access review queue
-      if (!user || user.reputation < 500) {
+      // Access control: Only users with review reputation can access review queue
+      if (!user || !canReview(user.reputation)) {
         return res.status(403).json({ message: "Insufficient reputation to access review queue" });
       }
+      const suspension = reviewSuspensionBlock(user);
+      if (suspension) {
+        return res.status(suspension.status).json({ code: suspension.code, message: suspension.message });
+      }
       
-      const queue = await storage.getReviewQueue();
+      const querySchema = pageQuerySchema.extend({
+        technique: z.coerce.number().int().positive().optional(),
+        firstTimeAuthor: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+      });
+      const { technique, firstTimeAuthor, ...page } = querySchema.parse(req.query);
+      const queue = await storage.getReviewQueue(user.id, { techniqueId: technique, firstTimeAuthor }, page);
+      
+      // Mix a due audit item into the first page, at a position that stays put on reload
+      if (!page.cursor) {
+        const auditItem = await getQueueAuditItem(user.id, { techniqueId: technique, firstTimeAuthor });
+        if (auditItem) {
+          const position = parseInt(auditItem.id.slice(0, 8), 16) % (queue.items.length + 1);
+          queue.items.splice(position, 0, auditItem);
+          queue.totalCount += 1;
+        }
+      }
       res.json(queue);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error fetching review queue:", error);
-      res.status(500).json({ message: "Failed to fetch review queue" });
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch review queue" });
+    }
+  });
+
+  // Time-boxed lock so two reviewers don't work on the same prompt; re-claiming extends it
+  app.post('/api/v1/reviews/queue/:promptId/claim', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      
+      if (!user || !canReview(user.reputation)) {
+        return res.status(403).json({ message: "Insufficient reputation to review" });
+      }
+      const suspension = reviewSuspensionBlock(user);
+      if (suspension) {
+        return res.status(suspension.status).json({ code: suspension.code, message: suspension.message });
+      }
+      
+      const prompt = await storage.getPrompt(req.params.promptId);
+      if (!prompt) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      
+      // Audit items are not really claimable; answer as if the claim succeeded
+      const auditAttempt = await storage.getOpenAuditAttempt(user.id, prompt.id);
+      if (auditAttempt) {
+        const claimedAt = new Date();
+        const expiresAt = new Date(claimedAt.getTime() + REVIEW_QUEUE.CLAIM_MINUTES * 60 * 1000);
+        return res.json({ promptId: prompt.id, reviewerId: user.id, claimedAt, expiresAt });
+      }
+      
+      const block = await checkReviewEligibility(prompt, user.id);
+      if (block) {
+        return res.status(block.status).json({ code: block.code, message: block.message });
+      }
+      
+      const claim = await storage.claimReview(prompt.id, user.id);
+      if (!claim) {
+        return res.status(409).json({ code: 'claimed', message: "Another reviewer has just claimed this prompt" });
+      }
+      res.json(claim);
+    } catch (error) {
+      console.error("Error claiming review:", error);
+      res.status(500).json({ message: "Failed to claim prompt" });
+    }
+  });
+
+  app.delete('/api/v1/reviews/queue/:promptId/claim', isAuthenticated, async (req: any, res) => {
+    try {
+      await storage.releaseReviewClaim(req.params.promptId, req.user.claims.sub);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error releasing review claim:", error);
+      res.status(500).json({ message: "Failed to release claim" });
+    }
+  });
+
+  // Hide a prompt from the reviewer's queue until its next review round
+  app.post('/api/v1/reviews/queue/:promptId/skip', isAuthenticated, async (req: any, res) => {
+    try {
+      const prompt = await storage.getPrompt(req.params.promptId);
+      if (!prompt) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      
+      // Skipping an audit item drops it without scoring
+      const auditAttempt = await storage.getOpenAuditAttempt(req.user.claims.sub, prompt.id);
+      if (auditAttempt) {
+        await storage.answerAuditAttempt(auditAttempt.id, null, null);
+        return res.status(204).send();
+      }
+      
+      await storage.skipReview(prompt.id, req.user.claims.sub, prompt.reviewRound);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error skipping review:", error);
+      res.status(500).json({ message: "Failed to skip prompt" });
     }
   });
 
@@ -139,34 +935,202 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
       
-      if (!user || user.reputation < 500) {
+      if (!user || !canReview(user.reputation)) {
         return res.status(403).json({ message: "Insufficient reputation to review" });
       }
+      const suspension = reviewSuspensionBlock(user);
+      if (suspension) {
+        return res.status(suspension.status).json({ code: suspension.code, message: suspension.message });
+      }
       
       const validatedData = insertReviewSchema.parse({
         ...req.body,
         reviewerId: userId,
       });
       
-      const review = await storage.createReview(validatedData);
+      const prompt = await storage.getPrompt(validatedData.promptId);
+      if (!prompt) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      
+      const rubricError = validateRubricScores(validatedData.scores, await storage.getReviewCriteria());
+      if (rubricError) {
+        return res.status(400).json({ message: rubricError });
+      }
       
-      // Update prompt status based on review
-      if (validatedData.vote === 'approve') {
-        await storage.updatePrompt(validatedData.promptId, { status: 'approved' });
-      } else {
-        await storage.updatePrompt(validatedData.promptId, { status: 'rejected' });
+      // Answers to audit items are scored against the audit; the real prompt is untouched
+      const auditAttempt = await storage.getOpenAuditAttempt(userId, prompt.id);
+      if (auditAttempt) {
+        const audit = await answerReviewAudit(auditAttempt, user, validatedData.vote);
+        return res.status(201).json({ review: null, tally: null, audit });
       }
       
-      // Handle reputation changes from review
-      await handleReviewSubmission(validatedData.promptId, userId, validatedData.vote);
+      const block = await checkReviewEligibility(prompt, userId);
+      if (block) {
+        return res.status(block.status).json({ code: block.code, message: block.message });
+      }
+      
+      const review = await storage.createReview({
+        ...validatedData,
+        round: prompt.reviewRound,
+        promptVersion: reviewVersionOf(prompt),
+      });
+      
+      await storage.releaseReviewClaim(prompt.id, userId);
       
-      res.status(201).json(review);
+      // Status only changes once enough reviewers agree (or one requests changes)
+      const tally = await applyReviewConsensus(prompt, userId);
+      
+      res.status(201).json({ review, tally });
     } catch (error: any) {
       console.error("Error creating review:", error);
+      // Unique (prompt, reviewer, version) index: a concurrent duplicate slipped past the guard
+      if (error.code === '23505') {
+        return res.status(409).json({ code: 'duplicate_review', message: "You have already reviewed this revision" });
+      }
       res.status(400).json({ message: error.message || "Failed to create review" });
     }
   });
 
+  // Review audits API - /api/v1/review-audits (moderators)
+  app.get('/api/v1/review-audits', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      
+      if (!user || !canModerate(user.reputation)) {
+        return res.status(403).json({ message: "Insufficient reputation to manage review audits" });
+      }
+      
+      const audits = await storage.getReviewAudits();
+      res.json(audits);
+    } catch (error) {
+      console.error("Error fetching review audits:", error);
+      res.status(500).json({ message: "Failed to fetch review audits" });
+    }
+  });
+
+  app.post('/api/v1/review-audits', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      
+      if (!user || !canModerate(user.reputation)) {
+        return res.status(403).json({ message: "Insufficient reputation to manage review audits" });
+      }
+      
+      const validatedData = insertReviewAuditSchema.parse(req.body);
+      const prompt = await storage.getPrompt(validatedData.promptId);
+      if (!prompt) {
+        return res.status(404).json({ message: "Prompt not found" });
+      }
+      if (prompt.status !== 'approved' && prompt.status !== 'rejected') {
+        return res.status(409).json({ message: "Only approved or rejected prompts can be used as audits" });
+      }
+      if (await storage.getReviewAuditByPromptId(prompt.id)) {
+        return res.status(409).json({ message: "This prompt is already a review audit" });
+      }
+      
+      const audit = await storage.createReviewAudit({
+        promptId: prompt.id,
+        expectedVote: validatedData.expectedVote ?? (prompt.status === 'approved' ? 'approve' : 'reject'),
+        createdBy: user.id,
+      });
+      res.status(201).json(audit);
+    } catch (error: any) {
+      console.error("Error creating review audit:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to create review audit" });
+    }
+  });
+
+  app.put('/api/v1/review-audits/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      
+      if (!user || !canModerate(user.reputation)) {
+        return res.status(403).json({ message: "Insufficient reputation to manage review audits" });
+      }
+      
+      const auditId = z.coerce.number().int().parse(req.params.id);
+      const { active } = z.object({ active: z.boolean() }).parse(req.body);
+      const audit = await storage.setReviewAuditActive(auditId, active);
+      if (!audit) {
+        return res.status(404).json({ message: "Review audit not found" });
+      }
+      res.json(audit);
+    } catch (error: any) {
+      console.error("Error updating review audit:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to update review audit" });
+    }
+  });
+
+  // Review rubric API - /api/v1/review-criteria
+  // Includes retired criteria (active: false) so historical scores can still be labelled
+  app.get('/api/v1/review-criteria', async (req, res) => {
+    try {
+      const criteria = await storage.getReviewCriteria();
+      res.json(criteria);
+    } catch (error) {
+      console.error("Error fetching review criteria:", error);
+      res.status(500).json({ message: "Failed to fetch review criteria" });
+    }
+  });
+
+  app.post('/api/v1/review-criteria', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      
+      if (!user || !canManageRubric(user.reputation)) {
+        return res.status(403).json({ message: "Insufficient reputation to manage the review rubric" });
+      }
+      
+      const validatedData = insertReviewCriterionSchema.parse(req.body);
+      const existing = await storage.getReviewCriteria();
+      if (existing.some(criterion => criterion.key === validatedData.key)) {
+        return res.status(409).json({ message: "A criterion with this key already exists" });
+      }
+      
+      const criterion = await storage.createReviewCriterion(validatedData);
+      res.status(201).json(criterion);
+    } catch (error: any) {
+      console.error("Error creating review criterion:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to create review criterion" });
+    }
+  });
+
+  app.put('/api/v1/review-criteria/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      
+      if (!user || !canManageRubric(user.reputation)) {
+        return res.status(403).json({ message: "Insufficient reputation to manage the review rubric" });
+      }
+      
+      const criterionId = z.coerce.number().int().parse(req.params.id);
+      const validatedData = updateReviewCriterionSchema.parse(req.body);
+      const criterion = await storage.updateReviewCriterion(criterionId, validatedData);
+      if (!criterion) {
+        return res.status(404).json({ message: "Review criterion not found" });
+      }
+      res.json(criterion);
+    } catch (error: any) {
+      console.error("Error updating review criterion:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to update review criterion" });
+    }
+  });
+
+  app.get('/api/v1/prompts/:id/rubric-scores', async (req, res) => {
+    try {
+      const summary = await storage.getPromptRubricSummary(req.params.id);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching prompt rubric scores:", error);
+      res.status(500).json({ message: "Failed to fetch rubric scores" });
+    }
+  });
+
   // Votes API - /api/v1/votes
   app.post('/api/v1/votes', isAuthenticated, async (req: any, res) => {
     try {
@@ -183,36 +1147,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       // Check reputation-based permissions
-      if (validatedData.voteType === 'upvote' && user.reputation < 15) {
+      const { thresholds } = getEconomy();
+      if (validatedData.voteType === 'upvote' && !canUpvote(user.reputation)) {
         return res.status(403).json({ 
-          message: "You need 15 reputation to upvote",
-          requiredReputation: 15,
+          message: `You need ${thresholds.UPVOTE} reputation to upvote`,
+          requiredReputation: thresholds.UPVOTE,
           currentReputation: user.reputation
         });
       }
       
-      if (validatedData.voteType === 'downvote' && user.reputation < 125) {
+      if (validatedData.voteType === 'downvote' && !canDownvote(user.reputation)) {
         return res.status(403).json({ 
-          message: "You need 125 reputation to downvote",
-          requiredReputation: 125,
+          message: `You need ${thresholds.DOWNVOTE} reputation to downvote`,
+          requiredReputation: thresholds.DOWNVOTE,
           currentReputation: user.reputation
         });
       }
       
-      // Check for existing vote to handle vote changes
-      const existingVote = await storage.getUserVoteForPrompt(userId, validatedData.promptId);
-      
-      const vote = await storage.createVote(validatedData);
-      
-      // Handle reputation changes
-      await handlePromptVote(
-        validatedData.promptId, 
-        validatedData.voteType,
-        userId,
-        existingVote?.voteType as 'upvote' | 'downvote' | undefined
-      );
+      // Records the vote and settles reputation against the user's previous vote
+      const result = await handlePromptVote(validatedData);
+      if ('refusal' in result) {
+        return res.status(result.refusal.status).json({ message: result.refusal.message });
+      }
       
-      res.status(201).json(vote);
+      res.status(201).json(result.vote);
     } catch (error: any) {
       console.error("Error creating vote:", error);
       res.status(400).json({ message: error.message || "Failed to create vote" });
@@ -222,7 +1180,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete('/api/v1/votes/:promptId', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      await storage.deleteVote(userId, req.params.promptId);
+      // Reverses the vote's reputation; retracting a vote that does not exist is a no-op
+      await handleVoteRetraction(userId, req.params.promptId);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting vote:", error);
@@ -232,6 +1191,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/v1/prompts/:id/votes', async (req, res) => {
     try {
+      if (await getOpenAuditFor(viewerIdOf(req), req.params.id)) {
+        return res.json({ upvotes: 0, downvotes: 0, total: 0 });
+      }
       const voteCount = await storage.getVoteCount(req.params.id);
       res.json(voteCount);
     } catch (error) {
@@ -262,10 +1224,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check reputation-based permission
-      if (user.reputation < 50) {
+      if (!canComment(user.reputation)) {
+        const required = getEconomy().thresholds.COMMENT;
         return res.status(403).json({ 
-          message: "You need 50 reputation to comment",
-          requiredReputation: 50,
+          message: `You need ${required} reputation to comment`,
+          requiredReputation: required,
           currentReputation: user.reputation
         });
       }
@@ -285,11 +1248,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/v1/prompts/:id/comments', async (req, res) => {
     try {
-      const comments = await storage.getCommentsByPromptId(req.params.id);
+      const page = pageQuerySchema.parse(req.query);
+      if (await getOpenAuditFor(viewerIdOf(req), req.params.id)) {
+        return res.json({ items: [], nextCursor: null, totalCount: 0 });
+      }
+      const comments = await storage.getCommentsByPromptId(req.params.id, page);
       res.json(comments);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error fetching comments:", error);
-      res.status(500).json({ message: "Failed to fetch comments" });
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch comments" });
+    }
+  });
+
+  // Notifications API - /api/v1/notifications
+  app.get('/api/v1/notifications', isAuthenticated, async (req: any, res) => {
+    try {
+      const page = pageQuerySchema.parse(req.query);
+      const notifications = await storage.getNotifications(req.user.claims.sub, page);
+      res.json(notifications);
+    } catch (error: any) {
+      console.error("Error fetching notifications:", error);
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch notifications" });
+    }
+  });
+
+  app.get('/api/v1/notifications/unread-count', isAuthenticated, async (req: any, res) => {
+    try {
+      const count = await storage.getUnreadNotificationCount(req.user.claims.sub);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error counting notifications:", error);
+      res.status(500).json({ message: "Failed to count notifications" });
+    }
+  });
+
+  app.post('/api/v1/notifications/read-all', isAuthenticated, async (req: any, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user.claims.sub);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  app.post('/api/v1/notifications/:id/read', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid notification id" });
+      }
+      
+      const notification = await storage.markNotificationRead(id, req.user.claims.sub);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to mark notification read" });
     }
   });
 
@@ -312,11 +1331,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/v1/users/:id/reputation', async (req, res) => {
     try {
-      const history = await storage.getReputationHistory(req.params.id);
+      const page = pageQuerySchema.parse(req.query);
+      const history = await storage.getReputationHistory(req.params.id, page);
       res.json(history);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error fetching reputation history:", error);
-      res.status(500).json({ message: "Failed to fetch reputation history" });
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch reputation history" });
+    }
+  });
+
+  // Replays the reputation log to find (and with apply, repair) counters that drifted from it
+  app.post('/api/v1/reputation/recompute', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      
+      if (!user || !canModerate(user.reputation)) {
+        return res.status(403).json({ message: "Insufficient reputation to recompute reputation" });
+      }
+      
+      const options = reputationRecomputeSchema.parse(req.body);
+      const report = await recomputeReputation(options);
+      res.json(report);
+    } catch (error: any) {
+      console.error("Error recomputing reputation:", error);
+      // 40001: reputation moved under the recompute's snapshot; running it again picks that up
+      if (error.code === '40001') {
+        return res.status(409).json({ message: "Reputation changed while recomputing; run it again" });
+      }
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to recompute reputation" });
     }
   });
 
@@ -332,11 +1376,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/v1/users/:id/reviews', async (req, res) => {
     try {
-      const reviews = await storage.getReviewsByReviewerId(req.params.id);
+      const page = pageQuerySchema.parse(req.query);
+      const reviews = await storage.getReviewsByReviewerId(req.params.id, page);
       res.json(reviews);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error fetching user reviews:", error);
-      res.status(500).json({ message: "Failed to fetch reviews" });
+      const statusCode = error.name === 'ZodError' ? 400 : 500;
+      res.status(statusCode).json({ message: statusCode === 400 ? error.message : "Failed to fetch reviews" });
+    }
+  });
+
+  // Rubric averages across reviews of everything this user authored
+  app.get('/api/v1/users/:id/rubric-scores', async (req, res) => {
+    try {
+      const summary = await storage.getAuthorRubricSummary(req.params.id);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching author rubric scores:", error);
+      res.status(500).json({ message: "Failed to fetch rubric scores" });
     }
   });
 
@@ -365,8 +1422,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const user = await storage.getUser(req.user.claims.sub);
       
-      // Only allow moderators (reputation > 2000) to create techniques
-      if (!user || user.reputation < 2000) {
+      // Only allow moderators to create techniques
+      if (!user || !canModerate(user.reputation)) {
         return res.status(403).json({ message: "Insufficient reputation to create techniques" });
       }
       
@@ -410,8 +1467,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized: You can only add techniques to your own prompts" });
       }
       
-      const link = await storage.linkPromptToTechnique(promptId, techniqueId);
-      res.status(201).json(link);
+      if (prompt.status === 'archived') {
+        return res.status(409).json({ message: "Archived prompts cannot be edited" });
+      }
+      
+      const reviewBlock = underReviewBlock(prompt);
+      if (reviewBlock) {
+        return res.status(reviewBlock.status).json({ code: reviewBlock.code, message: reviewBlock.message });
+      }
+      
+      if (await hasUnknownTechnique([techniqueId])) {
+        return res.status(400).json({ message: "Unknown technique" });
+      }
+      
+      const updated = await retagPrompt(prompt, userId, ids => ids.includes(techniqueId) ? ids : [...ids, techniqueId]);
+      if (!updated) {
+        return res.status(409).json({ message: "Prompt status changed while saving; please retry" });
+      }
+      res.status(201).json(updated);
     } catch (error: any) {
       console.error("Error linking technique to prompt:", error);
       const statusCode = error.name === 'ZodError' ? 400 : 500;
@@ -435,7 +1508,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized: You can only remove techniques from your own prompts" });
       }
       
-      await storage.unlinkPromptFromTechnique(promptId, techniqueId);
+      if (prompt.status === 'archived') {
+        return res.status(409).json({ message: "Archived prompts cannot be edited" });
+      }
+      
+      const reviewBlock = underReviewBlock(prompt);
+      if (reviewBlock) {
+        return res.status(reviewBlock.status).json({ code: reviewBlock.code, message: reviewBlock.message });
+      }
+      
+      const updated = await retagPrompt(prompt, userId, ids => ids.filter(id => id !== techniqueId));
+      if (!updated) {
+        return res.status(409).json({ message: "Prompt status changed while saving; please retry" });
+      }
       res.status(204).send();
     } catch (error: any) {
       console.error("Error unlinking technique from prompt:", error);
@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { promptRevisions, reviewClaims, users, type Prompt, type TransitionActor } from "@shared/schema";
+import { db, resetDatabase } from "./testDatabase";
+import { storage } from "./storage";
+
+vi.mock("./db", () => import("./testDatabase"));
+
+const author: TransitionActor = { id: "author", role: 'author' };
+const pipeline: TransitionActor = { id: null, role: 'review' };
+
+describe("pending revisions", () => {
+  let prompt: Prompt;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values({ id: "author", username: "author" });
+    prompt = await storage.createPrompt({
+      authorId: "author",
+      title: "Prompt",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "approved",
+      variables: [],
+    });
+  });
+
+  async function proposeAndReject(title: string) {
+    const proposed = await storage.proposePromptRevision(prompt.id, "author", { title });
+    expect(proposed?.pendingStatus).toBe('draft');
+    await storage.transitionPendingRevision(prompt.id, 'draft', 'pending_review', author);
+    const rejected = await storage.transitionPendingRevision(prompt.id, 'pending_review', 'rejected', pipeline);
+    expect(rejected?.pendingVersion).toBeNull();
+    return proposed!.pendingVersion;
+  }
+
+  it("numbers a new edit after a rejected revision instead of reusing its version", async () => {
+    expect(await proposeAndReject("First try")).toBe(2);
+    expect(await proposeAndReject("Second try")).toBe(3);
+
+    const edited = await storage.proposePromptRevision(prompt.id, "author", { title: "Third try" });
+    expect(edited?.pendingVersion).toBe(4);
+    expect((await storage.getPromptRevision(prompt.id, 2))?.title).toBe("First try");
+    expect((await storage.getPromptRevision(prompt.id, 4))?.title).toBe("Third try");
+  });
+
+  it("promotes a revision proposed after a rejection", async () => {
+    await proposeAndReject("Rejected");
+    await storage.proposePromptRevision(prompt.id, "author", { title: "Accepted" });
+    await storage.transitionPendingRevision(prompt.id, 'draft', 'pending_review', author);
+    const approved = await storage.transitionPendingRevision(prompt.id, 'pending_review', 'approved', pipeline);
+
+    expect(approved).toMatchObject({ title: "Accepted", version: 3, pendingVersion: null });
+  });
+
+  it("keeps tag changes pending with the revision until it is approved", async () => {
+    const technique = await storage.createTechnique({ name: "Few-shot", description: "Examples" });
+    await storage.proposePromptRevision(prompt.id, "author", { techniqueIds: [technique.id] });
+
+    expect(await storage.getPromptTechniques(prompt.id)).toEqual([]);
+    expect((await storage.getPromptRevision(prompt.id, 1))?.techniqueIds).toEqual([]);
+    expect((await storage.getPromptRevision(prompt.id, 2))?.techniqueIds).toEqual([technique.id]);
+
+    await storage.transitionPendingRevision(prompt.id, 'draft', 'pending_review', author);
+    await storage.transitionPendingRevision(prompt.id, 'pending_review', 'approved', pipeline);
+    expect(await storage.getPromptTechniques(prompt.id)).toEqual([technique]);
+  });
+
+  it("leaves a revision under review untouched", async () => {
+    await storage.proposePromptRevision(prompt.id, "author", { title: "Submitted" });
+    await storage.transitionPendingRevision(prompt.id, 'draft', 'pending_review', author);
+
+    expect(await storage.proposePromptRevision(prompt.id, "author", { title: "Changed mid-review" })).toBeUndefined();
+    expect((await storage.getPromptRevision(prompt.id, 2))?.title).toBe("Submitted");
+  });
+});
+
+describe("revision backfill", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values({ id: "author", username: "author" });
+  });
+
+  it("records the live content of prompts that have no revision for it, once", async () => {
+    const prompt = await storage.createPrompt({
+      authorId: "author",
+      title: "Legacy",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "approved",
+      variables: [],
+    });
+    await db.delete(promptRevisions);
+
+    expect(await storage.backfillPromptRevisions()).toBe(1);
+    expect(await storage.backfillPromptRevisions()).toBe(0);
+    expect(await storage.getPromptRevision(prompt.id, 1)).toMatchObject({ title: "Legacy", editorId: "author", techniqueIds: [] });
+  });
+
+  it("records the live tags on revisions written before tags were snapshotted", async () => {
+    const technique = await storage.createTechnique({ name: "Chain of thought", description: "Reasoning" });
+    const prompt = await storage.createPrompt({
+      authorId: "author",
+      title: "Tagged",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "approved",
+      variables: [],
+    }, [technique.id]);
+    await db.update(promptRevisions).set({ techniqueIds: null });
+
+    expect(await storage.backfillPromptRevisions()).toBe(1);
+    expect((await storage.getPromptRevision(prompt.id, 1))?.techniqueIds).toEqual([technique.id]);
+  });
+});
+
+describe("prompt search", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values([{ id: "author", username: "author" }, { id: "other", username: "other" }]);
+    await storage.createPrompt({
+      authorId: "author",
+      title: "Unfinished tokenizer prompt",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "draft",
+      variables: [],
+    });
+  });
+
+  it("only finds a draft for its author", async () => {
+    const search = (viewerId?: string) => storage.searchPrompts({ q: "tokenizer", viewerId });
+
+    expect((await search()).items).toEqual([]);
+    expect((await search("other")).items).toEqual([]);
+    expect((await search("author")).items.map(result => result.title)).toEqual(["Unfinished tokenizer prompt"]);
+  });
+});
+
+describe("prompt edits", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values({ id: "author", username: "author" });
+  });
+
+  it("leaves a prompt under review untouched", async () => {
+    const prompt = await storage.createPrompt({
+      authorId: "author",
+      title: "Submitted",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "pending_review",
+      variables: [],
+    });
+
+    expect(await storage.revisePrompt(prompt.id, "author", { title: "Changed mid-review" })).toBeUndefined();
+    expect(await storage.getPrompt(prompt.id)).toMatchObject({ title: "Submitted", version: 1 });
+  });
+});
+
+describe("prompt lineage", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values([{ id: "author", username: "author" }, { id: "other", username: "other" }]);
+  });
+
+  it("reduces someone else's private ancestors to placeholders and leaves private forks out", async () => {
+    const content = { promptBodyText: "Body", rationale: "Rationale", variables: [] };
+    const root = await storage.createPrompt({ ...content, authorId: "author", title: "Root draft", status: "draft" });
+    const fork = await storage.createPrompt({ ...content, authorId: "other", title: "Fork", status: "approved", parentPromptId: root.id });
+    await storage.createPrompt({ ...content, authorId: "author", title: "Fork of fork", status: "needs_changes", parentPromptId: fork.id });
+
+    const seenByOther = await storage.getPromptLineage(fork.id, "other");
+    expect(seenByOther?.ancestors).toEqual([{ id: root.id, parentPromptId: null, hidden: true }]);
+    expect(seenByOther?.descendants).toEqual([]);
+
+    const seenByAuthor = await storage.getPromptLineage(fork.id, "author");
+    expect(seenByAuthor?.ancestors).toEqual([expect.objectContaining({ id: root.id, title: "Root draft" })]);
+  });
+});
+
+describe("review claims", () => {
+  let prompt: Prompt;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values([
+      { id: "author", username: "author" },
+      { id: "r1", username: "r1", reputation: 500 },
+      { id: "r2", username: "r2", reputation: 500 },
+    ]);
+    prompt = await storage.createPrompt({
+      authorId: "author",
+      title: "Prompt",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "pending_review",
+      variables: [],
+    });
+  });
+
+  it("locks the prompt to one reviewer until the claim expires", async () => {
+    const claim = await storage.claimReview(prompt.id, "r1");
+    expect(claim?.reviewerId).toBe("r1");
+    expect(await storage.claimReview(prompt.id, "r2")).toBeUndefined();
+    expect((await storage.getReviewQueue("r1")).items[0]).toMatchObject({ id: prompt.id, claimExpiresAt: claim!.expiresAt });
+    expect((await storage.getReviewQueue("r2")).items).toEqual([]);
+
+    await db.update(reviewClaims).set({ expiresAt: new Date(Date.now() - 1000) });
+    expect((await storage.getReviewQueue("r2")).items.map(item => item.id)).toEqual([prompt.id]);
+    expect((await storage.claimReview(prompt.id, "r2"))?.reviewerId).toBe("r2");
+  });
+});
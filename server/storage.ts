@@ -4,16 +4,32 @@ import {
   prompts,
   reviews,
   votes,
+  voteCasts,
   comments,
   reputationEvents,
   badges,
   userBadges,
   promptTechniques,
   promptTechniqueLinks,
+  promptRevisions,
+  promptTransitions,
+  notifications,
+  reviewCriteria,
+  reviewScores,
+  reviewClaims,
+  reviewSkips,
+  reviewAudits,
+  reviewAuditAttempts,
+  changeProposals,
+  changeProposalComments,
+  suggestedEdits,
+  promptSearchDocument,
   type User,
   type UpsertUser,
   type Prompt,
   type InsertPrompt,
+  type UpdatePrompt,
+  type PromptRevision,
   type Review,
   type InsertReview,
   type Vote,
@@ -26,49 +42,447 @@ import {
   type InsertBadge,
   type PromptTechnique,
   type InsertPromptTechnique,
-  type PromptTechniqueLink,
   type UserBadge,
+  type SearchResult,
+  type PromptSort,
+  type TopWindow,
+  type PromptWithStats,
+  type Page,
+  type ReviewQueueItem,
+  type ReviewWithReviewer,
+  type Notification,
+  type InsertNotification,
+  type ReviewCriterion,
+  type InsertReviewCriterion,
+  type UpdateReviewCriterion,
+  type ReviewScore,
+  type ReviewWithScores,
+  type RubricScoreSummary,
+  type ReviewClaim,
+  type ReviewQueueFilters,
+  type ReviewAudit,
+  type ReviewAuditAttempt,
+  type ReviewAuditWithStats,
+  type PromptStatus,
+  type PendingRevisionStatus,
+  type PromptTransition,
+  type TransitionActor,
+  type LineageNode,
+  type PromptLineage,
+  type ChangeProposal,
+  type ChangeProposalStatus,
+  type ChangeProposalWithPrompts,
+  type ChangeProposalComment,
+  type SuggestedEdit,
+  type SuggestedEditStatus,
+  type SuggestedEditWithPrompt,
+  LINEAGE,
+  PRIVATE_PROMPT_STATUSES,
+  isHiddenFrom,
+  REVIEW_CONFLICT_RULES,
+  REVIEW_QUEUE,
+  reviewVersionOf,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc, sql, inArray } from "drizzle-orm";
+import type * as schema from "@shared/schema";
+import { db as defaultDb } from "./db";
+import { eq, ne, and, or, desc, sql, inArray, notInArray, gte, lte, isNull, getTableColumns, type ExtractTablesWithRelations, type SQL } from "drizzle-orm";
+import { alias, type PgDatabase, type PgTransactionConfig } from "drizzle-orm/pg-core";
+import type { NeonQueryResultHKT } from "drizzle-orm/neon-serverless";
+import {
+  cursorValues,
+  keysetCondition,
+  keysetOrderBy,
+  pageLimit,
+  toPage,
+  type PageOptions,
+  type SortDirection,
+  type SortKey,
+} from "./pagination";
+
+export interface SearchFilters {
+  q: string;
+  status?: PromptStatus;
+  authorId?: string;
+  viewerId?: string; // Signed-in user, whose own drafts and prompts awaiting changes also match
+  techniqueId?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export interface PromptFilters {
+  status?: PromptStatus;
+  authorId?: string;
+  sort?: PromptSort;
+  window?: TopWindow; // Only applies to sort=top
+}
+
+// A user whose reputation counter differs from the sum of their reputation events
+export interface ReputationDrift {
+  userId: string;
+  username: string;
+  reputation: number;
+  ledgerTotal: number;
+}
+
+// Queries a vote's settlement can make inside its transaction, once the voter and author are locked
+export interface VoteLedger {
+  // Net reputation the user received since the start of the UTC day from these event types
+  earnedToday(userId: string, eventTypes: readonly string[]): Promise<number>;
+  // New votes the user cast since the start of the UTC day, including ones since retracted;
+  // changing a vote does not count
+  votesCastToday(userId: string): Promise<number>;
+}
+
+export interface VoteSettlement {
+  events: InsertReputationEvent[];
+  cappedAmount: number;
+}
+
+export interface ReputationEventTotal {
+  userId: string;
+  promptId: string | null;
+  total: number;
+}
+
+const TOP_WINDOW_MS: Record<TopWindow, number | null> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  all: null,
+};
+
+// Drizzle renders columns unqualified in a single-table select list, which would bind
+// "id" inside a correlated subquery to the inner table; name the outer row explicitly
+const outerPromptId = sql`${prompts}.${sql.identifier(prompts.id.name)}`;
+const outerReviewRound = sql`${prompts}.${sql.identifier(prompts.reviewRound.name)}`;
+const outerPromptVersion = sql`${prompts}.${sql.identifier(prompts.version.name)}`;
+const outerPendingVersion = sql`${prompts}.${sql.identifier(prompts.pendingVersion.name)}`;
+const outerAuthorId = sql`${prompts}.${sql.identifier(prompts.authorId.name)}`;
+const outerSubmittedAt = sql`${prompts}.${sql.identifier(prompts.submittedAt.name)}`;
+const outerUserId = sql`${users}.${sql.identifier(users.id.name)}`;
+
+const ledgerTotal = sql<number>`coalesce((select sum(${reputationEvents.changeAmount}) from ${reputationEvents} where ${reputationEvents.userId} = ${outerUserId}), 0)`.mapWith(Number);
+
+// A fork (child) joined to the prompt it was forked from (parent). Raw sql renders an alias
+// by its name only, so fragments must write `${prompts} ${forkChild}` in their from clause.
+const forkChild = alias(prompts, 'fork_child');
+const forkParent = alias(prompts, 'fork_parent');
+// Other prompts by the same author, e.g. to tell whether they have had anything approved
+const authorPrompt = alias(prompts, 'author_prompt');
+
+// The connection, or a transaction on it for a storage made by transaction()
+type Database = PgDatabase<NeonQueryResultHKT, typeof schema, ExtractTablesWithRelations<typeof schema>>;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+// Writes reputation events and moves users.reputation by the same amounts, inside the caller's
+// transaction. Events whose idempotency key was already recorded are skipped along with their
+// amounts. Users are updated in id order so concurrent ledgers cannot deadlock.
+async function applyReputationEvents(tx: Transaction, events: InsertReputationEvent[]): Promise<ReputationEvent[]> {
+  if (events.length === 0) {
+    return [];
+  }
+  const recorded = await tx
+    .insert(reputationEvents)
+    .values(events)
+    .onConflictDoNothing({ target: reputationEvents.idempotencyKey })
+    .returning();
+
+  const totals = new Map<string, number>();
+  for (const event of recorded) {
+    totals.set(event.userId, (totals.get(event.userId) ?? 0) + event.changeAmount);
+  }
+  for (const userId of Array.from(totals.keys()).sort()) {
+    await tx
+      .update(users)
+      .set({
+        reputation: sql`${users.reputation} + ${totals.get(userId)!}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+  return recorded;
+}
+
+// Locks the prompt, then its author and the voter in id order (the order ledgers update users
+// in), and returns the voter's current vote on it
+async function lockVote(tx: Transaction, userId: string, promptId: string): Promise<Vote | undefined> {
+  const [prompt] = await tx
+    .select({ authorId: prompts.authorId })
+    .from(prompts)
+    .where(eq(prompts.id, promptId))
+    .for('update');
+  await tx
+    .select({ id: users.id })
+    .from(users)
+    .where(inArray(users.id, prompt ? [userId, prompt.authorId] : [userId]))
+    .orderBy(users.id)
+    .for('update');
+  const [vote] = await tx
+    .select()
+    .from(votes)
+    .where(and(eq(votes.userId, userId), eq(votes.promptId, promptId)));
+  return vote;
+}
+
+// Technique tags are versioned with the content: each revision snapshots the set, and the live
+// links change only where the live content does
+async function replaceTechniqueLinks(tx: Transaction, promptId: string, techniqueIds: number[]): Promise<void> {
+  await tx.delete(promptTechniqueLinks).where(eq(promptTechniqueLinks.promptId, promptId));
+  if (techniqueIds.length > 0) {
+    await tx
+      .insert(promptTechniqueLinks)
+      .values(techniqueIds.map(techniqueId => ({ promptId, techniqueId })))
+      .onConflictDoNothing();
+  }
+}
+
+async function linkedTechniqueIds(tx: Transaction, promptId: string): Promise<number[]> {
+  const links = await tx
+    .select({ techniqueId: promptTechniqueLinks.techniqueId })
+    .from(promptTechniqueLinks)
+    .where(eq(promptTechniqueLinks.promptId, promptId))
+    .orderBy(promptTechniqueLinks.techniqueId);
+  return links.map(link => link.techniqueId);
+}
+
+const startOfUtcDay = sql`(date_trunc('day', now() at time zone 'UTC') at time zone 'UTC')`;
+
+function voteLedger(tx: Transaction): VoteLedger {
+  return {
+    async earnedToday(userId, eventTypes) {
+      const [row] = await tx
+        .select({ total: sql<number>`coalesce(sum(${reputationEvents.changeAmount}), 0)`.mapWith(Number) })
+        .from(reputationEvents)
+        .where(and(
+          eq(reputationEvents.userId, userId),
+          inArray(reputationEvents.eventType, [...eventTypes]),
+          gte(reputationEvents.createdAt, startOfUtcDay),
+        ));
+      return row.total;
+    },
+    async votesCastToday(userId) {
+      return await tx.$count(voteCasts, and(eq(voteCasts.userId, userId), gte(voteCasts.createdAt, startOfUtcDay)));
+    },
+  };
+}
+
+// Either user has forked a prompt written by the other
+function forkRelationshipCondition(userA: SQL | string, userB: SQL | string): SQL {
+  return sql`((${forkChild.authorId} = ${userA} and ${forkParent.authorId} = ${userB})
+    or (${forkChild.authorId} = ${userB} and ${forkParent.authorId} = ${userA}))`;
+}
+
+// Correlated per-prompt aggregates used to rank the library
+const upvoteCount = sql<number>`(select count(*) from ${votes} where ${votes.promptId} = ${outerPromptId} and ${votes.voteType} = 'upvote')`;
+const downvoteCount = sql<number>`(select count(*) from ${votes} where ${votes.promptId} = ${outerPromptId} and ${votes.voteType} = 'downvote')`;
+const commentCount = sql<number>`(select count(*) from ${comments} where ${comments.promptId} = ${outerPromptId})`;
+const lastCommentAt = sql`(select max(${comments.createdAt}) from ${comments} where ${comments.promptId} = ${outerPromptId})`;
+
+// Reddit-style hot score: log-scaled engagement (a comment counts half a vote) plus
+// creation time, so each 12.5 hours of age is worth one order of magnitude of score
+const hotScore = sql`(
+  sign(${upvoteCount} - ${downvoteCount} + ${commentCount} * 0.5)
+  * log(greatest(abs(${upvoteCount} - ${downvoteCount} + ${commentCount} * 0.5), 1))
+  + extract(epoch from ${prompts.createdAt}) / 45000
+)`;
+
+// Many votes, evenly split: total volume raised to the balance ratio
+const controversyScore = sql`(case
+  when ${upvoteCount} = 0 or ${downvoteCount} = 0 then 0
+  else power(${upvoteCount} + ${downvoteCount},
+    least(${upvoteCount}, ${downvoteCount})::float8 / greatest(${upvoteCount}, ${downvoteCount}))
+end)`;
+
+// A change proposal with the titles of both prompts and the size of its discussion
+const sourcePrompt = alias(prompts, 'source_prompt');
+const targetPrompt = alias(prompts, 'target_prompt');
+const changeProposalColumns = {
+  ...getTableColumns(changeProposals),
+  sourceTitle: sourcePrompt.title,
+  targetTitle: targetPrompt.title,
+  targetAuthorId: targetPrompt.authorId,
+  commentCount: sql<number>`(select count(*) from ${changeProposalComments} where ${changeProposalComments.proposalId} = ${changeProposals.id})`.mapWith(Number),
+};
+
+// A suggested edit with the prompt it changes
+const suggestedEditColumns = {
+  ...getTableColumns(suggestedEdits),
+  promptTitle: prompts.title,
+  promptAuthorId: prompts.authorId,
+  promptVersion: sql<number>`coalesce(${prompts.pendingVersion}, ${prompts.version})`.mapWith(Number),
+};
+
+// A prompt as a node of its fork family, with its votes and direct forks
+const lineageColumns = {
+  id: prompts.id,
+  title: prompts.title,
+  authorId: prompts.authorId,
+  status: prompts.status,
+  version: prompts.version,
+  parentPromptId: prompts.parentPromptId,
+  createdAt: prompts.createdAt,
+  upvotes: sql<number>`${upvoteCount}`.mapWith(Number),
+  downvotes: sql<number>`${downvoteCount}`.mapWith(Number),
+  voteCount: sql<number>`(${upvoteCount} - ${downvoteCount})`.mapWith(Number),
+  forkCount: sql<number>`(select count(*) from ${prompts} ${forkChild} where ${forkChild.parentPromptId} = ${outerPromptId})`.mapWith(Number),
+};
+
+const createdAtKey: SortKey = { expr: prompts.createdAt, type: 'timestamptz' };
+const idKey: SortKey = { expr: prompts.id, type: 'uuid' };
+
+// Every ordering ends in the primary key so keyset cursors are unambiguous
+function promptSortKeys(sort: PromptSort): SortKey[] {
+  switch (sort) {
+    case 'hot':
+      return [{ expr: sql`(${hotScore})::float8`, type: 'float8' }, createdAtKey, idKey];
+    case 'top':
+      return [{ expr: sql`(${upvoteCount} - ${downvoteCount})`, type: 'int8' }, createdAtKey, idKey];
+    case 'active':
+      return [
+        { expr: commentCount, type: 'int8' },
+        { expr: sql`coalesce(${lastCommentAt}, ${prompts.createdAt})`, type: 'timestamptz' },
+        idKey,
+      ];
+    case 'controversial':
+      return [{ expr: sql`(${controversyScore})::float8`, type: 'float8' }, createdAtKey, idKey];
+    case 'new':
+    default:
+      return [createdAtKey, idKey];
+  }
+}
+
+function promptConditions(filters?: PromptFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters?.status) {
+    conditions.push(eq(prompts.status, filters.status));
+  }
+  if (filters?.authorId) {
+    conditions.push(eq(prompts.authorId, filters.authorId));
+  }
+  const windowMs = filters?.sort === 'top' ? TOP_WINDOW_MS[filters.window || 'all'] : null;
+  if (windowMs !== null) {
+    conditions.push(gte(prompts.createdAt, new Date(Date.now() - windowMs)));
+  }
+  return conditions;
+}
 
 // Interface for storage operations
 export interface IStorage {
+  transaction<T>(work: (storage: IStorage) => Promise<T>, config?: PgTransactionConfig): Promise<T>;
+  
   // User operations - Required for Replit Auth
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  updateUserReputation(userId: string, changeAmount: number): Promise<User>;
+  suspendReviewer(userId: string, until: Date): Promise<User>;
   
   // Prompt operations
-  createPrompt(prompt: InsertPrompt): Promise<Prompt>;
+  createPrompt(prompt: InsertPrompt, techniqueIds?: number[]): Promise<Prompt>;
   getPrompt(id: string): Promise<Prompt | undefined>;
   getPromptWithTechniques(id: string): Promise<(Prompt & { techniques: PromptTechnique[] }) | undefined>;
-  getPrompts(filters?: { status?: string; authorId?: string; limit?: number; offset?: number }): Promise<Prompt[]>;
-  getPromptsWithTechniques(filters?: { status?: string; authorId?: string; limit?: number; offset?: number }): Promise<(Prompt & { techniques: PromptTechnique[]; voteCount: number; commentCount: number })[]>;
-  updatePrompt(id: string, data: Partial<InsertPrompt>): Promise<Prompt | undefined>;
+  getPrompts(filters?: PromptFilters): Promise<Prompt[]>;
+  getPromptsWithTechniques(filters?: PromptFilters, page?: PageOptions): Promise<Page<PromptWithStats>>;
+  transitionPromptStatus(id: string, from: PromptStatus, to: PromptStatus, actor: TransitionActor, reason?: string): Promise<Prompt | undefined>;
+  transitionPendingRevision(id: string, from: PendingRevisionStatus, to: PendingRevisionStatus | 'approved' | 'rejected', actor: TransitionActor, reason?: string): Promise<Prompt | undefined>;
+  getPromptTransitions(promptId: string): Promise<PromptTransition[]>;
+  revisePrompt(id: string, editorId: string, data: UpdatePrompt, autosave?: boolean): Promise<Prompt | undefined>;
+  proposePromptRevision(id: string, editorId: string, data: UpdatePrompt, autosave?: boolean): Promise<Prompt | undefined>;
+  getDrafts(authorId: string, page?: PageOptions): Promise<Page<Prompt>>;
+  deleteStaleEmptyDrafts(updatedBefore: Date): Promise<number>;
   forkPrompt(promptId: string, authorId: string): Promise<Prompt>;
+  getPromptLineage(promptId: string, viewerId?: string): Promise<PromptLineage | undefined>;
+  searchPrompts(filters: SearchFilters, page?: PageOptions): Promise<Page<SearchResult>>;
+  
+  // Change proposal operations
+  createChangeProposal(proposal: { sourcePromptId: string; targetPromptId: string; targetVersion: number; proposerId: string; title: string; description: string }): Promise<ChangeProposal>;
+  getChangeProposal(id: number): Promise<ChangeProposalWithPrompts | undefined>;
+  getOpenChangeProposalForSource(sourcePromptId: string): Promise<ChangeProposal | undefined>;
+  getChangeProposalsForPrompt(promptId: string, page?: PageOptions): Promise<Page<ChangeProposalWithPrompts>>;
+  resolveChangeProposal(id: number, status: Exclude<ChangeProposalStatus, 'open'>, resolvedBy: string, reason?: string): Promise<ChangeProposal | undefined>;
+  recordChangeProposalMerge(id: number, mergedSourceVersion: number, mergedVersion: number): Promise<ChangeProposal | undefined>;
+  createChangeProposalComment(comment: { proposalId: number; authorId: string; content: string }): Promise<ChangeProposalComment>;
+  getChangeProposalComments(proposalId: number, page?: PageOptions): Promise<Page<ChangeProposalComment>>;
+  
+  // Suggested edit operations
+  createSuggestedEdit(edit: Omit<typeof suggestedEdits.$inferInsert, 'id' | 'status' | 'createdAt'>): Promise<SuggestedEdit>;
+  getSuggestedEdit(id: number): Promise<SuggestedEditWithPrompt | undefined>;
+  getPendingSuggestedEdit(promptId: string, suggesterId: string): Promise<SuggestedEdit | undefined>;
+  getSuggestedEditQueue(reviewerId: string, page?: PageOptions): Promise<Page<SuggestedEditWithPrompt>>;
+  getSuggestedEditsForPrompt(promptId: string, page?: PageOptions): Promise<Page<SuggestedEditWithPrompt>>;
+  resolveSuggestedEdit(id: number, status: Exclude<SuggestedEditStatus, 'pending'>, reviewerId: string, reason?: string): Promise<SuggestedEdit | undefined>;
+  recordSuggestedEditMerge(id: number, mergedVersion: number): Promise<SuggestedEdit | undefined>;
+  
+  // Revision operations
+  getPromptRevisions(promptId: string, page?: PageOptions): Promise<Page<PromptRevision>>;
+  getPromptRevision(promptId: string, version: number): Promise<PromptRevision | undefined>;
+  backfillPromptRevisions(): Promise<number>;
   
   // Review operations
-  createReview(review: InsertReview): Promise<Review>;
-  getReviewsByPromptId(promptId: string): Promise<Review[]>;
-  getReviewsByReviewerId(reviewerId: string): Promise<Review[]>;
-  getReviewQueue(): Promise<Prompt[]>;
+  createReview(review: InsertReview & { round: number; promptVersion: number }): Promise<Review>;
+  getReviewsByPromptId(promptId: string): Promise<ReviewWithScores[]>;
+  getReviewsWithReviewers(promptId: string, round: number): Promise<ReviewWithReviewer[]>;
+  getReviewsByReviewerId(reviewerId: string, page?: PageOptions): Promise<Page<Review>>;
+  getReviewQueue(reviewerId: string, filters?: ReviewQueueFilters, page?: PageOptions): Promise<Page<ReviewQueueItem>>;
+  getActiveReviewClaim(promptId: string): Promise<ReviewClaim | undefined>;
+  claimReview(promptId: string, reviewerId: string): Promise<ReviewClaim | undefined>;
+  releaseReviewClaim(promptId: string, reviewerId: string): Promise<void>;
+  skipReview(promptId: string, reviewerId: string, round: number): Promise<void>;
+  countReviewsSince(reviewerId: string, since?: Date): Promise<number>;
+  
+  // Review audit operations
+  createReviewAudit(audit: { promptId: string; expectedVote: string; createdBy: string }): Promise<ReviewAudit>;
+  getReviewAuditByPromptId(promptId: string): Promise<ReviewAudit | undefined>;
+  getReviewAudits(): Promise<ReviewAuditWithStats[]>;
+  setReviewAuditActive(id: number, active: boolean): Promise<ReviewAudit | undefined>;
+  getLatestAuditAttempt(reviewerId: string): Promise<ReviewAuditAttempt | undefined>;
+  getOpenAuditAttempt(reviewerId: string, promptId?: string): Promise<(ReviewAuditAttempt & { audit: ReviewAudit }) | undefined>;
+  assignReviewAudit(reviewerId: string, techniqueId?: number): Promise<(ReviewAuditAttempt & { audit: ReviewAudit }) | undefined>;
+  answerAuditAttempt(attemptId: number, vote: string | null, passed: boolean | null): Promise<ReviewAuditAttempt | undefined>;
+  getRecentAuditResults(reviewerId: string, limit: number, since?: Date): Promise<ReviewAuditAttempt[]>;
+  findReviewerReview(promptId: string, reviewerId: string, round: number, version: number): Promise<Review | undefined>;
+  haveForkRelationship(userA: string, userB: string): Promise<boolean>;
+  
+  // Review rubric operations
+  getReviewCriteria(): Promise<ReviewCriterion[]>;
+  createReviewCriterion(criterion: InsertReviewCriterion): Promise<ReviewCriterion>;
+  updateReviewCriterion(id: number, data: UpdateReviewCriterion): Promise<ReviewCriterion | undefined>;
+  getPromptRubricSummary(promptId: string): Promise<RubricScoreSummary[]>;
+  getAuthorRubricSummary(authorId: string): Promise<RubricScoreSummary[]>;
   
   // Vote operations
-  createVote(vote: InsertVote): Promise<Vote>;
+  castVote(
+    vote: InsertVote,
+    settle: (previous: Vote | undefined, ledger: VoteLedger) => Promise<VoteSettlement | undefined>,
+  ): Promise<Vote | undefined>;
   getVotesByPromptId(promptId: string): Promise<Vote[]>;
   getUserVoteForPrompt(userId: string, promptId: string): Promise<Vote | undefined>;
-  deleteVote(userId: string, promptId: string): Promise<void>;
+  retractVote(
+    userId: string,
+    promptId: string,
+    settle: (previous: Vote, ledger: VoteLedger) => Promise<InsertReputationEvent[]>,
+  ): Promise<Vote | undefined>;
   getVoteCount(promptId: string): Promise<{ upvotes: number; downvotes: number; total: number }>;
   
   // Comment operations
   createComment(comment: InsertComment): Promise<Comment>;
-  getCommentsByPromptId(promptId: string): Promise<Comment[]>;
+  getCommentsByPromptId(promptId: string, page?: PageOptions): Promise<Page<Comment>>;
+  
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotifications(userId: string, page?: PageOptions): Promise<Page<Notification>>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  markNotificationRead(id: number, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
   
   // Reputation operations
-  createReputationEvent(event: InsertReputationEvent): Promise<ReputationEvent>;
-  getReputationHistory(userId: string): Promise<ReputationEvent[]>;
+  recordReputationEvents(events: InsertReputationEvent[]): Promise<ReputationEvent[]>;
+  getReputationHistory(userId: string, page?: PageOptions): Promise<Page<ReputationEvent>>;
+  getReputationDrift(): Promise<ReputationDrift[]>;
+  repairReputationDrift(userIds: string[]): Promise<number>;
+  getReputationEventTotals(eventTypes: string[]): Promise<ReputationEventTotal[]>;
+  getPromptVoteCounts(): Promise<{ promptId: string; authorId: string; upvotes: number; downvotes: number }[]>;
+  getDownvoteCountsByVoter(): Promise<{ userId: string; downvotes: number }[]>;
+  getReviewVerdictCounts(): Promise<{ promptId: string; authorId: string; approved: number; rejected: number }[]>;
   
   // Badge operations
   createBadge(badge: InsertBadge): Promise<Badge>;
@@ -80,20 +494,27 @@ export interface IStorage {
   createTechnique(technique: InsertPromptTechnique): Promise<PromptTechnique>;
   getTechniques(): Promise<PromptTechnique[]>;
   getTechniqueTree(): Promise<PromptTechnique[]>;
-  linkPromptToTechnique(promptId: string, techniqueId: number): Promise<PromptTechniqueLink>;
-  unlinkPromptFromTechnique(promptId: string, techniqueId: number): Promise<void>;
   getPromptTechniques(promptId: string): Promise<PromptTechnique[]>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database = defaultDb) {}
+
+  // Runs `work` against a storage bound to one transaction, so everything it does commits or
+  // rolls back together; transactions the methods open themselves become savepoints. `config`
+  // (e.g. an isolation level) only applies to the outermost transaction.
+  async transaction<T>(work: (storage: IStorage) => Promise<T>, config?: PgTransactionConfig): Promise<T> {
+    return await this.db.transaction(tx => work(new DatabaseStorage(tx)), config);
+  }
+
   // User operations - Required for Replit Auth
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(userData)
       .onConflictDoUpdate({
@@ -108,33 +529,59 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user;
   }
 
-  async updateUserReputation(userId: string, changeAmount: number): Promise<User> {
-    const [user] = await db
+  async suspendReviewer(userId: string, until: Date): Promise<User> {
+    const [user] = await this.db
       .update(users)
-      .set({
-        reputation: sql`${users.reputation} + ${changeAmount}`,
-        updatedAt: new Date(),
-      })
+      .set({ reviewSuspendedUntil: until, updatedAt: new Date() })
       .where(eq(users.id, userId))
       .returning();
     return user;
   }
 
   // Prompt operations
-  async createPrompt(promptData: InsertPrompt): Promise<Prompt> {
-    const [prompt] = await db
-      .insert(prompts)
-      .values(promptData)
-      .returning();
-    return prompt;
+  async createPrompt(promptData: InsertPrompt, techniqueIds: number[] = []): Promise<Prompt> {
+    return await this.db.transaction(async (tx) => {
+      const [prompt] = await tx
+        .insert(prompts)
+        .values({
+          ...promptData,
+          submittedAt: promptData.status === 'pending_review' ? new Date() : null,
+        })
+        .returning();
+      await replaceTechniqueLinks(tx, prompt.id, techniqueIds);
+      
+      // Snapshot the initial content as the first revision
+      await tx.insert(promptRevisions).values({
+        promptId: prompt.id,
+        version: prompt.version,
+        title: prompt.title,
+        promptBodyText: prompt.promptBodyText,
+        promptBodyJson: prompt.promptBodyJson,
+        rationale: prompt.rationale,
+        variables: prompt.variables,
+        techniqueIds,
+        editorId: prompt.authorId,
+        editSummary: prompt.parentPromptId ? "Forked" : "Initial version",
+      });
+      
+      await tx.insert(promptTransitions).values({
+        promptId: prompt.id,
+        fromStatus: null,
+        toStatus: prompt.status,
+        actorId: prompt.authorId,
+        actorRole: 'author',
+      });
+      
+      return prompt;
+    });
   }
 
   async getPrompt(id: string): Promise<Prompt | undefined> {
-    const [prompt] = await db.select().from(prompts).where(eq(prompts.id, id));
+    const [prompt] = await this.db.select().from(prompts).where(eq(prompts.id, id));
     return prompt;
   }
 
@@ -151,37 +598,35 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getPrompts(filters?: { status?: string; authorId?: string; limit?: number; offset?: number }): Promise<Prompt[]> {
-    let query = db.select().from(prompts);
-    
-    const conditions = [];
-    if (filters?.status) {
-      conditions.push(eq(prompts.status, filters.status));
-    }
-    if (filters?.authorId) {
-      conditions.push(eq(prompts.authorId, filters.authorId));
-    }
-    
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
-    }
-    
-    query = query.orderBy(desc(prompts.createdAt));
+  async getPrompts(filters?: PromptFilters): Promise<Prompt[]> {
+    return await this.db
+      .select()
+      .from(prompts)
+      .where(and(...promptConditions(filters)))
+      .orderBy(...keysetOrderBy(promptSortKeys(filters?.sort || 'new')));
+  }
+
+  async getPromptsWithTechniques(filters?: PromptFilters, page?: PageOptions): Promise<Page<PromptWithStats>> {
+    const keys = promptSortKeys(filters?.sort || 'new');
+    const conditions = promptConditions(filters);
+    const limit = pageLimit(page);
     
-    if (filters?.limit) {
-      query = query.limit(filters.limit);
-    }
-    if (filters?.offset) {
-      query = query.offset(filters.offset);
-    }
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({ item: prompts, cursor: cursorValues(keys) })
+        .from(prompts)
+        .where(and(...conditions, page?.cursor ? keysetCondition(keys, page.cursor) : undefined))
+        .orderBy(...keysetOrderBy(keys))
+        .limit(limit + 1),
+      this.db.$count(prompts, and(...conditions)),
+    ]);
     
-    return await query;
+    const result = toPage(rows, limit, totalCount);
+    return { ...result, items: await this.attachPromptStats(result.items) };
   }
 
-  async getPromptsWithTechniques(filters?: { status?: string; authorId?: string; limit?: number; offset?: number }): Promise<(Prompt & { techniques: PromptTechnique[]; voteCount: number; commentCount: number })[]> {
-    // First, get the filtered prompts
-    const filteredPrompts = await this.getPrompts(filters);
-    
+  // Decorate prompts with their techniques, net vote count and comment count
+  private async attachPromptStats<T extends Prompt>(filteredPrompts: T[]): Promise<(T & { techniques: PromptTechnique[]; voteCount: number; commentCount: number })[]> {
     if (filteredPrompts.length === 0) {
       return [];
     }
@@ -190,7 +635,7 @@ export class DatabaseStorage implements IStorage {
     const promptIds = filteredPrompts.map(p => p.id);
     
     // Get all technique links for these prompts
-    const techniquesData = await db
+    const techniquesData = await this.db
       .select({
         promptId: promptTechniqueLinks.promptId,
         technique: promptTechniques,
@@ -200,7 +645,7 @@ export class DatabaseStorage implements IStorage {
       .where(inArray(promptTechniqueLinks.promptId, promptIds));
     
     // Get vote counts for these prompts
-    const votesData = await db
+    const votesData = await this.db
       .select({
         promptId: votes.promptId,
         voteType: votes.voteType,
@@ -209,7 +654,7 @@ export class DatabaseStorage implements IStorage {
       .where(inArray(votes.promptId, promptIds));
     
     // Get comment counts for these prompts
-    const commentsData = await db
+    const commentsData = await this.db
       .select({
         promptId: comments.promptId,
       })
@@ -247,13 +692,370 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async updatePrompt(id: string, data: Partial<InsertPrompt>): Promise<Prompt | undefined> {
-    const [prompt] = await db
-      .update(prompts)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(prompts.id, id))
-      .returning();
-    return prompt;
+  // Compare-and-set on status, recorded in prompt_transitions; undefined when the prompt was no
+  // longer in `from`. Callers check PROMPT_TRANSITIONS first. Entering pending_review restarts
+  // the queue clock and, unless this is the first submission, opens a new review round so
+  // votes from earlier rounds no longer count. Archiving drops any pending revision.
+  async transitionPromptStatus(id: string, from: PromptStatus, to: PromptStatus, actor: TransitionActor, reason?: string): Promise<Prompt | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [prompt] = await tx
+        .update(prompts)
+        .set({
+          status: to,
+          ...(to === 'pending_review'
+            ? {
+                reviewRound: sql`case when ${prompts.submittedAt} is null then ${prompts.reviewRound} else ${prompts.reviewRound} + 1 end`,
+                submittedAt: new Date(),
+              }
+            : {}),
+          ...(to === 'archived' ? { pendingVersion: null, pendingStatus: null } : {}),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(prompts.id, id), eq(prompts.status, from)))
+        .returning();
+      if (!prompt) {
+        return undefined;
+      }
+      
+      // What reviewers see must not change under them
+      if (to === 'pending_review') {
+        await tx
+          .update(promptRevisions)
+          .set({ autosave: false })
+          .where(and(eq(promptRevisions.promptId, id), eq(promptRevisions.version, prompt.version)));
+      }
+      
+      await tx.insert(promptTransitions).values({
+        promptId: id,
+        fromStatus: from,
+        toStatus: to,
+        actorId: actor.id,
+        actorRole: actor.role,
+        reason: reason || null,
+      });
+      return prompt;
+    });
+  }
+
+  // Compare-and-set on the pending revision of an approved prompt, recorded in
+  // prompt_transitions. Entering pending_review opens a new review round; approved promotes
+  // the revision to the live content and rejected discards it (it stays in the history).
+  async transitionPendingRevision(
+    id: string,
+    from: PendingRevisionStatus,
+    to: PendingRevisionStatus | 'approved' | 'rejected',
+    actor: TransitionActor,
+    reason?: string,
+  ): Promise<Prompt | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(prompts)
+        .where(and(eq(prompts.id, id), eq(prompts.pendingStatus, from)))
+        .for('update');
+      if (!current || current.pendingVersion === null) {
+        return undefined;
+      }
+      
+      let changes: Partial<typeof prompts.$inferInsert>;
+      if (to === 'approved') {
+        const [revision] = await tx
+          .select()
+          .from(promptRevisions)
+          .where(and(eq(promptRevisions.promptId, id), eq(promptRevisions.version, current.pendingVersion)));
+        if (!revision) {
+          return undefined;
+        }
+        if (revision.techniqueIds) {
+          await replaceTechniqueLinks(tx, id, revision.techniqueIds);
+        }
+        changes = {
+          title: revision.title,
+          promptBodyText: revision.promptBodyText,
+          promptBodyJson: revision.promptBodyJson,
+          rationale: revision.rationale,
+          variables: revision.variables,
+          version: revision.version,
+          pendingVersion: null,
+          pendingStatus: null,
+        };
+      } else if (to === 'rejected') {
+        changes = { pendingVersion: null, pendingStatus: null };
+      } else if (to === 'pending_review') {
+        changes = { pendingStatus: to, reviewRound: current.reviewRound + 1, submittedAt: new Date() };
+        await tx
+          .update(promptRevisions)
+          .set({ autosave: false })
+          .where(and(eq(promptRevisions.promptId, id), eq(promptRevisions.version, current.pendingVersion)));
+      } else {
+        changes = { pendingStatus: to };
+      }
+      
+      const [prompt] = await tx
+        .update(prompts)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(prompts.id, id))
+        .returning();
+      
+      await tx.insert(promptTransitions).values({
+        promptId: id,
+        revisionVersion: current.pendingVersion,
+        fromStatus: from,
+        toStatus: to,
+        actorId: actor.id,
+        actorRole: actor.role,
+        reason: reason || null,
+      });
+      return prompt;
+    });
+  }
+
+  async getPromptTransitions(promptId: string): Promise<PromptTransition[]> {
+    return await this.db
+      .select()
+      .from(promptTransitions)
+      .where(eq(promptTransitions.promptId, promptId))
+      .orderBy(promptTransitions.createdAt, promptTransitions.id);
+  }
+
+  // Content and technique tag edits only; status changes go through transitionPromptStatus. An autosave
+  // overwrites the working copy left by the same editor's previous autosave instead of adding
+  // a version, so a drafting session leaves one revision rather than one per keystroke pause.
+  // Undefined if the prompt is gone or under review.
+  async revisePrompt(id: string, editorId: string, data: UpdatePrompt, autosave = false): Promise<Prompt | undefined> {
+    const { editSummary, techniqueIds, ...changes } = data;
+    const editable = and(eq(prompts.id, id), ne(prompts.status, 'pending_review'));
+    
+    return await this.db.transaction(async (tx) => {
+      if (autosave) {
+        const [current] = await tx
+          .select({ revision: promptRevisions })
+          .from(prompts)
+          .innerJoin(promptRevisions, and(eq(promptRevisions.promptId, prompts.id), eq(promptRevisions.version, prompts.version)))
+          .where(editable)
+          .for('update');
+        
+        if (current?.revision.autosave && current.revision.editorId === editorId) {
+          const [prompt] = await tx
+            .update(prompts)
+            .set({ ...changes, updatedAt: new Date() })
+            .where(eq(prompts.id, id))
+            .returning();
+          if (techniqueIds) {
+            await replaceTechniqueLinks(tx, id, techniqueIds);
+          }
+          
+          await tx
+            .update(promptRevisions)
+            .set({
+              title: prompt.title,
+              promptBodyText: prompt.promptBodyText,
+              promptBodyJson: prompt.promptBodyJson,
+              rationale: prompt.rationale,
+              variables: prompt.variables,
+              ...(techniqueIds ? { techniqueIds } : {}),
+              ...(editSummary ? { editSummary } : {}),
+              createdAt: new Date(),
+            })
+            .where(eq(promptRevisions.id, current.revision.id));
+          
+          return prompt;
+        }
+      }
+      
+      // Bump the version atomically so concurrent edits never share a version number
+      const [prompt] = await tx
+        .update(prompts)
+        .set({
+          ...changes,
+          version: sql`${prompts.version} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(editable)
+        .returning();
+      
+      if (!prompt) {
+        return undefined;
+      }
+      if (techniqueIds) {
+        await replaceTechniqueLinks(tx, id, techniqueIds);
+      }
+      
+      await tx.insert(promptRevisions).values({
+        promptId: prompt.id,
+        version: prompt.version,
+        title: prompt.title,
+        promptBodyText: prompt.promptBodyText,
+        promptBodyJson: prompt.promptBodyJson,
+        rationale: prompt.rationale,
+        variables: prompt.variables,
+        techniqueIds: techniqueIds ?? await linkedTechniqueIds(tx, id),
+        editorId,
+        editSummary: editSummary || (autosave ? "Autosaved draft" : null),
+        autosave,
+      });
+      
+      return prompt;
+    });
+  }
+
+  // Edits to an approved prompt are snapshotted as a pending revision while the approved
+  // content stays live. The first edit starts the revision as a draft and later edits supersede
+  // it; a revision under review is not edited (undefined). Tag changes wait in the revision with
+  // the content. Autosaves coalesce as in revisePrompt.
+  async proposePromptRevision(id: string, editorId: string, data: UpdatePrompt, autosave = false): Promise<Prompt | undefined> {
+    const { editSummary, ...changes } = data;
+    
+    return await this.db.transaction(async (tx) => {
+      const [prompt] = await tx
+        .select()
+        .from(prompts)
+        .where(and(
+          eq(prompts.id, id),
+          eq(prompts.status, 'approved'),
+          or(isNull(prompts.pendingStatus), ne(prompts.pendingStatus, 'pending_review')),
+        ))
+        .for('update');
+      if (!prompt) {
+        return undefined;
+      }
+      
+      // Build on the pending revision rather than the live content
+      let base: Prompt | PromptRevision = prompt;
+      let pending: PromptRevision | undefined;
+      if (prompt.pendingVersion !== null) {
+        [pending] = await tx
+          .select()
+          .from(promptRevisions)
+          .where(and(eq(promptRevisions.promptId, id), eq(promptRevisions.version, prompt.pendingVersion)));
+        base = pending ?? prompt;
+      }
+      
+      const content = {
+        title: changes.title ?? base.title,
+        promptBodyText: changes.promptBodyText !== undefined ? changes.promptBodyText : base.promptBodyText,
+        promptBodyJson: changes.promptBodyJson !== undefined ? changes.promptBodyJson : base.promptBodyJson,
+        rationale: changes.rationale ?? base.rationale,
+        variables: changes.variables ?? base.variables,
+        techniqueIds: changes.techniqueIds ?? pending?.techniqueIds ?? await linkedTechniqueIds(tx, id),
+      };
+      
+      if (autosave && pending?.autosave && pending.editorId === editorId && prompt.pendingStatus === 'draft') {
+        await tx
+          .update(promptRevisions)
+          .set({ ...content, ...(editSummary ? { editSummary } : {}), createdAt: new Date() })
+          .where(eq(promptRevisions.id, pending.id));
+        const [updated] = await tx
+          .update(prompts)
+          .set({ updatedAt: new Date() })
+          .where(eq(prompts.id, id))
+          .returning();
+        return updated;
+      }
+      
+      // Number after every revision on record: a rejected revision stays in the history
+      // after pendingVersion is cleared, so reviewVersionOf alone would reuse its number
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${promptRevisions.version}), 0)`.mapWith(Number) })
+        .from(promptRevisions)
+        .where(eq(promptRevisions.promptId, id));
+      const version = Math.max(latest, reviewVersionOf(prompt)) + 1;
+      await tx.insert(promptRevisions).values({
+        promptId: id,
+        version,
+        ...content,
+        editorId,
+        editSummary: editSummary || (autosave ? "Autosaved draft" : null),
+        autosave,
+      });
+      
+      const [updated] = await tx
+        .update(prompts)
+        .set({
+          pendingVersion: version,
+          pendingStatus: prompt.pendingStatus ?? 'draft',
+          updatedAt: new Date(),
+        })
+        .where(eq(prompts.id, id))
+        .returning();
+      
+      if (prompt.pendingStatus === null) {
+        await tx.insert(promptTransitions).values({
+          promptId: id,
+          revisionVersion: version,
+          fromStatus: null,
+          toStatus: 'draft',
+          actorId: editorId,
+          actorRole: 'author',
+        });
+      }
+      return updated;
+    });
+  }
+
+  // The author's draft prompts and draft edits of their approved prompts, most recently saved first
+  async getDrafts(authorId: string, page?: PageOptions): Promise<Page<Prompt>> {
+    const keys: SortKey[] = [
+      { expr: prompts.updatedAt, type: 'timestamptz' },
+      idKey,
+    ];
+    const condition = and(
+      eq(prompts.authorId, authorId),
+      or(eq(prompts.status, 'draft'), eq(prompts.pendingStatus, 'draft')),
+    );
+    const limit = pageLimit(page);
+    
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({ item: prompts, cursor: cursorValues(keys) })
+        .from(prompts)
+        .where(and(condition, page?.cursor ? keysetCondition(keys, page.cursor) : undefined))
+        .orderBy(...keysetOrderBy(keys))
+        .limit(limit + 1),
+      this.db.$count(prompts, condition),
+    ]);
+    return toPage(rows, limit, totalCount);
+  }
+
+  // Deletes never-submitted drafts with no title, body or rationale that nobody has touched
+  // since `updatedBefore`, along with their history. Drafts anything else points at are kept.
+  async deleteStaleEmptyDrafts(updatedBefore: Date): Promise<number> {
+    return await this.db.transaction(async (tx) => {
+      const stale = await tx
+        .select({ id: prompts.id })
+        .from(prompts)
+        .where(and(
+          eq(prompts.status, 'draft'),
+          isNull(prompts.submittedAt),
+          lte(prompts.updatedAt, updatedBefore),
+          sql`btrim(${prompts.title}) = ''`,
+          sql`coalesce(btrim(${prompts.promptBodyText}), '') = ''`,
+          sql`btrim(${prompts.rationale}) = ''`,
+          sql`not exists (select 1 from ${prompts} ${forkChild} where ${forkChild.parentPromptId} = ${outerPromptId})`,
+          sql`not exists (select 1 from ${votes} where ${votes.promptId} = ${outerPromptId})`,
+          sql`not exists (select 1 from ${voteCasts} where ${voteCasts.promptId} = ${outerPromptId})`,
+          sql`not exists (select 1 from ${comments} where ${comments.promptId} = ${outerPromptId})`,
+          sql`not exists (select 1 from ${reviews} where ${reviews.promptId} = ${outerPromptId})`,
+          sql`not exists (select 1 from ${reviewAudits} where ${reviewAudits.promptId} = ${outerPromptId})`,
+          sql`not exists (select 1 from ${reputationEvents} where ${reputationEvents.relatedPromptId} = ${outerPromptId})`,
+          sql`not exists (select 1 from ${suggestedEdits} where ${suggestedEdits.promptId} = ${outerPromptId})`,
+          sql`not exists (select 1 from ${changeProposals} where ${changeProposals.sourcePromptId} = ${outerPromptId} or ${changeProposals.targetPromptId} = ${outerPromptId})`,
+        ))
+        .for('update');
+      if (stale.length === 0) {
+        return 0;
+      }
+      
+      const ids = stale.map(row => row.id);
+      await tx.delete(promptRevisions).where(inArray(promptRevisions.promptId, ids));
+      await tx.delete(promptTransitions).where(inArray(promptTransitions.promptId, ids));
+      await tx.delete(promptTechniqueLinks).where(inArray(promptTechniqueLinks.promptId, ids));
+      await tx.delete(reviewClaims).where(inArray(reviewClaims.promptId, ids));
+      await tx.delete(reviewSkips).where(inArray(reviewSkips.promptId, ids));
+      await tx.delete(notifications).where(inArray(notifications.promptId, ids));
+      await tx.delete(prompts).where(inArray(prompts.id, ids));
+      return ids.length;
+    });
   }
 
   async forkPrompt(promptId: string, authorId: string): Promise<Prompt> {
@@ -262,89 +1064,958 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Original prompt not found");
     }
     
-    const [forked] = await db
-      .insert(prompts)
-      .values({
-        authorId,
-        title: `${original.title} (Fork)`,
-        promptBodyText: original.promptBodyText,
-        promptBodyJson: original.promptBodyJson,
-        rationale: original.rationale,
-        version: 1,
-        parentPromptId: promptId,
-        status: 'draft',
-      })
+    // The fork starts with the original's technique tags
+    const originalTechniques = await this.getPromptTechniques(promptId);
+    return await this.createPrompt({
+      authorId,
+      title: `${original.title} (Fork)`,
+      promptBodyText: original.promptBodyText,
+      promptBodyJson: original.promptBodyJson as InsertPrompt["promptBodyJson"],
+      rationale: original.rationale,
+      variables: original.variables,
+      version: 1,
+      parentPromptId: promptId,
+      status: 'draft',
+    }, originalTechniques.map(technique => technique.id));
+  }
+
+  // Walks up parentPromptId to the root, then down through public forks one level per query,
+  // oldest first. Private forks are left out along with any forks of them; private ancestors
+  // are reduced to placeholders unless the viewer wrote them.
+  async getPromptLineage(promptId: string, viewerId?: string): Promise<PromptLineage | undefined> {
+    const selectNodes = (condition: SQL | undefined) => this.db.select(lineageColumns).from(prompts).where(condition);
+    
+    const [prompt] = await selectNodes(eq(prompts.id, promptId));
+    if (!prompt) {
+      return undefined;
+    }
+    
+    const ancestors: PromptLineage['ancestors'] = [];
+    let parentId = prompt.parentPromptId;
+    while (parentId && ancestors.length < LINEAGE.MAX_DEPTH) {
+      const [parent] = await selectNodes(eq(prompts.id, parentId));
+      if (!parent) {
+        break;
+      }
+      ancestors.unshift(isHiddenFrom(parent, viewerId)
+        ? { id: parent.id, parentPromptId: parent.parentPromptId, hidden: true }
+        : parent);
+      parentId = parent.parentPromptId;
+    }
+    
+    const descendants: LineageNode[] = [];
+    let frontier: LineageNode[] = [prompt];
+    let truncated = false;
+    for (let depth = 0; frontier.length > 0; depth++) {
+      if (depth === LINEAGE.MAX_DEPTH) {
+        truncated = frontier.some(node => node.forkCount > 0);
+        break;
+      }
+      const remaining = LINEAGE.MAX_DESCENDANTS - descendants.length;
+      const level = await selectNodes(and(
+        inArray(prompts.parentPromptId, frontier.map(node => node.id)),
+        notInArray(prompts.status, [...PRIVATE_PROMPT_STATUSES]),
+      ))
+        .orderBy(prompts.createdAt, prompts.id)
+        .limit(remaining + 1);
+      if (level.length > remaining) {
+        descendants.push(...level.slice(0, remaining));
+        truncated = true;
+        break;
+      }
+      descendants.push(...level);
+      frontier = level;
+    }
+    
+    return { ancestors, prompt, descendants, truncated };
+  }
+
+  // Change proposal operations
+  async createChangeProposal(proposalData: { sourcePromptId: string; targetPromptId: string; targetVersion: number; proposerId: string; title: string; description: string }): Promise<ChangeProposal> {
+    const [proposal] = await this.db
+      .insert(changeProposals)
+      .values(proposalData)
       .returning();
+    return proposal;
+  }
+
+  async getChangeProposal(id: number): Promise<ChangeProposalWithPrompts | undefined> {
+    const [proposal] = await this.db
+      .select(changeProposalColumns)
+      .from(changeProposals)
+      .innerJoin(sourcePrompt, eq(sourcePrompt.id, changeProposals.sourcePromptId))
+      .innerJoin(targetPrompt, eq(targetPrompt.id, changeProposals.targetPromptId))
+      .where(eq(changeProposals.id, id));
+    return proposal;
+  }
+
+  async getOpenChangeProposalForSource(sourcePromptId: string): Promise<ChangeProposal | undefined> {
+    const [proposal] = await this.db
+      .select()
+      .from(changeProposals)
+      .where(and(eq(changeProposals.sourcePromptId, sourcePromptId), eq(changeProposals.status, 'open')));
+    return proposal;
+  }
+
+  // Proposals made to the prompt and proposals made from it (when it is a fork), newest first
+  async getChangeProposalsForPrompt(promptId: string, page?: PageOptions): Promise<Page<ChangeProposalWithPrompts>> {
+    const keys: SortKey[] = [
+      { expr: changeProposals.createdAt, type: 'timestamptz' },
+      { expr: changeProposals.id, type: 'int8' },
+    ];
+    const condition = or(eq(changeProposals.targetPromptId, promptId), eq(changeProposals.sourcePromptId, promptId));
+    const limit = pageLimit(page);
     
-    // Copy technique links from original prompt to forked prompt
-    const originalTechniques = await this.getPromptTechniques(promptId);
-    if (originalTechniques.length > 0) {
-      await Promise.all(
-        originalTechniques.map(technique => 
-          this.linkPromptToTechnique(forked.id, technique.id)
-        )
-      );
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({ item: changeProposalColumns, cursor: cursorValues(keys) })
+        .from(changeProposals)
+        .innerJoin(sourcePrompt, eq(sourcePrompt.id, changeProposals.sourcePromptId))
+        .innerJoin(targetPrompt, eq(targetPrompt.id, changeProposals.targetPromptId))
+        .where(and(condition, page?.cursor ? keysetCondition(keys, page.cursor) : undefined))
+        .orderBy(...keysetOrderBy(keys))
+        .limit(limit + 1),
+      this.db.$count(changeProposals, condition),
+    ]);
+    return toPage(rows, limit, totalCount);
+  }
+
+  // Only moves an open proposal, so concurrent accept/decline/withdraw requests settle it once
+  async resolveChangeProposal(id: number, status: Exclude<ChangeProposalStatus, 'open'>, resolvedBy: string, reason?: string): Promise<ChangeProposal | undefined> {
+    const now = new Date();
+    const [proposal] = await this.db
+      .update(changeProposals)
+      .set({ status, resolvedBy, resolutionReason: reason || null, resolvedAt: now, updatedAt: now })
+      .where(and(eq(changeProposals.id, id), eq(changeProposals.status, 'open')))
+      .returning();
+    return proposal;
+  }
+
+  async recordChangeProposalMerge(id: number, mergedSourceVersion: number, mergedVersion: number): Promise<ChangeProposal | undefined> {
+    const [proposal] = await this.db
+      .update(changeProposals)
+      .set({ mergedSourceVersion, mergedVersion, updatedAt: new Date() })
+      .where(eq(changeProposals.id, id))
+      .returning();
+    return proposal;
+  }
+
+  async createChangeProposalComment(commentData: { proposalId: number; authorId: string; content: string }): Promise<ChangeProposalComment> {
+    const [comment] = await this.db
+      .insert(changeProposalComments)
+      .values(commentData)
+      .returning();
+    return comment;
+  }
+
+  async getChangeProposalComments(proposalId: number, page?: PageOptions): Promise<Page<ChangeProposalComment>> {
+    // Oldest first so the discussion reads top to bottom
+    const keys: SortKey[] = [
+      { expr: changeProposalComments.createdAt, type: 'timestamptz' },
+      { expr: changeProposalComments.id, type: 'int8' },
+    ];
+    const direction: SortDirection = 'asc';
+    const condition = eq(changeProposalComments.proposalId, proposalId);
+    const limit = pageLimit(page);
+    
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({ item: changeProposalComments, cursor: cursorValues(keys) })
+        .from(changeProposalComments)
+        .where(and(condition, page?.cursor ? keysetCondition(keys, page.cursor, direction) : undefined))
+        .orderBy(...keysetOrderBy(keys, direction))
+        .limit(limit + 1),
+      this.db.$count(changeProposalComments, condition),
+    ]);
+    return toPage(rows, limit, totalCount);
+  }
+
+  // Suggested edit operations
+  async createSuggestedEdit(editData: Omit<typeof suggestedEdits.$inferInsert, 'id' | 'status' | 'createdAt'>): Promise<SuggestedEdit> {
+    const [edit] = await this.db
+      .insert(suggestedEdits)
+      .values(editData)
+      .returning();
+    return edit;
+  }
+
+  async getSuggestedEdit(id: number): Promise<SuggestedEditWithPrompt | undefined> {
+    const [edit] = await this.db
+      .select(suggestedEditColumns)
+      .from(suggestedEdits)
+      .innerJoin(prompts, eq(prompts.id, suggestedEdits.promptId))
+      .where(eq(suggestedEdits.id, id));
+    return edit;
+  }
+
+  async getPendingSuggestedEdit(promptId: string, suggesterId: string): Promise<SuggestedEdit | undefined> {
+    const [edit] = await this.db
+      .select()
+      .from(suggestedEdits)
+      .where(and(
+        eq(suggestedEdits.promptId, promptId),
+        eq(suggestedEdits.suggesterId, suggesterId),
+        eq(suggestedEdits.status, 'pending'),
+      ));
+    return edit;
+  }
+
+  // Pending suggestions the reviewer did not make, on prompts that still take edits, oldest first
+  async getSuggestedEditQueue(reviewerId: string, page?: PageOptions): Promise<Page<SuggestedEditWithPrompt>> {
+    const keys: SortKey[] = [
+      { expr: suggestedEdits.createdAt, type: 'timestamptz' },
+      { expr: suggestedEdits.id, type: 'int8' },
+    ];
+    const direction: SortDirection = 'asc';
+    const condition = and(
+      eq(suggestedEdits.status, 'pending'),
+      ne(suggestedEdits.suggesterId, reviewerId),
+      ne(prompts.status, 'archived'),
+    );
+    const limit = pageLimit(page);
+    
+    const [rows, [{ totalCount }]] = await Promise.all([
+      this.db
+        .select({ item: suggestedEditColumns, cursor: cursorValues(keys) })
+        .from(suggestedEdits)
+        .innerJoin(prompts, eq(prompts.id, suggestedEdits.promptId))
+        .where(and(condition, page?.cursor ? keysetCondition(keys, page.cursor, direction) : undefined))
+        .orderBy(...keysetOrderBy(keys, direction))
+        .limit(limit + 1),
+      this.db
+        .select({ totalCount: sql<number>`count(*)`.mapWith(Number) })
+        .from(suggestedEdits)
+        .innerJoin(prompts, eq(prompts.id, suggestedEdits.promptId))
+        .where(condition),
+    ]);
+    return toPage(rows, limit, totalCount);
+  }
+
+  async getSuggestedEditsForPrompt(promptId: string, page?: PageOptions): Promise<Page<SuggestedEditWithPrompt>> {
+    const keys: SortKey[] = [
+      { expr: suggestedEdits.createdAt, type: 'timestamptz' },
+      { expr: suggestedEdits.id, type: 'int8' },
+    ];
+    const condition = eq(suggestedEdits.promptId, promptId);
+    const limit = pageLimit(page);
+    
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({ item: suggestedEditColumns, cursor: cursorValues(keys) })
+        .from(suggestedEdits)
+        .innerJoin(prompts, eq(prompts.id, suggestedEdits.promptId))
+        .where(and(condition, page?.cursor ? keysetCondition(keys, page.cursor) : undefined))
+        .orderBy(...keysetOrderBy(keys))
+        .limit(limit + 1),
+      this.db.$count(suggestedEdits, condition),
+    ]);
+    return toPage(rows, limit, totalCount);
+  }
+
+  // Only settles a pending suggestion, so concurrent approvers cannot both accept it
+  async resolveSuggestedEdit(id: number, status: Exclude<SuggestedEditStatus, 'pending'>, reviewerId: string, reason?: string): Promise<SuggestedEdit | undefined> {
+    const [edit] = await this.db
+      .update(suggestedEdits)
+      .set({ status, reviewerId, reviewReason: reason || null, reviewedAt: new Date() })
+      .where(and(eq(suggestedEdits.id, id), eq(suggestedEdits.status, 'pending')))
+      .returning();
+    return edit;
+  }
+
+  async recordSuggestedEditMerge(id: number, mergedVersion: number): Promise<SuggestedEdit | undefined> {
+    const [edit] = await this.db
+      .update(suggestedEdits)
+      .set({ mergedVersion })
+      .where(eq(suggestedEdits.id, id))
+      .returning();
+    return edit;
+  }
+
+  async searchPrompts(filters: SearchFilters, page?: PageOptions): Promise<Page<SearchResult>> {
+    const query = sql`websearch_to_tsquery('english', ${filters.q})`;
+    const document = promptSearchDocument(prompts);
+    const headlineOptions = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10';
+    
+    const techniqueMatch = sql`exists (
+      select 1 from ${promptTechniqueLinks}
+      inner join ${promptTechniques} on ${promptTechniques.id} = ${promptTechniqueLinks.techniqueId}
+      where ${promptTechniqueLinks.promptId} = ${outerPromptId}
+        and to_tsvector('english', ${promptTechniques.name} || ' ' || ${promptTechniques.description}) @@ ${query}
+    )`;
+    const commentMatch = sql`exists (
+      select 1 from ${comments}
+      where ${comments.promptId} = ${outerPromptId}
+        and to_tsvector('english', ${comments.content}) @@ ${query}
+    )`;
+    // Technique and comment hits rank like body (B) and low-weight (D) matches respectively
+    const rank = sql<number>`(
+      ts_rank(${document}, ${query})
+      + 0.4 * (${techniqueMatch})::int
+      + 0.1 * (${commentMatch})::int
+    )::float8`;
+    const keys: SortKey[] = [{ expr: rank, type: 'float8' }, createdAtKey, idKey];
+    const limit = pageLimit(page);
+    
+    const conditions: SQL[] = [
+      sql`(${document} @@ ${query} or ${techniqueMatch} or ${commentMatch})`,
+      or(
+        notInArray(prompts.status, [...PRIVATE_PROMPT_STATUSES]),
+        filters.viewerId ? eq(prompts.authorId, filters.viewerId) : undefined,
+      )!,
+    ];
+    if (filters.status) {
+      conditions.push(eq(prompts.status, filters.status));
+    }
+    if (filters.authorId) {
+      conditions.push(eq(prompts.authorId, filters.authorId));
+    }
+    if (filters.techniqueId) {
+      conditions.push(sql`exists (
+        select 1 from ${promptTechniqueLinks}
+        where ${promptTechniqueLinks.promptId} = ${outerPromptId}
+          and ${promptTechniqueLinks.techniqueId} = ${filters.techniqueId}
+      )`);
+    }
+    if (filters.from) {
+      conditions.push(gte(prompts.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(prompts.createdAt, filters.to));
     }
     
-    return forked;
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({
+          prompt: prompts,
+          rank: sql<number>`${rank}`.mapWith(Number),
+          snippet: sql<string>`ts_headline('english', coalesce(${prompts.promptBodyText}, '') || ' ' || ${prompts.rationale}, ${query}, ${headlineOptions})`,
+          cursor: cursorValues(keys),
+        })
+        .from(prompts)
+        .where(and(...conditions, page?.cursor ? keysetCondition(keys, page.cursor) : undefined))
+        .orderBy(...keysetOrderBy(keys))
+        .limit(limit + 1),
+      this.db.$count(prompts, and(...conditions)),
+    ]);
+    const { items: matches, nextCursor } = toPage(
+      rows.map(({ cursor, ...match }) => ({ item: match, cursor })),
+      limit,
+      totalCount,
+    );
+    
+    if (matches.length === 0) {
+      return { items: [], nextCursor, totalCount };
+    }
+    
+    // Best matching comment per result, highlighted the same way
+    const commentVector = sql`to_tsvector('english', ${comments.content})`;
+    const commentSnippets = await this.db
+      .selectDistinctOn([comments.promptId], {
+        promptId: comments.promptId,
+        snippet: sql<string>`ts_headline('english', ${comments.content}, ${query}, ${headlineOptions})`,
+      })
+      .from(comments)
+      .where(and(
+        inArray(comments.promptId, matches.map(match => match.prompt.id)),
+        sql`${commentVector} @@ ${query}`,
+      ))
+      .orderBy(comments.promptId, desc(sql`ts_rank(${commentVector}, ${query})`));
+    const commentSnippetByPrompt = new Map(commentSnippets.map(c => [c.promptId, c.snippet]));
+    
+    const withStats = await this.attachPromptStats(matches.map(match => match.prompt));
+    const items = withStats.map((prompt, index) => ({
+      ...prompt,
+      rank: matches[index].rank,
+      snippet: matches[index].snippet,
+      commentSnippet: commentSnippetByPrompt.get(prompt.id) ?? null,
+    }));
+    return { items, nextCursor, totalCount };
+  }
+
+  // Revision operations
+  async getPromptRevisions(promptId: string, page?: PageOptions): Promise<Page<PromptRevision>> {
+    const keys: SortKey[] = [{ expr: promptRevisions.version, type: 'int8' }];
+    const condition = eq(promptRevisions.promptId, promptId);
+    const limit = pageLimit(page);
+    
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({ item: promptRevisions, cursor: cursorValues(keys) })
+        .from(promptRevisions)
+        .where(and(condition, page?.cursor ? keysetCondition(keys, page.cursor) : undefined))
+        .orderBy(...keysetOrderBy(keys))
+        .limit(limit + 1),
+      this.db.$count(promptRevisions, condition),
+    ]);
+    return toPage(rows, limit, totalCount);
+  }
+
+  // Prompts created before revisions were recorded have no revision for their live version, so
+  // history and diffs 404 for them. Snapshots their current content and technique tags as that
+  // version, and records the tags on live revisions written before tags were snapshotted.
+  // Revisions already complete are skipped, so this is safe to run on every startup.
+  async backfillPromptRevisions(): Promise<number> {
+    const liveTechniqueIds = sql<number[]>`coalesce((
+      select jsonb_agg(${promptTechniqueLinks.techniqueId} order by ${promptTechniqueLinks.techniqueId})
+      from ${promptTechniqueLinks}
+      where ${promptTechniqueLinks.promptId} = ${outerPromptId}
+    ), '[]'::jsonb)`;
+    
+    return await this.db.transaction(async (tx) => {
+      const legacy = await tx
+        .select({ prompt: prompts, techniqueIds: liveTechniqueIds })
+        .from(prompts)
+        .where(sql`not exists (
+          select 1 from ${promptRevisions}
+          where ${promptRevisions.promptId} = ${outerPromptId} and ${promptRevisions.version} = ${prompts.version}
+        )`);
+      
+      const inserted = legacy.length === 0 ? [] : await tx
+        .insert(promptRevisions)
+        .values(legacy.map(({ prompt, techniqueIds }) => ({
+          promptId: prompt.id,
+          version: prompt.version,
+          title: prompt.title,
+          promptBodyText: prompt.promptBodyText,
+          promptBodyJson: prompt.promptBodyJson,
+          rationale: prompt.rationale,
+          variables: prompt.variables,
+          techniqueIds,
+          editorId: prompt.authorId,
+          editSummary: prompt.version === 1 ? "Initial version" : "Recorded from the live content",
+          createdAt: prompt.updatedAt,
+        })))
+        .onConflictDoNothing({ target: [promptRevisions.promptId, promptRevisions.version] })
+        .returning({ id: promptRevisions.id });
+      
+      const tagged = await tx
+        .update(promptRevisions)
+        .set({ techniqueIds: liveTechniqueIds })
+        .from(prompts)
+        .where(and(
+          eq(promptRevisions.promptId, prompts.id),
+          eq(promptRevisions.version, prompts.version),
+          isNull(promptRevisions.techniqueIds),
+        ))
+        .returning({ id: promptRevisions.id });
+      return inserted.length + tagged.length;
+    });
+  }
+
+  async getPromptRevision(promptId: string, version: number): Promise<PromptRevision | undefined> {
+    const [revision] = await this.db
+      .select()
+      .from(promptRevisions)
+      .where(and(eq(promptRevisions.promptId, promptId), eq(promptRevisions.version, version)));
+    return revision;
   }
 
   // Review operations
-  async createReview(reviewData: InsertReview): Promise<Review> {
-    const [review] = await db
-      .insert(reviews)
-      .values(reviewData)
-      .returning();
-    return review;
+  async createReview(reviewData: InsertReview & { round: number; promptVersion: number }): Promise<Review> {
+    const { scores, ...data } = reviewData;
+    return await this.db.transaction(async (tx) => {
+      const [review] = await tx
+        .insert(reviews)
+        .values(data)
+        .returning();
+      
+      if (scores.length > 0) {
+        await tx.insert(reviewScores).values(
+          scores.map(score => ({ ...score, reviewId: review.id }))
+        );
+      }
+      return review;
+    });
+  }
+
+  async getReviewsByPromptId(promptId: string): Promise<ReviewWithScores[]> {
+    const promptReviews = await this.db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.promptId, promptId))
+      .orderBy(reviews.round, reviews.createdAt);
+    if (promptReviews.length === 0) {
+      return [];
+    }
+    
+    const scores = await this.db
+      .select()
+      .from(reviewScores)
+      .where(inArray(reviewScores.reviewId, promptReviews.map(review => review.id)))
+      .orderBy(reviewScores.criterionId);
+    const scoresByReview = new Map<string, ReviewScore[]>();
+    for (const score of scores) {
+      scoresByReview.set(score.reviewId, [...(scoresByReview.get(score.reviewId) ?? []), score]);
+    }
+    return promptReviews.map(review => ({ ...review, scores: scoresByReview.get(review.id) ?? [] }));
   }
 
-  async getReviewsByPromptId(promptId: string): Promise<Review[]> {
-    return await db.select().from(reviews).where(eq(reviews.promptId, promptId));
+  async getReviewsWithReviewers(promptId: string, round: number): Promise<ReviewWithReviewer[]> {
+    const rows = await this.db
+      .select({ review: reviews, reviewerReputation: users.reputation })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.reviewerId, users.id))
+      .where(and(eq(reviews.promptId, promptId), eq(reviews.round, round)))
+      .orderBy(reviews.createdAt);
+    return rows.map(row => ({ ...row.review, reviewerReputation: row.reviewerReputation }));
+  }
+
+  async getReviewsByReviewerId(reviewerId: string, page?: PageOptions): Promise<Page<Review>> {
+    const keys: SortKey[] = [
+      { expr: reviews.createdAt, type: 'timestamptz' },
+      { expr: reviews.id, type: 'uuid' },
+    ];
+    const condition = eq(reviews.reviewerId, reviewerId);
+    const limit = pageLimit(page);
+    
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({ item: reviews, cursor: cursorValues(keys) })
+        .from(reviews)
+        .where(and(condition, page?.cursor ? keysetCondition(keys, page.cursor) : undefined))
+        .orderBy(...keysetOrderBy(keys))
+        .limit(limit + 1),
+      this.db.$count(reviews, condition),
+    ]);
+    return toPage(rows, limit, totalCount);
   }
 
-  async getReviewsByReviewerId(reviewerId: string): Promise<Review[]> {
-    return await db.select().from(reviews).where(eq(reviews.reviewerId, reviewerId)).orderBy(sql`${reviews.createdAt} DESC`);
+  async getReviewQueue(reviewerId: string, filters: ReviewQueueFilters = {}, page?: PageOptions): Promise<Page<ReviewQueueItem>> {
+    // Returns pending_review prompts and pending revisions of approved prompts this reviewer is
+    // allowed to review, has not reviewed in the current round or at the version under review,
+    // has not skipped this round and nobody else has claimed; prompts stay queued for other
+    // reviewers until consensus is reached. Mirrors the guards in reviewGuards.ts. Access
+    // control (reputation check) is enforced in routes.ts
+    const reviewCount = sql<number>`(
+      select count(*) from ${reviews}
+      where ${reviews.promptId} = ${outerPromptId} and ${reviews.round} = ${outerReviewRound}
+    )`;
+    const firstTimeAuthor = sql<boolean>`not exists (
+      select 1 from ${prompts} ${authorPrompt}
+      where ${authorPrompt.authorId} = ${outerAuthorId} and ${authorPrompt.status} = 'approved'
+    )`;
+    const queuedAt = sql`coalesce(${outerSubmittedAt}, ${prompts}.${sql.identifier(prompts.createdAt.name)})`;
+    const myClaimExpiresAt = sql`(
+      select ${reviewClaims.expiresAt} from ${reviewClaims}
+      where ${reviewClaims.promptId} = ${outerPromptId}
+        and ${reviewClaims.reviewerId} = ${reviewerId}
+        and ${reviewClaims.expiresAt} > now()
+    )`;
+    
+    // Prompts the reviewer has claimed come first, then by boosted queue time
+    const boostHours = sql`(
+      (case when ${outerReviewRound} > 1 then ${REVIEW_QUEUE.RESUBMISSION_BOOST_HOURS} else 0 end)
+      + ${reviewCount} * ${REVIEW_QUEUE.PER_REVIEW_BOOST_HOURS}
+      + (case when ${firstTimeAuthor} then ${REVIEW_QUEUE.FIRST_TIME_AUTHOR_BOOST_HOURS} else 0 end)
+    )`;
+    const keys: SortKey[] = [
+      { expr: sql`(case when ${myClaimExpiresAt} is null then 1 else 0 end)`, type: 'int8' },
+      { expr: sql`(${queuedAt} - ${boostHours}::float8 * interval '1 hour')`, type: 'timestamptz' },
+      idKey,
+    ];
+    const direction: SortDirection = 'asc';
+    
+    const condition = and(
+      or(eq(prompts.status, 'pending_review'), eq(prompts.pendingStatus, 'pending_review')),
+      ne(prompts.authorId, reviewerId),
+      sql`not exists (
+        select 1 from ${reviews}
+        where ${reviews.promptId} = ${outerPromptId}
+          and ${reviews.reviewerId} = ${reviewerId}
+          and (
+            ${reviews.round} = ${outerReviewRound}
+            or ${reviews.promptVersion} = coalesce(${outerPendingVersion}, ${outerPromptVersion})
+          )
+      )`,
+      sql`not exists (
+        select 1 from ${reviewSkips}
+        where ${reviewSkips.promptId} = ${outerPromptId}
+          and ${reviewSkips.reviewerId} = ${reviewerId}
+          and ${reviewSkips.round} = ${outerReviewRound}
+      )`,
+      sql`not exists (
+        select 1 from ${reviewClaims}
+        where ${reviewClaims.promptId} = ${outerPromptId}
+          and ${reviewClaims.reviewerId} <> ${reviewerId}
+          and ${reviewClaims.expiresAt} > now()
+      )`,
+      REVIEW_CONFLICT_RULES.BLOCK_FORK_RELATIONSHIPS
+        ? sql`not exists (
+            select 1 from ${prompts} ${forkChild}
+            inner join ${prompts} ${forkParent} on ${forkChild.parentPromptId} = ${forkParent.id}
+            where ${forkRelationshipCondition(reviewerId, outerAuthorId)}
+          )`
+        : undefined,
+      filters.techniqueId !== undefined
+        ? sql`exists (
+            select 1 from ${promptTechniqueLinks}
+            where ${promptTechniqueLinks.promptId} = ${outerPromptId}
+              and ${promptTechniqueLinks.techniqueId} = ${filters.techniqueId}
+          )`
+        : undefined,
+      filters.firstTimeAuthor !== undefined
+        ? (filters.firstTimeAuthor ? firstTimeAuthor : sql`not ${firstTimeAuthor}`)
+        : undefined,
+    );
+    const limit = pageLimit(page);
+    
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({
+          item: {
+            ...getTableColumns(prompts),
+            reviewCount: reviewCount.mapWith(Number),
+            queuedAt: queuedAt.mapWith(prompts.createdAt),
+            firstTimeAuthor: firstTimeAuthor.mapWith(Boolean),
+            claimExpiresAt: sql<Date | null>`${myClaimExpiresAt}`.mapWith(reviewClaims.expiresAt),
+          },
+          revision: promptRevisions,
+          cursor: cursorValues(keys),
+        })
+        .from(prompts)
+        .leftJoin(promptRevisions, and(
+          eq(promptRevisions.promptId, prompts.id),
+          eq(promptRevisions.version, prompts.pendingVersion),
+        ))
+        .where(and(condition, page?.cursor ? keysetCondition(keys, page.cursor, direction) : undefined))
+        .orderBy(...keysetOrderBy(keys, direction))
+        .limit(limit + 1),
+      this.db.$count(prompts, condition),
+    ]);
+    
+    // Reviewers see the content under review; version still names the live revision
+    const items = rows.map(({ item, revision, cursor }) => ({
+      item: revision
+        ? {
+            ...item,
+            title: revision.title,
+            promptBodyText: revision.promptBodyText,
+            promptBodyJson: revision.promptBodyJson,
+            rationale: revision.rationale,
+            variables: revision.variables,
+          }
+        : item,
+      cursor,
+    }));
+    return toPage(items, limit, totalCount);
   }
 
-  async getReviewQueue(): Promise<Prompt[]> {
-    // Returns all pending_review prompts
-    // Access control (reputation check) is enforced in routes.ts
-    return await db
+  async getActiveReviewClaim(promptId: string): Promise<ReviewClaim | undefined> {
+    const [claim] = await this.db
       .select()
-      .from(prompts)
-      .where(eq(prompts.status, 'pending_review'))
-      .orderBy(prompts.createdAt);
+      .from(reviewClaims)
+      .where(and(eq(reviewClaims.promptId, promptId), sql`${reviewClaims.expiresAt} > now()`));
+    return claim;
   }
 
-  // Vote operations
-  async createVote(voteData: InsertVote): Promise<Vote> {
-    const [vote] = await db
-      .insert(votes)
-      .values(voteData)
+  // Takes (or extends) the claim unless another reviewer holds an unexpired one
+  async claimReview(promptId: string, reviewerId: string): Promise<ReviewClaim | undefined> {
+    const expiresAt = new Date(Date.now() + REVIEW_QUEUE.CLAIM_MINUTES * 60 * 1000);
+    const [claim] = await this.db
+      .insert(reviewClaims)
+      .values({ promptId, reviewerId, expiresAt })
       .onConflictDoUpdate({
-        target: [votes.userId, votes.promptId],
-        set: { voteType: voteData.voteType },
+        target: reviewClaims.promptId,
+        set: { reviewerId, claimedAt: new Date(), expiresAt },
+        setWhere: sql`${reviewClaims.reviewerId} = ${reviewerId} or ${reviewClaims.expiresAt} <= now()`,
       })
       .returning();
-    return vote;
+    return claim;
+  }
+
+  async releaseReviewClaim(promptId: string, reviewerId: string): Promise<void> {
+    await this.db
+      .delete(reviewClaims)
+      .where(and(eq(reviewClaims.promptId, promptId), eq(reviewClaims.reviewerId, reviewerId)));
+  }
+
+  // Hides the prompt from this reviewer's queue until it is resubmitted
+  async skipReview(promptId: string, reviewerId: string, round: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .insert(reviewSkips)
+        .values({ promptId, reviewerId, round })
+        .onConflictDoUpdate({
+          target: [reviewSkips.reviewerId, reviewSkips.promptId],
+          set: { round, createdAt: new Date() },
+        });
+      await tx
+        .delete(reviewClaims)
+        .where(and(eq(reviewClaims.promptId, promptId), eq(reviewClaims.reviewerId, reviewerId)));
+    });
+  }
+
+  async countReviewsSince(reviewerId: string, since?: Date): Promise<number> {
+    return await this.db.$count(
+      reviews,
+      and(eq(reviews.reviewerId, reviewerId), since ? gte(reviews.createdAt, since) : undefined),
+    );
+  }
+
+  // The reviewer's review of this prompt in the given round or at the given version, if any
+  async findReviewerReview(promptId: string, reviewerId: string, round: number, version: number): Promise<Review | undefined> {
+    const [review] = await this.db
+      .select()
+      .from(reviews)
+      .where(and(
+        eq(reviews.promptId, promptId),
+        eq(reviews.reviewerId, reviewerId),
+        or(eq(reviews.round, round), eq(reviews.promptVersion, version)),
+      ))
+      .limit(1);
+    return review;
+  }
+
+  async haveForkRelationship(userA: string, userB: string): Promise<boolean> {
+    const [fork] = await this.db
+      .select({ id: forkChild.id })
+      .from(forkChild)
+      .innerJoin(forkParent, eq(forkChild.parentPromptId, forkParent.id))
+      .where(forkRelationshipCondition(userA, userB))
+      .limit(1);
+    return !!fork;
+  }
+
+  // Review audit operations
+  async createReviewAudit(auditData: { promptId: string; expectedVote: string; createdBy: string }): Promise<ReviewAudit> {
+    const [audit] = await this.db
+      .insert(reviewAudits)
+      .values(auditData)
+      .returning();
+    return audit;
+  }
+
+  async getReviewAuditByPromptId(promptId: string): Promise<ReviewAudit | undefined> {
+    const [audit] = await this.db.select().from(reviewAudits).where(eq(reviewAudits.promptId, promptId));
+    return audit;
+  }
+
+  async getReviewAudits(): Promise<ReviewAuditWithStats[]> {
+    return await this.db
+      .select({
+        ...getTableColumns(reviewAudits),
+        promptTitle: prompts.title,
+        attemptCount: sql<number>`count(${reviewAuditAttempts.passed})`.mapWith(Number),
+        passCount: sql<number>`count(*) filter (where ${reviewAuditAttempts.passed})`.mapWith(Number),
+      })
+      .from(reviewAudits)
+      .innerJoin(prompts, eq(reviewAudits.promptId, prompts.id))
+      .leftJoin(reviewAuditAttempts, eq(reviewAuditAttempts.auditId, reviewAudits.id))
+      .groupBy(reviewAudits.id, prompts.id)
+      .orderBy(desc(reviewAudits.createdAt));
+  }
+
+  async setReviewAuditActive(id: number, active: boolean): Promise<ReviewAudit | undefined> {
+    const [audit] = await this.db
+      .update(reviewAudits)
+      .set({ active })
+      .where(eq(reviewAudits.id, id))
+      .returning();
+    return audit;
+  }
+
+  async getLatestAuditAttempt(reviewerId: string): Promise<ReviewAuditAttempt | undefined> {
+    const [attempt] = await this.db
+      .select()
+      .from(reviewAuditAttempts)
+      .where(eq(reviewAuditAttempts.reviewerId, reviewerId))
+      .orderBy(desc(reviewAuditAttempts.assignedAt))
+      .limit(1);
+    return attempt;
+  }
+
+  // An assigned, unanswered attempt on an active audit (optionally for a specific prompt)
+  async getOpenAuditAttempt(reviewerId: string, promptId?: string): Promise<(ReviewAuditAttempt & { audit: ReviewAudit }) | undefined> {
+    const [row] = await this.db
+      .select({ attempt: reviewAuditAttempts, audit: reviewAudits })
+      .from(reviewAuditAttempts)
+      .innerJoin(reviewAudits, eq(reviewAuditAttempts.auditId, reviewAudits.id))
+      .where(and(
+        eq(reviewAuditAttempts.reviewerId, reviewerId),
+        isNull(reviewAuditAttempts.answeredAt),
+        eq(reviewAudits.active, true),
+        promptId ? eq(reviewAudits.promptId, promptId) : undefined,
+      ))
+      .orderBy(reviewAuditAttempts.assignedAt)
+      .limit(1);
+    return row && { ...row.attempt, audit: row.audit };
+  }
+
+  // Picks a random active audit the reviewer has never seen, didn't write and didn't review,
+  // tagged with the technique when the queue is filtered by one
+  async assignReviewAudit(reviewerId: string, techniqueId?: number): Promise<(ReviewAuditAttempt & { audit: ReviewAudit }) | undefined> {
+    const [audit] = await this.db
+      .select(getTableColumns(reviewAudits))
+      .from(reviewAudits)
+      .innerJoin(prompts, eq(reviewAudits.promptId, prompts.id))
+      .where(and(
+        eq(reviewAudits.active, true),
+        ne(prompts.authorId, reviewerId),
+        sql`not exists (
+          select 1 from ${reviewAuditAttempts}
+          where ${reviewAuditAttempts.auditId} = ${reviewAudits.id}
+            and ${reviewAuditAttempts.reviewerId} = ${reviewerId}
+        )`,
+        sql`not exists (
+          select 1 from ${reviews}
+          where ${reviews.promptId} = ${reviewAudits.promptId} and ${reviews.reviewerId} = ${reviewerId}
+        )`,
+        techniqueId === undefined ? undefined : sql`exists (
+          select 1 from ${promptTechniqueLinks}
+          where ${promptTechniqueLinks.promptId} = ${reviewAudits.promptId}
+            and ${promptTechniqueLinks.techniqueId} = ${techniqueId}
+        )`,
+      ))
+      .orderBy(sql`random()`)
+      .limit(1);
+    if (!audit) {
+      return undefined;
+    }
+    
+    const [attempt] = await this.db
+      .insert(reviewAuditAttempts)
+      .values({ auditId: audit.id, reviewerId })
+      .onConflictDoNothing()
+      .returning();
+    return attempt && { ...attempt, audit };
+  }
+
+  // Compare-and-set so an attempt is only scored once; vote and passed stay null for skips
+  async answerAuditAttempt(attemptId: number, vote: string | null, passed: boolean | null): Promise<ReviewAuditAttempt | undefined> {
+    const [attempt] = await this.db
+      .update(reviewAuditAttempts)
+      .set({ vote, passed, answeredAt: new Date() })
+      .where(and(eq(reviewAuditAttempts.id, attemptId), isNull(reviewAuditAttempts.answeredAt)))
+      .returning();
+    return attempt;
+  }
+
+  // Most recent scored (not skipped) attempts, newest first
+  async getRecentAuditResults(reviewerId: string, limit: number, since?: Date): Promise<ReviewAuditAttempt[]> {
+    return await this.db
+      .select()
+      .from(reviewAuditAttempts)
+      .where(and(
+        eq(reviewAuditAttempts.reviewerId, reviewerId),
+        sql`${reviewAuditAttempts.passed} is not null`,
+        since ? gte(reviewAuditAttempts.answeredAt, since) : undefined,
+      ))
+      .orderBy(desc(reviewAuditAttempts.answeredAt))
+      .limit(limit);
+  }
+
+  // Review rubric operations
+  async getReviewCriteria(): Promise<ReviewCriterion[]> {
+    return await this.db
+      .select()
+      .from(reviewCriteria)
+      .orderBy(reviewCriteria.sortOrder, reviewCriteria.id);
+  }
+
+  async createReviewCriterion(criterionData: InsertReviewCriterion): Promise<ReviewCriterion> {
+    const [criterion] = await this.db
+      .insert(reviewCriteria)
+      .values(criterionData)
+      .returning();
+    return criterion;
+  }
+
+  async updateReviewCriterion(id: number, data: UpdateReviewCriterion): Promise<ReviewCriterion | undefined> {
+    const [criterion] = await this.db
+      .update(reviewCriteria)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(reviewCriteria.id, id))
+      .returning();
+    return criterion;
+  }
+
+  async getPromptRubricSummary(promptId: string): Promise<RubricScoreSummary[]> {
+    return await this.rubricSummary(eq(reviews.promptId, promptId));
+  }
+
+  // Across every review of every prompt the user authored
+  async getAuthorRubricSummary(authorId: string): Promise<RubricScoreSummary[]> {
+    return await this.rubricSummary(eq(prompts.authorId, authorId));
+  }
+
+  // Per-criterion averages over all review rounds; retired criteria still report their history
+  private async rubricSummary(condition: SQL): Promise<RubricScoreSummary[]> {
+    return await this.db
+      .select({
+        criterionId: reviewCriteria.id,
+        key: reviewCriteria.key,
+        name: reviewCriteria.name,
+        averageScore: sql<number>`avg(${reviewScores.score})::float8`.mapWith(Number),
+        scoreCount: sql<number>`count(*)`.mapWith(Number),
+      })
+      .from(reviewScores)
+      .innerJoin(reviews, eq(reviewScores.reviewId, reviews.id))
+      .innerJoin(prompts, eq(reviews.promptId, prompts.id))
+      .innerJoin(reviewCriteria, eq(reviewScores.criterionId, reviewCriteria.id))
+      .where(condition)
+      .groupBy(reviewCriteria.id)
+      .orderBy(reviewCriteria.sortOrder, reviewCriteria.id);
+  }
+
+  // Vote operations
+  // The vote and the reputation it moves commit together. Locking the prompt serializes votes
+  // on it, so `settle` always sees the vote that was actually credited before; locking the voter
+  // and author keeps their daily totals still while `settle` reads them. `settle` returns
+  // undefined to refuse the vote, which then leaves nothing behind.
+  async castVote(
+    voteData: InsertVote,
+    settle: (previous: Vote | undefined, ledger: VoteLedger) => Promise<VoteSettlement | undefined>,
+  ): Promise<Vote | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const previous = await lockVote(tx, voteData.userId, voteData.promptId);
+      const settlement = await settle(previous, voteLedger(tx));
+      if (!settlement) {
+        return undefined;
+      }
+      const [vote] = await tx
+        .insert(votes)
+        .values({ ...voteData, cappedAmount: settlement.cappedAmount })
+        .onConflictDoUpdate({
+          target: [votes.userId, votes.promptId],
+          set: { voteType: voteData.voteType, cappedAmount: settlement.cappedAmount },
+        })
+        .returning();
+      if (!previous) {
+        await tx.insert(voteCasts).values({ userId: vote.userId, promptId: vote.promptId });
+      }
+      await applyReputationEvents(tx, settlement.events);
+      return vote;
+    });
   }
 
   async getVotesByPromptId(promptId: string): Promise<Vote[]> {
-    return await db.select().from(votes).where(eq(votes.promptId, promptId));
+    return await this.db.select().from(votes).where(eq(votes.promptId, promptId));
   }
 
   async getUserVoteForPrompt(userId: string, promptId: string): Promise<Vote | undefined> {
-    const [vote] = await db
+    const [vote] = await this.db
       .select()
       .from(votes)
       .where(and(eq(votes.userId, userId), eq(votes.promptId, promptId)));
     return vote;
   }
 
-  async deleteVote(userId: string, promptId: string): Promise<void> {
-    await db
-      .delete(votes)
-      .where(and(eq(votes.userId, userId), eq(votes.promptId, promptId)));
+  // Removes the vote and reverses its reputation together, under the same lock as castVote.
+  // Returns the removed vote, or undefined if there was none (and nothing to reverse).
+  async retractVote(
+    userId: string,
+    promptId: string,
+    settle: (previous: Vote, ledger: VoteLedger) => Promise<InsertReputationEvent[]>,
+  ): Promise<Vote | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const previous = await lockVote(tx, userId, promptId);
+      if (!previous) {
+        return undefined;
+      }
+      await tx.delete(votes).where(and(eq(votes.userId, userId), eq(votes.promptId, promptId)));
+      await applyReputationEvents(tx, await settle(previous, voteLedger(tx)));
+      return previous;
+    });
   }
 
   async getVoteCount(promptId: string): Promise<{ upvotes: number; downvotes: number; total: number }> {
@@ -360,41 +2031,201 @@ export class DatabaseStorage implements IStorage {
 
   // Comment operations
   async createComment(commentData: InsertComment): Promise<Comment> {
-    const [comment] = await db
+    const [comment] = await this.db
       .insert(comments)
       .values(commentData)
       .returning();
     return comment;
   }
 
-  async getCommentsByPromptId(promptId: string): Promise<Comment[]> {
-    return await db
-      .select()
-      .from(comments)
-      .where(eq(comments.promptId, promptId))
-      .orderBy(comments.createdAt);
+  async getCommentsByPromptId(promptId: string, page?: PageOptions): Promise<Page<Comment>> {
+    // Oldest first so threads read top to bottom
+    const keys: SortKey[] = [
+      { expr: comments.createdAt, type: 'timestamptz' },
+      { expr: comments.id, type: 'uuid' },
+    ];
+    const direction: SortDirection = 'asc';
+    const condition = eq(comments.promptId, promptId);
+    const limit = pageLimit(page);
+    
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({ item: comments, cursor: cursorValues(keys) })
+        .from(comments)
+        .where(and(condition, page?.cursor ? keysetCondition(keys, page.cursor, direction) : undefined))
+        .orderBy(...keysetOrderBy(keys, direction))
+        .limit(limit + 1),
+      this.db.$count(comments, condition),
+    ]);
+    return toPage(rows, limit, totalCount);
   }
 
-  // Reputation operations
-  async createReputationEvent(eventData: InsertReputationEvent): Promise<ReputationEvent> {
-    const [event] = await db
-      .insert(reputationEvents)
-      .values(eventData)
+  // Notification operations
+  async createNotification(notificationData: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db
+      .insert(notifications)
+      .values(notificationData)
       .returning();
-    return event;
+    return notification;
   }
 
-  async getReputationHistory(userId: string): Promise<ReputationEvent[]> {
-    return await db
-      .select()
+  async getNotifications(userId: string, page?: PageOptions): Promise<Page<Notification>> {
+    const keys: SortKey[] = [
+      { expr: notifications.createdAt, type: 'timestamptz' },
+      { expr: notifications.id, type: 'int8' },
+    ];
+    const condition = eq(notifications.userId, userId);
+    const limit = pageLimit(page);
+    
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({ item: notifications, cursor: cursorValues(keys) })
+        .from(notifications)
+        .where(and(condition, page?.cursor ? keysetCondition(keys, page.cursor) : undefined))
+        .orderBy(...keysetOrderBy(keys))
+        .limit(limit + 1),
+      this.db.$count(notifications, condition),
+    ]);
+    return toPage(rows, limit, totalCount);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    return await this.db.$count(notifications, and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async markNotificationRead(id: number, userId: string): Promise<Notification | undefined> {
+    const [notification] = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  // Reputation operations
+  async recordReputationEvents(events: InsertReputationEvent[]): Promise<ReputationEvent[]> {
+    return await this.db.transaction(tx => applyReputationEvents(tx, events));
+  }
+
+  async getReputationHistory(userId: string, page?: PageOptions): Promise<Page<ReputationEvent>> {
+    const keys: SortKey[] = [
+      { expr: reputationEvents.createdAt, type: 'timestamptz' },
+      { expr: reputationEvents.id, type: 'int8' },
+    ];
+    const condition = eq(reputationEvents.userId, userId);
+    const limit = pageLimit(page);
+    
+    const [rows, totalCount] = await Promise.all([
+      this.db
+        .select({ item: reputationEvents, cursor: cursorValues(keys) })
+        .from(reputationEvents)
+        .where(and(condition, page?.cursor ? keysetCondition(keys, page.cursor) : undefined))
+        .orderBy(...keysetOrderBy(keys))
+        .limit(limit + 1),
+      this.db.$count(reputationEvents, condition),
+    ]);
+    return toPage(rows, limit, totalCount);
+  }
+
+  async getReputationDrift(): Promise<ReputationDrift[]> {
+    return await this.db
+      .select({ userId: users.id, username: users.username, reputation: users.reputation, ledgerTotal })
+      .from(users)
+      .where(sql`${users.reputation} <> ${ledgerTotal}`)
+      .orderBy(users.id);
+  }
+
+  // Resets each user's counter to their ledger total. The rows are locked first so the totals
+  // are read after any ledger write still in flight for them has committed.
+  async repairReputationDrift(userIds: string[]): Promise<number> {
+    if (userIds.length === 0) {
+      return 0;
+    }
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(inArray(users.id, userIds))
+        .orderBy(users.id)
+        .for('update');
+      const repaired = await tx
+        .update(users)
+        .set({ reputation: ledgerTotal, updatedAt: new Date() })
+        .where(and(inArray(users.id, userIds), sql`${users.reputation} <> ${ledgerTotal}`))
+        .returning({ id: users.id });
+      return repaired.length;
+    });
+  }
+
+  async getReputationEventTotals(eventTypes: string[]): Promise<ReputationEventTotal[]> {
+    return await this.db
+      .select({
+        userId: reputationEvents.userId,
+        promptId: reputationEvents.relatedPromptId,
+        total: sql<number>`sum(${reputationEvents.changeAmount})`.mapWith(Number),
+      })
       .from(reputationEvents)
-      .where(eq(reputationEvents.userId, userId))
-      .orderBy(desc(reputationEvents.createdAt));
+      .where(inArray(reputationEvents.eventType, eventTypes))
+      .groupBy(reputationEvents.userId, reputationEvents.relatedPromptId);
+  }
+
+  async getPromptVoteCounts(): Promise<{ promptId: string; authorId: string; upvotes: number; downvotes: number }[]> {
+    return await this.db
+      .select({
+        promptId: prompts.id,
+        authorId: prompts.authorId,
+        upvotes: sql<number>`count(*) filter (where ${votes.voteType} = 'upvote')`.mapWith(Number),
+        downvotes: sql<number>`count(*) filter (where ${votes.voteType} = 'downvote')`.mapWith(Number),
+      })
+      .from(votes)
+      .innerJoin(prompts, eq(votes.promptId, prompts.id))
+      .groupBy(prompts.id, prompts.authorId);
+  }
+
+  async getDownvoteCountsByVoter(): Promise<{ userId: string; downvotes: number }[]> {
+    return await this.db
+      .select({ userId: votes.userId, downvotes: sql<number>`count(*)`.mapWith(Number) })
+      .from(votes)
+      .where(eq(votes.voteType, 'downvote'))
+      .groupBy(votes.userId);
+  }
+
+  // Review verdicts on new prompts (not pending revisions), for prompts whose whole history is
+  // in prompt_transitions: ones created before the audit log have no creation row and are skipped
+  async getReviewVerdictCounts(): Promise<{ promptId: string; authorId: string; approved: number; rejected: number }[]> {
+    const verdictCount = (status: PromptStatus) => sql<number>`(
+      select count(*) from ${promptTransitions}
+      where ${promptTransitions.promptId} = ${outerPromptId}
+        and ${promptTransitions.revisionVersion} is null
+        and ${promptTransitions.actorRole} = 'review'
+        and ${promptTransitions.toStatus} = ${status}
+    )`.mapWith(Number);
+    return await this.db
+      .select({
+        promptId: prompts.id,
+        authorId: prompts.authorId,
+        approved: verdictCount('approved'),
+        rejected: verdictCount('rejected'),
+      })
+      .from(prompts)
+      .where(sql`exists (
+        select 1 from ${promptTransitions}
+        where ${promptTransitions.promptId} = ${outerPromptId}
+          and ${promptTransitions.revisionVersion} is null
+          and ${promptTransitions.fromStatus} is null
+      )`);
   }
 
   // Badge operations
   async createBadge(badgeData: InsertBadge): Promise<Badge> {
-    const [badge] = await db
+    const [badge] = await this.db
       .insert(badges)
       .values(badgeData)
       .returning();
@@ -402,11 +2233,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getBadges(): Promise<Badge[]> {
-    return await db.select().from(badges);
+    return await this.db.select().from(badges);
   }
 
   async awardBadge(userId: string, badgeId: number): Promise<UserBadge> {
-    const [userBadge] = await db
+    const [userBadge] = await this.db
       .insert(userBadges)
       .values({ userId, badgeId })
       .onConflictDoNothing()
@@ -415,7 +2246,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUserBadges(userId: string): Promise<(UserBadge & { badge: Badge })[]> {
-    const result = await db
+    const result = await this.db
       .select({
         userId: userBadges.userId,
         badgeId: userBadges.badgeId,
@@ -431,7 +2262,7 @@ export class DatabaseStorage implements IStorage {
 
   // Technique operations
   async createTechnique(techniqueData: InsertPromptTechnique): Promise<PromptTechnique> {
-    const [technique] = await db
+    const [technique] = await this.db
       .insert(promptTechniques)
       .values(techniqueData)
       .returning();
@@ -439,39 +2270,19 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getTechniques(): Promise<PromptTechnique[]> {
-    return await db.select().from(promptTechniques);
+    return await this.db.select().from(promptTechniques);
   }
 
   async getTechniqueTree(): Promise<PromptTechnique[]> {
     // Get all techniques ordered by parent relationship for tree structure
-    return await db
+    return await this.db
       .select()
       .from(promptTechniques)
       .orderBy(promptTechniques.parentId, promptTechniques.id);
   }
 
-  async linkPromptToTechnique(promptId: string, techniqueId: number): Promise<PromptTechniqueLink> {
-    const [link] = await db
-      .insert(promptTechniqueLinks)
-      .values({ promptId, techniqueId })
-      .onConflictDoNothing()
-      .returning();
-    return link;
-  }
-
-  async unlinkPromptFromTechnique(promptId: string, techniqueId: number): Promise<void> {
-    await db
-      .delete(promptTechniqueLinks)
-      .where(
-        and(
-          eq(promptTechniqueLinks.promptId, promptId),
-          eq(promptTechniqueLinks.techniqueId, techniqueId)
-        )
-      );
-  }
-
   async getPromptTechniques(promptId: string): Promise<PromptTechnique[]> {
-    const result = await db
+    const result = await this.db
       .select({ technique: promptTechniques })
       .from(promptTechniqueLinks)
       .innerJoin(promptTechniques, eq(promptTechniqueLinks.techniqueId, promptTechniques.id))
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getEconomy } from "@shared/economy";
+import { prompts, users, type Prompt, type SuggestedEditWithPrompt } from "@shared/schema";
+import { db, resetDatabase } from "./testDatabase";
+import { storage } from "./storage";
+import { reviewSuggestedEdit, suggestEdit } from "./suggestedEdits";
+
+vi.mock("./db", () => import("./testDatabase"));
+
+describe("accepting a suggested edit", () => {
+  let prompt: Prompt;
+  let edit: SuggestedEditWithPrompt;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await db.insert(users).values([
+      { id: "author", username: "author" },
+      { id: "suggester", username: "suggester", reputation: 100 },
+    ]);
+    prompt = await storage.createPrompt({
+      authorId: "author",
+      title: "Prompt",
+      promptBodyText: "Body",
+      rationale: "Rationale",
+      status: "approved",
+      variables: [],
+    });
+    const suggested = await suggestEdit((await storage.getUser("suggester"))!, {
+      promptId: prompt.id,
+      title: "Clearer prompt",
+      summary: "Clearer title",
+    });
+    if ('refusal' in suggested) {
+      throw new Error(suggested.refusal.message);
+    }
+    edit = (await storage.getSuggestedEdit(suggested.edit.id))!;
+  });
+
+  const accept = async () => reviewSuggestedEdit(edit, (await storage.getUser("author"))!, 'accept');
+
+  it("merges and pays out once when accepted twice", async () => {
+    expect(await accept()).toHaveProperty('edit.mergedVersion', 2);
+    expect(await accept()).toEqual({ refusal: expect.objectContaining({ status: 409 }) });
+
+    expect((await storage.getPromptRevisions(prompt.id)).totalCount).toBe(2);
+    expect((await storage.getUser("suggester"))!.reputation).toBe(100 + getEconomy().reputation.SUGGESTED_EDIT_ACCEPTED);
+  });
+
+  it("leaves the suggestion pending and unpaid when it can no longer be applied", async () => {
+    await db.update(prompts).set({ status: 'archived' });
+
+    expect(await accept()).toEqual({ refusal: expect.objectContaining({ status: 409 }) });
+    expect((await storage.getSuggestedEdit(edit.id))?.status).toBe('pending');
+    expect((await storage.getUser("suggester"))!.reputation).toBe(100);
+  });
+});
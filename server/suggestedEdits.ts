@@ -0,0 +1,219 @@
+// Suggested edits: users who are not the author propose a fix to a prompt (Stack Overflow
+// style). Suggestions wait in their own queue until the author or a reviewer accepts one, which
+// applies it as a new revision credited to the suggester, or rejects it.
+import { storage, type IStorage } from "./storage";
+import { handleSuggestedEditAccepted } from "./reputationSystem";
+import { applyContributedEdit, ContributedEditConflict } from "./promptLifecycle";
+import { reviewSuspensionBlock } from "./reviewAudits";
+import { getEconomy } from "@shared/economy";
+import { canReviewSuggestedEdit, isUnderReview, promptGraphSchema, reviewVersionOf } from "@shared/schema";
+import type { InsertSuggestedEdit, Prompt, SuggestedEdit, SuggestedEditWithPrompt, UpdatePrompt, User } from "@shared/schema";
+import { findUndeclaredPlaceholders } from "@shared/templates";
+
+export type SuggestedEditAction = 'accept' | 'reject';
+
+type SuggestedEditRefusal = {
+  status: 400 | 403 | 404 | 409;
+  message: string;
+};
+
+const ALREADY_REVIEWED: SuggestedEditRefusal = {
+  status: 409,
+  message: "This suggestion has already been reviewed",
+};
+
+const sameSet = (a: number[], b: number[]) => a.length === b.length && a.every(id => b.includes(id));
+
+// Suggestions are written against the content under review: the pending revision of an
+// approved prompt if there is one, otherwise the prompt itself
+async function currentContent(prompt: Prompt) {
+  const revision = prompt.pendingVersion !== null
+    ? await storage.getPromptRevision(prompt.id, prompt.pendingVersion)
+    : undefined;
+  const techniqueIds = revision?.techniqueIds
+    ?? (await storage.getPromptTechniques(prompt.id)).map(technique => technique.id);
+  return { content: revision ?? prompt, techniqueIds };
+}
+
+export async function suggestEdit(
+  user: User,
+  data: InsertSuggestedEdit,
+): Promise<{ edit: SuggestedEdit } | { refusal: SuggestedEditRefusal }> {
+  const prompt = await storage.getPrompt(data.promptId);
+  if (!prompt) {
+    return { refusal: { status: 404, message: "Prompt not found" } };
+  }
+  if (prompt.authorId === user.id) {
+    return { refusal: { status: 400, message: "You wrote this prompt; edit it directly instead" } };
+  }
+  const { thresholds } = getEconomy();
+  if (user.reputation < thresholds.SUGGEST_EDIT) {
+    return { refusal: { status: 403, message: `You need ${thresholds.SUGGEST_EDIT} reputation to suggest edits` } };
+  }
+  if (prompt.status === 'draft' || prompt.status === 'archived') {
+    return { refusal: { status: 409, message: `Edits cannot be suggested for a prompt that is ${prompt.status}` } };
+  }
+  if (await storage.getPendingSuggestedEdit(prompt.id, user.id)) {
+    return { refusal: { status: 409, message: "You already have a suggestion waiting on this prompt" } };
+  }
+
+  // Keep only the fields that actually change
+  const { content, techniqueIds } = await currentContent(prompt);
+  const changes = {
+    title: data.title !== undefined && data.title !== content.title ? data.title : null,
+    promptBodyText: data.promptBodyText !== undefined && data.promptBodyText !== content.promptBodyText ? data.promptBodyText : null,
+    rationale: data.rationale !== undefined && data.rationale !== content.rationale ? data.rationale : null,
+    variables: data.variables !== undefined && JSON.stringify(data.variables) !== JSON.stringify(content.variables) ? data.variables : null,
+    techniqueIds: data.techniqueIds !== undefined && !sameSet(data.techniqueIds, techniqueIds) ? Array.from(new Set(data.techniqueIds)) : null,
+  };
+  if (Object.values(changes).every(value => value === null)) {
+    return { refusal: { status: 400, message: "The suggestion does not change anything" } };
+  }
+
+  // The body of a composer prompt is compiled from its graph, so text edits would be lost
+  if (changes.promptBodyText !== null && promptGraphSchema.safeParse(content.promptBodyJson).data) {
+    return { refusal: { status: 400, message: "This prompt is built in the composer; suggest body changes in a comment instead" } };
+  }
+  const undeclared = findUndeclaredPlaceholders(
+    changes.promptBodyText ?? content.promptBodyText,
+    changes.variables ?? content.variables,
+  );
+  if (undeclared.length > 0) {
+    return { refusal: { status: 400, message: `Undeclared template variables: ${undeclared.join(', ')}` } };
+  }
+  if (changes.techniqueIds) {
+    const known = new Set((await storage.getTechniques()).map(technique => technique.id));
+    if (changes.techniqueIds.some(id => !known.has(id))) {
+      return { refusal: { status: 400, message: "Unknown technique" } };
+    }
+  }
+
+  const edit = await storage.createSuggestedEdit({
+    ...changes,
+    promptId: prompt.id,
+    suggesterId: user.id,
+    baseVersion: reviewVersionOf(prompt),
+    summary: data.summary,
+  });
+  await storage.createNotification({
+    userId: prompt.authorId,
+    type: 'edit_suggested',
+    message: `${user.username} suggested an edit to "${prompt.title}": ${edit.summary}`,
+    promptId: prompt.id,
+  });
+  return { edit };
+}
+
+// Applies the changed fields, technique tags included, on top of whatever the prompt holds now
+// through applyContributedEdit
+async function mergeSuggestedEdit(tx: IStorage, edit: SuggestedEditWithPrompt): Promise<{ prompt: Prompt; edit: SuggestedEdit } | undefined> {
+  const prompt = await tx.getPrompt(edit.promptId);
+  if (!prompt || prompt.status === 'archived') {
+    return undefined;
+  }
+
+  const content: UpdatePrompt = {
+    ...(edit.title !== null && { title: edit.title }),
+    ...(edit.promptBodyText !== null && { promptBodyText: edit.promptBodyText }),
+    ...(edit.rationale !== null && { rationale: edit.rationale }),
+    ...(edit.variables !== null && { variables: edit.variables }),
+    ...(edit.techniqueIds !== null && { techniqueIds: edit.techniqueIds }),
+    editSummary: `Suggested edit #${edit.id}: ${edit.summary}`.slice(0, 500),
+  };
+  const merged = await applyContributedEdit(prompt, edit.suggesterId, content, tx);
+  if (!merged) {
+    return undefined;
+  }
+
+  const recorded = await tx.recordSuggestedEditMerge(edit.id, reviewVersionOf(merged));
+  return recorded && { prompt: merged, edit: recorded };
+}
+
+export async function reviewSuggestedEdit(
+  edit: SuggestedEditWithPrompt,
+  user: User,
+  action: SuggestedEditAction,
+  reason?: string,
+): Promise<{ edit: SuggestedEdit } | { refusal: SuggestedEditRefusal }> {
+  if (edit.status !== 'pending') {
+    return { refusal: ALREADY_REVIEWED };
+  }
+  if (!canReviewSuggestedEdit(edit, user)) {
+    return {
+      refusal: {
+        status: 403,
+        message: edit.suggesterId === user.id
+          ? "You cannot review your own suggestion"
+          : `Only the author or users with ${getEconomy().thresholds.REVIEW} reputation can review suggested edits`,
+      },
+    };
+  }
+  const suspension = edit.promptAuthorId !== user.id ? reviewSuspensionBlock(user) : null;
+  if (suspension) {
+    return { refusal: { status: suspension.status, message: suspension.message } };
+  }
+  if (action === 'accept') {
+    const prompt = await storage.getPrompt(edit.promptId);
+    if (prompt && isUnderReview(prompt)) {
+      return { refusal: { status: 409, message: "The prompt is under review; accept this suggestion once reviewers have decided" } };
+    }
+  }
+
+  if (action === 'reject') {
+    const rejected = await storage.resolveSuggestedEdit(edit.id, 'rejected', user.id, reason);
+    if (!rejected) {
+      return { refusal: ALREADY_REVIEWED };
+    }
+    await storage.createNotification({
+      userId: edit.suggesterId,
+      type: 'suggested_edit_rejected',
+      message: `Your suggested edit to "${edit.promptTitle}" was rejected`,
+      promptId: edit.promptId,
+    });
+    return { edit: rejected };
+  }
+
+  // Accepting, merging and paying the suggester commit together; accepting first means a
+  // concurrent accept finds the suggestion reviewed, and a merge that cannot apply rolls the
+  // acceptance back
+  let merged: Awaited<ReturnType<typeof mergeSuggestedEdit>>;
+  try {
+    merged = await storage.transaction(async (tx) => {
+      if (!await tx.resolveSuggestedEdit(edit.id, 'accepted', user.id, reason)) {
+        return undefined;
+      }
+      const applied = await mergeSuggestedEdit(tx, edit);
+      if (!applied) {
+        throw new ContributedEditConflict();
+      }
+      await handleSuggestedEditAccepted(applied.edit, tx);
+      return applied;
+    });
+  } catch (error) {
+    if (error instanceof ContributedEditConflict) {
+      return { refusal: { status: 409, message: "The prompt can no longer be edited" } };
+    }
+    throw error;
+  }
+  if (!merged) {
+    return { refusal: ALREADY_REVIEWED };
+  }
+
+  await storage.createNotification({
+    userId: edit.suggesterId,
+    type: 'suggested_edit_accepted',
+    message: `Your suggested edit to "${edit.promptTitle}" was accepted`,
+    promptId: edit.promptId,
+  });
+  if (edit.promptAuthorId !== user.id) {
+    await storage.createNotification({
+      userId: edit.promptAuthorId,
+      type: 'suggested_edit_accepted',
+      message: merged.prompt.pendingStatus === 'draft'
+        ? `A suggested edit to "${edit.promptTitle}" was accepted into your draft edit; submit it for review to publish it`
+        : `A suggested edit to "${edit.promptTitle}" was accepted`,
+      promptId: edit.promptId,
+    });
+  }
+  return { edit: merged.edit };
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import type { PromptVariable } from "@shared/schema";
+import { extractPlaceholders, fillTemplate, findUndeclaredPlaceholders } from "@shared/templates";
+
+describe("prompt templates", () => {
+  it("lists placeholders once, in order of first appearance", () => {
+    expect(extractPlaceholders("{{ b }} then {{a}} then {{b}} but not {{1x}}")).toEqual(["b", "a"]);
+    expect(extractPlaceholders(null)).toEqual([]);
+  });
+
+  it("finds placeholders with no declared variable", () => {
+    expect(findUndeclaredPlaceholders("{{topic}} for {{audience}}", [{ name: "topic", type: "string" }])).toEqual(["audience"]);
+  });
+
+  it("fills values, falls back to defaults and leaves the rest alone", () => {
+    const variables: PromptVariable[] = [{ name: "topic", type: "string" }, { name: "tone", type: "string", default: "friendly" }];
+    expect(fillTemplate("A {{ tone }} note on {{topic}} for {{audience}}", variables, { topic: "tides", tone: "" }))
+      .toBe("A friendly note on tides for {{audience}}");
+  });
+});
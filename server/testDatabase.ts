@@ -0,0 +1,22 @@
+// In-process Postgres for the server tests. Test files swap it in for ./db with
+// `vi.mock("./db", () => import("./testDatabase"))`; each file gets its own database.
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { createRequire } from "module";
+import * as schema from "@shared/schema";
+
+// drizzle-kit's ESM build cannot load inside vitest, so take the CommonJS one
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+export const pool = new PGlite();
+export const db = drizzle(pool, { schema });
+
+// Drops everything and recreates the schema from shared/schema.ts
+export async function resetDatabase() {
+  await pool.exec("drop schema public cascade; create schema public;");
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await pool.exec(statement);
+  }
+}
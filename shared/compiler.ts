@@ -0,0 +1,107 @@
+// Deterministic compiler from the Visual Prompt Composer graph to executable prompt text
+import type { ComposerNode, ComposerNodeType, PromptGraph } from "./schema";
+import { PLACEHOLDER_PATTERN } from "./templates";
+
+export interface CompiledPrompt {
+  text: string;
+  variables: string[]; // Placeholder names in order of first appearance
+}
+
+// Tie-break order when several nodes are ready at once: framing first, output spec last
+const NODE_TYPE_ORDER: ComposerNodeType[] = [
+  "role",
+  "context",
+  "instruction",
+  "example",
+  "constraint",
+  "output_format",
+];
+
+const SECTION_HEADERS: Record<ComposerNodeType, string> = {
+  role: "Role",
+  context: "Context",
+  instruction: "Instructions",
+  example: "Example",
+  constraint: "Constraints",
+  output_format: "Output Format",
+};
+
+function compareNodes(a: ComposerNode, b: ComposerNode) {
+  return (
+    NODE_TYPE_ORDER.indexOf(a.type) - NODE_TYPE_ORDER.indexOf(b.type) ||
+    a.position.y - b.position.y ||
+    a.position.x - b.position.x ||
+    (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+}
+
+// Kahn's algorithm; the ready set is kept sorted so equal graphs always compile identically
+export function orderNodes(graph: PromptGraph): ComposerNode[] {
+  const inDegree = new Map<string, number>(graph.nodes.map((node) => [node.id, 0]));
+  const outgoing = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    inDegree.set(edge.target, (inDegree.get(edge.target) ?? 0) + 1);
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge.target]);
+  }
+
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const ready = graph.nodes.filter((node) => inDegree.get(node.id) === 0);
+  const ordered: ComposerNode[] = [];
+
+  while (ready.length > 0) {
+    ready.sort(compareNodes);
+    const node = ready.shift()!;
+    ordered.push(node);
+    for (const targetId of outgoing.get(node.id) ?? []) {
+      const remaining = inDegree.get(targetId)! - 1;
+      inDegree.set(targetId, remaining);
+      if (remaining === 0) {
+        ready.push(byId.get(targetId)!);
+      }
+    }
+  }
+
+  if (ordered.length !== graph.nodes.length) {
+    throw new Error("Composer graph must not contain cycles");
+  }
+  return ordered;
+}
+
+// {{ name }} placeholders are normalised to {{name}} in the compiled text
+function normalizePlaceholders(text: string, variables: string[]) {
+  return text.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    if (!variables.includes(name)) {
+      variables.push(name);
+    }
+    return `{{${name}}}`;
+  });
+}
+
+export function compilePromptGraph(graph: PromptGraph): CompiledPrompt {
+  const variables: string[] = [];
+  const sections: string[] = [];
+  let exampleCount = 0;
+
+  for (const node of orderNodes(graph)) {
+    const content = normalizePlaceholders(node.content.trim(), variables);
+    const expectedOutput = normalizePlaceholders((node.expectedOutput ?? "").trim(), variables);
+
+    if (node.type === "example") {
+      if (!content && !expectedOutput) continue;
+      exampleCount++;
+      const header = node.label?.trim() || `${SECTION_HEADERS.example} ${exampleCount}`;
+      const body = [`Input:\n${content}`];
+      if (expectedOutput) {
+        body.push(`Output:\n${expectedOutput}`);
+      }
+      sections.push(`## ${header}\n${body.join("\n\n")}`);
+      continue;
+    }
+
+    if (!content) continue;
+    const header = node.label?.trim() || SECTION_HEADERS[node.type];
+    sections.push(`## ${header}\n${content}`);
+  }
+
+  return { text: sections.join("\n\n"), variables };
+}
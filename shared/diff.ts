@@ -0,0 +1,192 @@
+// Text and structural diffing for prompt revisions and forks
+import type { PromptTechnique } from "./schema";
+
+export type DiffOpType = "equal" | "insert" | "delete";
+
+export interface DiffOp {
+  type: DiffOpType;
+  value: string;
+}
+
+export interface TextDiff {
+  lines: DiffOp[];
+  words: DiffOp[];
+}
+
+export interface JsonChange {
+  path: string;
+  type: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+// One side of a comparison: a revision snapshot or the live prompt
+export interface DiffSide {
+  promptId: string;
+  version: number;
+  title: string;
+  promptBodyText: string | null;
+  promptBodyJson: unknown;
+  rationale: string;
+  techniques?: PromptTechnique[];
+}
+
+export interface PromptDiff {
+  base: { promptId: string; version: number };
+  head: { promptId: string; version: number };
+  title: DiffOp[];
+  promptBodyText: TextDiff;
+  rationale: TextDiff;
+  promptBodyJson: JsonChange[];
+  // Null when either side is a revision recorded before technique tags were snapshotted
+  techniques: { added: PromptTechnique[]; removed: PromptTechnique[] } | null;
+}
+
+// Above this many LCS cells we stop looking for a minimal diff and report a full replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+function diffTokens(a: string[], b: string[]): DiffOp[] {
+  // Trim the common prefix and suffix so the LCS table only covers the changed region
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: DiffOp[] = a.slice(0, prefix).map((value) => ({ type: "equal", value }));
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    ops.push(...midA.map((value): DiffOp => ({ type: "delete", value })));
+    ops.push(...midB.map((value): DiffOp => ({ type: "insert", value })));
+  } else {
+    const n = midA.length;
+    const m = midB.length;
+    const width = m + 1;
+    const table = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        table[i * width + j] = midA[i] === midB[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: "equal", value: midA[i] });
+        i++;
+        j++;
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        ops.push({ type: "delete", value: midA[i++] });
+      } else {
+        ops.push({ type: "insert", value: midB[j++] });
+      }
+    }
+    while (i < n) ops.push({ type: "delete", value: midA[i++] });
+    while (j < m) ops.push({ type: "insert", value: midB[j++] });
+  }
+
+  ops.push(...a.slice(a.length - suffix).map((value): DiffOp => ({ type: "equal", value })));
+  return ops;
+}
+
+// Collapse adjacent ops of the same type so word diffs render as runs
+function mergeOps(ops: DiffOp[]): DiffOp[] {
+  const merged: DiffOp[] = [];
+  for (const op of ops) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === op.type) {
+      last.value += op.value;
+    } else {
+      merged.push({ ...op });
+    }
+  }
+  return merged;
+}
+
+export function diffLines(before: string, after: string): DiffOp[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+  // Lines stay unmerged: the side-by-side view needs one op per line
+  return diffTokens(a, b);
+}
+
+export function diffWords(before: string, after: string): DiffOp[] {
+  // Keep whitespace as its own token so the inline view reproduces the original spacing
+  const tokenize = (text: string) => text.split(/(\s+)/).filter((t) => t.length > 0);
+  return mergeOps(diffTokens(tokenize(before), tokenize(after)));
+}
+
+export function diffText(before: string | null, after: string | null): TextDiff {
+  return {
+    lines: diffLines(before ?? "", after ?? ""),
+    words: diffWords(before ?? "", after ?? ""),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function diffJson(before: unknown, after: unknown, path = "$"): JsonChange[] {
+  if (before === undefined && after === undefined) {
+    return [];
+  }
+  if (before === undefined || before === null) {
+    return after === undefined || after === null ? [] : [{ path, type: "added", after }];
+  }
+  if (after === undefined || after === null) {
+    return [{ path, type: "removed", before }];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      changes.push(...diffJson(before[index], after[index], `${path}[${index}]`));
+    }
+    return changes;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return keys.flatMap((key) => diffJson(before[key], after[key], `${path}.${key}`));
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after)
+    ? []
+    : [{ path, type: "changed", before, after }];
+}
+
+export function diffPrompts(base: DiffSide, head: DiffSide): PromptDiff {
+  let techniques: PromptDiff["techniques"] = null;
+  if (base.techniques && head.techniques) {
+    const baseIds = new Set(base.techniques.map((t) => t.id));
+    const headIds = new Set(head.techniques.map((t) => t.id));
+    techniques = {
+      added: head.techniques.filter((t) => !baseIds.has(t.id)),
+      removed: base.techniques.filter((t) => !headIds.has(t.id)),
+    };
+  }
+
+  return {
+    base: { promptId: base.promptId, version: base.version },
+    head: { promptId: head.promptId, version: head.version },
+    title: diffWords(base.title, head.title),
+    promptBodyText: diffText(base.promptBodyText, head.promptBodyText),
+    rationale: diffText(base.rationale, head.rationale),
+    promptBodyJson: diffJson(base.promptBodyJson, head.promptBodyJson),
+    techniques,
+  };
+}
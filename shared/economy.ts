@@ -0,0 +1,101 @@
+// The reputation economy: what each event is worth, the reputation each privilege needs and the
+// daily limits that keep a few coordinated accounts from minting reputation.
+// DEFAULT_ECONOMY is the shipped config; the server may override it at startup (see
+// server/economy.ts) and serves the result at GET /api/v1/economy, which the client loads
+// before rendering. Everything reads the active config through getEconomy().
+import { z } from "zod";
+
+const amount = z.number().int();
+const threshold = z.number().int().min(0);
+
+export const economySchema = z.object({
+  // Reputation change per event, to the user named in each comment
+  reputation: z.object({
+    PROMPT_UPVOTED: amount, // Prompt author
+    PROMPT_DOWNVOTED: amount, // Prompt author
+    DOWNVOTE_CAST: amount, // Voter, Stack Overflow rule; given back when the downvote goes
+    REVIEW_APPROVED: amount, // Prompt author
+    REVIEW_REJECTED: amount, // Prompt author
+    ACCURATE_REVIEW: amount, // Reviewer whose vote matched the outcome
+    FIRST_PROMPT_APPROVED: amount, // Prompt author, once
+    FORK_APPROVED: amount, // Author of the prompt an approved fork came from
+    COMMENT_UPVOTED: amount,
+    CHANGE_PROPOSAL_ACCEPTED: amount, // Fork author whose changes were adopted upstream
+    SUGGESTED_EDIT_ACCEPTED: amount, // Suggester
+  }),
+  // Reputation needed for each privilege (Stack Overflow style)
+  thresholds: z.object({
+    UPVOTE: threshold,
+    COMMENT: threshold,
+    DOWNVOTE: threshold,
+    SUGGEST_EDIT: threshold,
+    REVIEW: threshold, // Also accepts suggested edits; earns the Reviewer badge
+    MANAGE_RUBRIC: threshold,
+    MODERATE: threshold, // Also manages techniques; earns the Moderator badge
+  }),
+  // Per-user daily limits, counted over the UTC day (Stack Overflow style)
+  caps: z.object({
+    // Reputation a user can gain from votes on their prompts; review approvals and other awards are exempt
+    DAILY_VOTE_REPUTATION: z.number().int().min(1),
+    // New votes a user can cast; retracting one does not free its slot, changing one does not use another
+    DAILY_VOTES: z.number().int().min(1),
+  }),
+});
+
+export type Economy = z.infer<typeof economySchema>;
+export type ReputationRule = keyof Economy['reputation'];
+export type Privilege = keyof Economy['thresholds'];
+
+// An override file names only the values it changes; unknown names are rejected, not ignored
+export const economyOverrideSchema = z.object({
+  reputation: economySchema.shape.reputation.partial().strict(),
+  thresholds: economySchema.shape.thresholds.partial().strict(),
+  caps: economySchema.shape.caps.partial().strict(),
+}).partial().strict();
+
+export const DEFAULT_ECONOMY: Economy = {
+  reputation: {
+    PROMPT_UPVOTED: 10,
+    PROMPT_DOWNVOTED: -2,
+    DOWNVOTE_CAST: -1,
+    REVIEW_APPROVED: 15,
+    REVIEW_REJECTED: -5,
+    ACCURATE_REVIEW: 5,
+    FIRST_PROMPT_APPROVED: 50,
+    FORK_APPROVED: 5,
+    COMMENT_UPVOTED: 2,
+    CHANGE_PROPOSAL_ACCEPTED: 10,
+    SUGGESTED_EDIT_ACCEPTED: 2,
+  },
+  thresholds: {
+    UPVOTE: 15,
+    COMMENT: 50,
+    DOWNVOTE: 125,
+    SUGGEST_EDIT: 50,
+    REVIEW: 500,
+    MANAGE_RUBRIC: 2000,
+    MODERATE: 2000,
+  },
+  caps: {
+    DAILY_VOTE_REPUTATION: 200,
+    DAILY_VOTES: 40,
+  },
+};
+
+let activeEconomy: Economy = DEFAULT_ECONOMY;
+
+export function getEconomy(): Economy {
+  return activeEconomy;
+}
+
+export function setEconomy(economy: Economy): void {
+  activeEconomy = economy;
+}
+
+export function mergeEconomy(base: Economy, override: z.infer<typeof economyOverrideSchema>): Economy {
+  return {
+    reputation: { ...base.reputation, ...override.reputation },
+    thresholds: { ...base.thresholds, ...override.thresholds },
+    caps: { ...base.caps, ...override.caps },
+  };
+}
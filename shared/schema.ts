@@ -8,12 +8,16 @@ import {
   timestamp, 
   jsonb, 
   integer,
+  boolean,
   index,
   serial,
-  primaryKey
+  primaryKey,
+  uniqueIndex,
+  type AnyPgColumn
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { getEconomy } from "./economy";
 
 // Session storage table - Required for Replit Auth
 export const sessions = pgTable(
@@ -35,10 +39,19 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url", { length: 500 }),
   username: varchar("username", { length: 50 }).unique().notNull(),
   reputation: integer("reputation").default(0).notNull(),
+  reviewSuspendedUntil: timestamp("review_suspended_until", { withTimezone: true }), // Set after failed review audits
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Weighted full-text document for a prompt (title > body > rationale).
+// Shared by the GIN index and the search query so Postgres can use the index.
+export const promptSearchDocument = (table: { title: AnyPgColumn; promptBodyText: AnyPgColumn; rationale: AnyPgColumn }) => sql`(
+  setweight(to_tsvector('english', coalesce(${table.title}, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(${table.promptBodyText}, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(${table.rationale}, '')), 'C')
+)`;
+
 // Prompts table - Core content with both text and visual JSON representations
 export const prompts = pgTable("prompts", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -47,12 +60,51 @@ export const prompts = pgTable("prompts", {
   promptBodyText: text("prompt_body_text"), // Final executable prompt text (nullable until compiled)
   promptBodyJson: jsonb("prompt_body_json"), // Visual composer graph structure (nullable)
   rationale: text("rationale").notNull(), // Why this prompt works explanation
+  variables: jsonb("variables").$type<PromptVariable[]>().default([]).notNull(), // Typed {{placeholder}} declarations
   version: integer("version").default(1).notNull(),
   parentPromptId: uuid("parent_prompt_id").references((): any => prompts.id), // For forking
-  status: varchar("status", { length: 20 }).notNull(), // draft, pending_review, approved, rejected
+  status: varchar("status", { length: 20 }).$type<PromptStatus>().notNull(), // See PROMPT_TRANSITIONS
+  reviewRound: integer("review_round").default(1).notNull(), // Incremented on every resubmission
+  submittedAt: timestamp("submitted_at", { withTimezone: true }), // Last time it entered pending_review (queue age)
+  pendingVersion: integer("pending_version"), // Edit of an approved prompt awaiting re-review; the content lives in prompt_revisions
+  pendingStatus: varchar("pending_status", { length: 20 }).$type<PendingRevisionStatus>(), // See PENDING_REVISION_TRANSITIONS
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
-});
+}, (table) => [index("IDX_prompts_search").using("gin", promptSearchDocument(table))]);
+
+// PromptRevisions table - Immutable snapshot of every prompt version
+export const promptRevisions = pgTable(
+  "prompt_revisions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    promptId: uuid("prompt_id").references(() => prompts.id).notNull(),
+    version: integer("version").notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    promptBodyText: text("prompt_body_text"),
+    promptBodyJson: jsonb("prompt_body_json"),
+    rationale: text("rationale").notNull(),
+    variables: jsonb("variables").$type<PromptVariable[]>().default([]).notNull(),
+    techniqueIds: jsonb("technique_ids").$type<number[]>(), // Technique tags at this version; null on revisions recorded before tags were snapshotted
+    editorId: varchar("editor_id").references(() => users.id).notNull(), // Who produced this version
+    editSummary: text("edit_summary"),
+    autosave: boolean("autosave").default(false).notNull(), // Working copy that later autosaves overwrite until a manual save or submission seals it
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("UQ_prompt_revision_version").on(table.promptId, table.version)],
+);
+
+// PromptTransitions table - Audit log of every prompt (and pending revision) status change
+export const promptTransitions = pgTable("prompt_transitions", {
+  id: serial("id").primaryKey(),
+  promptId: uuid("prompt_id").references(() => prompts.id).notNull(),
+  revisionVersion: integer("revision_version"), // Set when a pending revision moved rather than the prompt itself
+  fromStatus: varchar("from_status", { length: 20 }), // Null when the prompt or revision was created
+  toStatus: varchar("to_status", { length: 20 }).notNull(),
+  actorId: varchar("actor_id").references(() => users.id), // For review outcomes, the reviewer who closed the round
+  actorRole: varchar("actor_role", { length: 20 }).$type<PromptActor>().notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [index("IDX_prompt_transitions_prompt").on(table.promptId)]);
 
 // PromptTechniques table - Catalog of prompting techniques
 export const promptTechniques = pgTable("prompt_techniques", {
@@ -80,11 +132,139 @@ export const reviews = pgTable("reviews", {
   id: uuid("id").primaryKey().defaultRandom(),
   promptId: uuid("prompt_id").references(() => prompts.id).notNull(),
   reviewerId: varchar("reviewer_id").references(() => users.id).notNull(),
-  vote: varchar("vote", { length: 10 }).notNull(), // approve, reject
+  vote: varchar("vote", { length: 20 }).notNull(), // approve, reject, request_changes
   comment: text("comment"),
+  round: integer("round").default(1).notNull(), // prompts.reviewRound this review belongs to
+  promptVersion: integer("prompt_version").default(1).notNull(), // Version the reviewer saw
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [uniqueIndex("UQ_reviews_reviewer_version").on(table.promptId, table.reviewerId, table.promptVersion)]);
+
+// ReviewClaims table - Time-boxed lock a reviewer holds on a queued prompt (one per prompt)
+export const reviewClaims = pgTable("review_claims", {
+  promptId: uuid("prompt_id").primaryKey().references(() => prompts.id),
+  reviewerId: varchar("reviewer_id").references(() => users.id).notNull(),
+  claimedAt: timestamp("claimed_at", { withTimezone: true }).defaultNow().notNull(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+});
+
+// ReviewSkips table - Prompts a reviewer passed on; hidden from their queue for that review round
+export const reviewSkips = pgTable(
+  "review_skips",
+  {
+    reviewerId: varchar("reviewer_id").references(() => users.id).notNull(),
+    promptId: uuid("prompt_id").references(() => prompts.id).notNull(),
+    round: integer("round").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.reviewerId, table.promptId] })
+  })
+);
+
+// ChangeProposals table - A fork author asking the parent prompt to adopt the fork's content
+export const changeProposals = pgTable("change_proposals", {
+  id: serial("id").primaryKey(),
+  sourcePromptId: uuid("source_prompt_id").references(() => prompts.id).notNull(), // The fork
+  targetPromptId: uuid("target_prompt_id").references(() => prompts.id).notNull(), // The prompt it was forked from
+  proposerId: varchar("proposer_id").references(() => users.id).notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  description: text("description").notNull(),
+  targetVersion: integer("target_version").notNull(), // Target version the proposal was opened against
+  status: varchar("status", { length: 20 }).$type<ChangeProposalStatus>().default('open').notNull(),
+  mergedSourceVersion: integer("merged_source_version"), // Fork version that was adopted
+  mergedVersion: integer("merged_version"), // Revision of the target it became
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolutionReason: text("resolution_reason"),
+  resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("IDX_change_proposals_target").on(table.targetPromptId, table.createdAt),
+  // A fork has at most one open proposal at a time
+  uniqueIndex("UQ_change_proposal_open").on(table.sourcePromptId).where(sql`${table.status} = 'open'`),
+]);
+
+// ChangeProposalComments table - Discussion on a change proposal, oldest first
+export const changeProposalComments = pgTable("change_proposal_comments", {
+  id: serial("id").primaryKey(),
+  proposalId: integer("proposal_id").references(() => changeProposals.id).notNull(),
+  authorId: varchar("author_id").references(() => users.id).notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [index("IDX_change_proposal_comments_proposal").on(table.proposalId, table.createdAt)]);
+
+// SuggestedEdits table - An edit to someone else's prompt that waits in the suggested-edit
+// queue until an approver accepts it. Null content fields leave that part of the prompt alone.
+export const suggestedEdits = pgTable("suggested_edits", {
+  id: serial("id").primaryKey(),
+  promptId: uuid("prompt_id").references(() => prompts.id).notNull(),
+  suggesterId: varchar("suggester_id").references(() => users.id).notNull(),
+  baseVersion: integer("base_version").notNull(), // Version the suggestion was written against
+  title: varchar("title", { length: 255 }),
+  promptBodyText: text("prompt_body_text"),
+  rationale: text("rationale"),
+  variables: jsonb("variables").$type<PromptVariable[]>(),
+  techniqueIds: jsonb("technique_ids").$type<number[]>(), // Full replacement set of technique tags
+  summary: text("summary").notNull(), // Why the edit is needed, shown to approvers
+  status: varchar("status", { length: 20 }).$type<SuggestedEditStatus>().default('pending').notNull(),
+  reviewerId: varchar("reviewer_id").references(() => users.id),
+  reviewReason: text("review_reason"),
+  reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+  mergedVersion: integer("merged_version"), // Revision of the prompt it became
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("IDX_suggested_edits_queue").on(table.status, table.createdAt),
+  // One pending suggestion per user per prompt
+  uniqueIndex("UQ_suggested_edit_pending").on(table.promptId, table.suggesterId).where(sql`${table.status} = 'pending'`),
+]);
+
+// ReviewAudits table - Known-good/known-bad prompts moderators use to calibrate reviewers
+export const reviewAudits = pgTable("review_audits", {
+  id: serial("id").primaryKey(),
+  promptId: uuid("prompt_id").references(() => prompts.id).unique().notNull(),
+  expectedVote: varchar("expected_vote", { length: 20 }).notNull(), // approve (known-good) or reject (known-bad)
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+// ReviewAuditAttempts table - An audit shown in a reviewer's queue and, once answered, its result
+export const reviewAuditAttempts = pgTable("review_audit_attempts", {
+  id: serial("id").primaryKey(),
+  auditId: integer("audit_id").references(() => reviewAudits.id).notNull(),
+  reviewerId: varchar("reviewer_id").references(() => users.id).notNull(),
+  vote: varchar("vote", { length: 20 }), // Null until answered, and for skipped audits
+  passed: boolean("passed"),
+  assignedAt: timestamp("assigned_at", { withTimezone: true }).defaultNow().notNull(),
+  answeredAt: timestamp("answered_at", { withTimezone: true }),
+}, (table) => [uniqueIndex("UQ_review_audit_attempt").on(table.auditId, table.reviewerId)]);
+
+// ReviewCriteria table - Rubric dimensions reviewers score, managed by high-reputation users
+export const reviewCriteria = pgTable("review_criteria", {
+  id: serial("id").primaryKey(),
+  key: varchar("key", { length: 50 }).unique().notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description").notNull(),
+  active: boolean("active").default(true).notNull(), // Retired criteria keep their past scores
+  sortOrder: integer("sort_order").default(0).notNull(),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 });
 
+// ReviewScores table - One 1-5 rubric score (and optional note) per criterion per review
+export const reviewScores = pgTable(
+  "review_scores",
+  {
+    reviewId: uuid("review_id").references(() => reviews.id).notNull(),
+    criterionId: integer("criterion_id").references(() => reviewCriteria.id).notNull(),
+    score: integer("score").notNull(),
+    note: text("note"),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.reviewId, table.criterionId] })
+  })
+);
+
 // ReputationEvents table - Audit log for reputation changes
 export const reputationEvents = pgTable("reputation_events", {
   id: serial("id").primaryKey(),
@@ -92,6 +272,9 @@ export const reputationEvents = pgTable("reputation_events", {
   eventType: varchar("event_type", { length: 50 }).notNull(), // prompt_upvoted, review_approved, etc.
   changeAmount: integer("change_amount").notNull(),
   relatedPromptId: uuid("related_prompt_id").references(() => prompts.id),
+  // Names the action that produced the event, so a retried action cannot credit it twice.
+  // Vote events have none: the vote row itself records what has been credited.
+  idempotencyKey: varchar("idempotency_key", { length: 200 }).unique(),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 });
 
@@ -126,7 +309,18 @@ export const comments = pgTable("comments", {
   parentCommentId: uuid("parent_comment_id").references((): any => comments.id), // For threaded comments
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
-});
+}, (table) => [index("IDX_comments_search").using("gin", sql`to_tsvector('english', ${table.content})`)]);
+
+// Notifications table - In-app messages to a user, e.g. review feedback on their prompt
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  type: varchar("type", { length: 50 }).notNull(), // changes_requested, ...
+  message: text("message").notNull(),
+  promptId: uuid("prompt_id").references(() => prompts.id),
+  readAt: timestamp("read_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [index("IDX_notifications_user").on(table.userId, table.createdAt)]);
 
 // Votes table - Upvote/downvote system with user-prompt uniqueness
 export const votes = pgTable(
@@ -135,6 +329,7 @@ export const votes = pgTable(
     promptId: uuid("prompt_id").references(() => prompts.id).notNull(),
     userId: varchar("user_id").references(() => users.id).notNull(),
     voteType: varchar("vote_type", { length: 10 }).notNull(), // upvote, downvote
+    cappedAmount: integer("capped_amount").default(0).notNull(), // Author reputation the daily cap withheld from this vote
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   },
   (table) => ({
@@ -142,6 +337,15 @@ export const votes = pgTable(
   })
 );
 
+// VoteCasts table - Append-only log of new votes, kept when a vote is retracted, so the daily
+// vote limit counts every vote cast rather than the votes still standing
+export const voteCasts = pgTable("vote_casts", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  promptId: uuid("prompt_id").references(() => prompts.id).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [index("IDX_vote_casts_user").on(table.userId, table.createdAt)]);
+
 // Relations for better query capabilities
 export const usersRelations = relations(users, ({ many }) => ({
   prompts: many(prompts),
@@ -150,6 +354,8 @@ export const usersRelations = relations(users, ({ many }) => ({
   userBadges: many(userBadges),
   comments: many(comments),
   votes: many(votes),
+  promptRevisions: many(promptRevisions),
+  notifications: many(notifications),
 }));
 
 export const promptsRelations = relations(prompts, ({ one, many }) => ({
@@ -162,6 +368,8 @@ export const promptsRelations = relations(prompts, ({ one, many }) => ({
     references: [prompts.id],
   }),
   forks: many(prompts),
+  revisions: many(promptRevisions),
+  transitions: many(promptTransitions),
   techniques: many(promptTechniqueLinks),
   reviews: many(reviews),
   comments: many(comments),
@@ -169,6 +377,28 @@ export const promptsRelations = relations(prompts, ({ one, many }) => ({
   reputationEvents: many(reputationEvents),
 }));
 
+export const promptRevisionsRelations = relations(promptRevisions, ({ one }) => ({
+  prompt: one(prompts, {
+    fields: [promptRevisions.promptId],
+    references: [prompts.id],
+  }),
+  editor: one(users, {
+    fields: [promptRevisions.editorId],
+    references: [users.id],
+  }),
+}));
+
+export const promptTransitionsRelations = relations(promptTransitions, ({ one }) => ({
+  prompt: one(prompts, {
+    fields: [promptTransitions.promptId],
+    references: [prompts.id],
+  }),
+  actor: one(users, {
+    fields: [promptTransitions.actorId],
+    references: [users.id],
+  }),
+}));
+
 export const promptTechniquesRelations = relations(promptTechniques, ({ one, many }) => ({
   parent: one(promptTechniques, {
     fields: [promptTechniques.parentId],
@@ -189,7 +419,7 @@ export const promptTechniqueLinksRelations = relations(promptTechniqueLinks, ({
   }),
 }));
 
-export const reviewsRelations = relations(reviews, ({ one }) => ({
+export const reviewsRelations = relations(reviews, ({ one, many }) => ({
   prompt: one(prompts, {
     fields: [reviews.promptId],
     references: [prompts.id],
@@ -198,6 +428,116 @@ export const reviewsRelations = relations(reviews, ({ one }) => ({
     fields: [reviews.reviewerId],
     references: [users.id],
   }),
+  scores: many(reviewScores),
+}));
+
+export const reviewClaimsRelations = relations(reviewClaims, ({ one }) => ({
+  prompt: one(prompts, {
+    fields: [reviewClaims.promptId],
+    references: [prompts.id],
+  }),
+  reviewer: one(users, {
+    fields: [reviewClaims.reviewerId],
+    references: [users.id],
+  }),
+}));
+
+export const reviewSkipsRelations = relations(reviewSkips, ({ one }) => ({
+  prompt: one(prompts, {
+    fields: [reviewSkips.promptId],
+    references: [prompts.id],
+  }),
+  reviewer: one(users, {
+    fields: [reviewSkips.reviewerId],
+    references: [users.id],
+  }),
+}));
+
+export const reviewAuditsRelations = relations(reviewAudits, ({ one, many }) => ({
+  prompt: one(prompts, {
+    fields: [reviewAudits.promptId],
+    references: [prompts.id],
+  }),
+  creator: one(users, {
+    fields: [reviewAudits.createdBy],
+    references: [users.id],
+  }),
+  attempts: many(reviewAuditAttempts),
+}));
+
+export const reviewAuditAttemptsRelations = relations(reviewAuditAttempts, ({ one }) => ({
+  audit: one(reviewAudits, {
+    fields: [reviewAuditAttempts.auditId],
+    references: [reviewAudits.id],
+  }),
+  reviewer: one(users, {
+    fields: [reviewAuditAttempts.reviewerId],
+    references: [users.id],
+  }),
+}));
+
+export const changeProposalsRelations = relations(changeProposals, ({ one, many }) => ({
+  source: one(prompts, {
+    fields: [changeProposals.sourcePromptId],
+    references: [prompts.id],
+  }),
+  target: one(prompts, {
+    fields: [changeProposals.targetPromptId],
+    references: [prompts.id],
+  }),
+  proposer: one(users, {
+    fields: [changeProposals.proposerId],
+    references: [users.id],
+  }),
+  comments: many(changeProposalComments),
+}));
+
+export const changeProposalCommentsRelations = relations(changeProposalComments, ({ one }) => ({
+  proposal: one(changeProposals, {
+    fields: [changeProposalComments.proposalId],
+    references: [changeProposals.id],
+  }),
+  author: one(users, {
+    fields: [changeProposalComments.authorId],
+    references: [users.id],
+  }),
+}));
+
+export const suggestedEditsRelations = relations(suggestedEdits, ({ one }) => ({
+  prompt: one(prompts, {
+    fields: [suggestedEdits.promptId],
+    references: [prompts.id],
+  }),
+  suggester: one(users, {
+    fields: [suggestedEdits.suggesterId],
+    references: [users.id],
+  }),
+}));
+
+export const reviewCriteriaRelations = relations(reviewCriteria, ({ many }) => ({
+  scores: many(reviewScores),
+}));
+
+export const reviewScoresRelations = relations(reviewScores, ({ one }) => ({
+  review: one(reviews, {
+    fields: [reviewScores.reviewId],
+    references: [reviews.id],
+  }),
+  criterion: one(reviewCriteria, {
+    fields: [reviewScores.criterionId],
+    references: [reviewCriteria.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  prompt: one(prompts, {
+    fields: [notifications.promptId],
+    references: [prompts.id],
+  }),
 }));
 
 export const reputationEventsRelations = relations(reputationEvents, ({ one }) => ({
@@ -249,6 +589,170 @@ export const votesRelations = relations(votes, ({ one }) => ({
   }),
 }));
 
+// Visual Prompt Composer graph - the shape stored in prompts.promptBodyJson
+export const COMPOSER_NODE_TYPES = [
+  'role',
+  'instruction',
+  'context',
+  'example',
+  'constraint',
+  'output_format',
+] as const;
+
+export const composerNodeSchema = z.object({
+  id: z.string().min(1).max(64),
+  type: z.enum(COMPOSER_NODE_TYPES),
+  label: z.string().max(100).optional(),
+  content: z.string().max(20000),
+  expectedOutput: z.string().max(20000).optional(), // Only meaningful for example nodes
+  position: z.object({ x: z.number(), y: z.number() }),
+});
+
+export const composerEdgeSchema = z.object({
+  id: z.string().min(1).max(64),
+  source: z.string().min(1),
+  target: z.string().min(1),
+});
+
+export const promptGraphSchema = z.object({
+  version: z.literal(1),
+  nodes: z.array(composerNodeSchema).max(200),
+  edges: z.array(composerEdgeSchema).max(500),
+}).superRefine((graph, ctx) => {
+  const nodeIds = new Set<string>();
+  graph.nodes.forEach((node, index) => {
+    if (nodeIds.has(node.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['nodes', index, 'id'], message: `Duplicate node id "${node.id}"` });
+    }
+    nodeIds.add(node.id);
+  });
+
+  const edgeKeys = new Set<string>();
+  const outgoing = new Map<string, string[]>();
+  graph.edges.forEach((edge, index) => {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['edges', index], message: `Edge "${edge.id}" references an unknown node` });
+      return;
+    }
+    if (edge.source === edge.target) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['edges', index], message: `Edge "${edge.id}" links a node to itself` });
+      return;
+    }
+    const key = `${edge.source}->${edge.target}`;
+    if (edgeKeys.has(key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['edges', index], message: `Duplicate edge ${key}` });
+      return;
+    }
+    edgeKeys.add(key);
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) || []), edge.target]);
+  });
+
+  // Edges define reading order, so the graph must be acyclic
+  const state = new Map<string, 'visiting' | 'done'>();
+  const hasCycle = (id: string): boolean => {
+    if (state.get(id) === 'visiting') return true;
+    if (state.get(id) === 'done') return false;
+    state.set(id, 'visiting');
+    const cyclic = (outgoing.get(id) || []).some(hasCycle);
+    state.set(id, 'done');
+    return cyclic;
+  };
+  if (Array.from(nodeIds).some(hasCycle)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['edges'], message: "Composer graph must not contain cycles" });
+  }
+});
+
+// Template variable declarations - every {{name}} placeholder in promptBodyText must be declared
+export const PROMPT_VARIABLE_TYPES = ['string', 'enum', 'number', 'multiline'] as const;
+
+export const promptVariableSchema = z.object({
+  name: z.string().max(64).regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Variable names may only contain letters, digits and underscores"),
+  type: z.enum(PROMPT_VARIABLE_TYPES),
+  description: z.string().max(500).optional(),
+  default: z.string().max(5000).optional(),
+  options: z.array(z.string().min(1).max(200)).max(50).optional(), // Required for enum variables
+}).superRefine((variable, ctx) => {
+  if (variable.type === 'enum' && (!variable.options || variable.options.length === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: `Enum variable "${variable.name}" needs at least one option` });
+  }
+  if (variable.default === undefined || variable.default === '') {
+    return;
+  }
+  if (variable.type === 'number' && isNaN(Number(variable.default))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['default'], message: `Default for "${variable.name}" must be a number` });
+  }
+  if (variable.type === 'enum' && !variable.options?.includes(variable.default)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['default'], message: `Default for "${variable.name}" must be one of its options` });
+  }
+});
+
+export const promptVariablesSchema = z.array(promptVariableSchema).max(50).superRefine((variables, ctx) => {
+  const names = new Set<string>();
+  variables.forEach((variable, index) => {
+    if (names.has(variable.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'name'], message: `Variable "${variable.name}" is declared twice` });
+    }
+    names.add(variable.name);
+  });
+});
+
+// A prompt's full set of technique tags; revisions snapshot it alongside the content
+export const promptTechniqueIdsSchema = z.array(z.number().int().positive()).max(20).transform(ids => Array.from(new Set(ids)));
+
+// Prompt lifecycle. Each status lists the statuses it may move to and who may make the move:
+// the prompt's author, a moderator, or the review pipeline once reviewers reach consensus.
+export const PROMPT_STATUSES = ['draft', 'pending_review', 'needs_changes', 'approved', 'rejected', 'archived'] as const;
+export const PROMPT_ACTORS = ['author', 'moderator', 'review'] as const;
+
+export const PROMPT_TRANSITIONS: Record<PromptStatus, Partial<Record<PromptStatus, readonly PromptActor[]>>> = {
+  draft: { pending_review: ['author'], archived: ['author', 'moderator'] },
+  pending_review: {
+    draft: ['author'],
+    approved: ['review'],
+    rejected: ['review'],
+    needs_changes: ['review'],
+    archived: ['moderator'],
+  },
+  needs_changes: { pending_review: ['author'], draft: ['author'], archived: ['author', 'moderator'] },
+  approved: { archived: ['author', 'moderator'] },
+  rejected: { pending_review: ['author'], archived: ['author', 'moderator'] },
+  archived: {},
+};
+
+// Work in progress: prompts in these statuses are only listed and searched for their author
+export const PRIVATE_PROMPT_STATUSES = ['draft', 'needs_changes'] as const satisfies readonly PromptStatus[];
+
+export function isPrivatePromptStatus(status: PromptStatus): boolean {
+  return (PRIVATE_PROMPT_STATUSES as readonly PromptStatus[]).includes(status);
+}
+
+// To anyone but its author a private prompt does not exist: reads by ID 404 just as listings
+// and search leave it out
+export function isHiddenFrom(prompt: Pick<Prompt, 'status' | 'authorId'>, viewerId: string | undefined): boolean {
+  return isPrivatePromptStatus(prompt.status) && prompt.authorId !== viewerId;
+}
+
+// Pending revisions of approved prompts have a smaller lifecycle; reaching approved promotes
+// the revision to the live content and rejected discards it
+export const PENDING_REVISION_STATUSES = ['draft', 'pending_review', 'needs_changes'] as const;
+
+export const PENDING_REVISION_TRANSITIONS: Record<PendingRevisionStatus, Partial<Record<PendingRevisionStatus | 'approved' | 'rejected', readonly PromptActor[]>>> = {
+  draft: { pending_review: ['author'] },
+  pending_review: { draft: ['author'], needs_changes: ['review'], approved: ['review'], rejected: ['review'] },
+  needs_changes: { pending_review: ['author'], draft: ['author'] },
+};
+
+// Change proposals stay open until the target's author (or a moderator) accepts or declines
+// them, or the proposer withdraws
+export const CHANGE_PROPOSAL_STATUSES = ['open', 'accepted', 'declined', 'withdrawn'] as const;
+
+// Suggested edits are accepted or rejected once, by the prompt's author or a reviewer
+export const SUGGESTED_EDIT_STATUSES = ['pending', 'accepted', 'rejected'] as const;
+
+// Prompt library ordering - `top` can be limited to a recent window
+export const PROMPT_SORTS = ['hot', 'top', 'new', 'active', 'controversial'] as const;
+export const TOP_WINDOWS = ['day', 'week', 'month', 'all'] as const;
+
 // Zod schemas for validation
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -258,17 +762,147 @@ export const insertUserSchema = createInsertSchema(users).omit({
 
 export const insertPromptSchema = createInsertSchema(prompts).omit({
   id: true,
+  submittedAt: true,
+  pendingVersion: true,
+  pendingStatus: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
-  status: z.enum(['draft', 'pending_review', 'approved', 'rejected']).default('draft'),
+  status: z.enum(PROMPT_STATUSES).default('draft'),
+  promptBodyJson: promptGraphSchema.nullable().optional(),
+  variables: promptVariablesSchema.default([]),
+});
+
+// What a client may send when creating a prompt; author, status, version and fork parent
+// are set by the server
+export const createPromptSchema = insertPromptSchema.omit({
+  authorId: true,
+  status: true,
+  version: true,
+  parentPromptId: true,
+}).extend({
+  techniqueIds: promptTechniqueIdsSchema.default([]),
+});
+
+// Fields an author may change when editing; every edit is snapshotted as a revision.
+// Status only changes through the lifecycle endpoints (submit, withdraw, archive).
+export const updatePromptSchema = insertPromptSchema.pick({
+  title: true,
+  promptBodyText: true,
+  promptBodyJson: true,
+  rationale: true,
+  variables: true,
+}).partial().extend({
+  techniqueIds: promptTechniqueIdsSchema.optional(),
+  editSummary: z.string().max(500).optional(),
 });
 
+// Body of POST /api/v1/prompts/:id/{submit,withdraw,archive}
+export const promptTransitionRequestSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Opened from the fork; the target is always the fork's parent
+export const insertChangeProposalSchema = createInsertSchema(changeProposals).pick({
+  sourcePromptId: true,
+}).extend({
+  title: z.string().trim().min(5).max(255),
+  description: z.string().trim().min(10).max(5000),
+});
+
+// Body of POST /api/v1/change-proposals/:id/{accept,decline,withdraw}
+export const changeProposalResolutionSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+});
+
+export const insertChangeProposalCommentSchema = z.object({
+  content: z.string().trim().min(1).max(5000),
+});
+
+// Only the fields being changed are sent; at least one must differ from the current content
+export const insertSuggestedEditSchema = z.object({
+  promptId: z.string().uuid(),
+  title: z.string().trim().min(1).max(255).optional(),
+  promptBodyText: z.string().trim().min(1).optional(),
+  rationale: z.string().trim().min(1).optional(),
+  variables: promptVariablesSchema.optional(),
+  techniqueIds: promptTechniqueIdsSchema.optional(),
+  summary: z.string().trim().min(5).max(500),
+});
+
+// Body of POST /api/v1/suggested-edits/:id/{accept,reject}
+export const suggestedEditReviewSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Body of POST /api/v1/reputation/recompute; without apply it only reports
+export const reputationRecomputeSchema = z.object({
+  rederive: z.boolean().default(false),
+  apply: z.boolean().default(false),
+});
+
+export const insertPromptRevisionSchema = createInsertSchema(promptRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const REVIEW_VOTES = ['approve', 'reject', 'request_changes'] as const;
+
+export const RUBRIC_SCALE = { MIN: 1, MAX: 5 } as const;
+
+export const reviewScoreInputSchema = z.object({
+  criterionId: z.number().int().positive(),
+  score: z.number().int().min(RUBRIC_SCALE.MIN).max(RUBRIC_SCALE.MAX),
+  note: z.string().trim().max(1000).nullable().optional(),
+});
+
+// round and promptVersion are stamped by the server from the prompt being reviewed.
+// Which criteria must be scored depends on the live rubric, so routes check coverage.
 export const insertReviewSchema = createInsertSchema(reviews).omit({
   id: true,
+  round: true,
+  promptVersion: true,
+  createdAt: true,
+}).extend({
+  vote: z.enum(REVIEW_VOTES),
+  comment: z.string().trim().max(5000).nullable().optional(),
+  scores: z.array(reviewScoreInputSchema).max(50).default([]),
+}).refine(
+  (review) => review.vote !== 'request_changes' || (review.comment?.length ?? 0) >= 10,
+  { message: "Explain what needs to change (at least 10 characters)", path: ['comment'] },
+).refine(
+  (review) => new Set(review.scores.map(score => score.criterionId)).size === review.scores.length,
+  { message: "Each criterion can only be scored once", path: ['scores'] },
+);
+
+// Keys are stable identifiers; deactivate a criterion instead of renaming its key
+export const insertReviewCriterionSchema = createInsertSchema(reviewCriteria).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, "Use lowercase letters, digits and underscores").max(50),
+  name: z.string().trim().min(2).max(100),
+  description: z.string().trim().min(10).max(1000),
+  sortOrder: z.number().int().min(0).max(1000).optional(),
+});
+
+export const updateReviewCriterionSchema = insertReviewCriterionSchema.omit({ key: true }).partial();
+
+// expectedVote defaults to the prompt's settled status (approved -> approve, rejected -> reject)
+export const insertReviewAuditSchema = createInsertSchema(reviewAudits).omit({
+  id: true,
+  createdBy: true,
+  active: true,
   createdAt: true,
 }).extend({
-  vote: z.enum(['approve', 'reject']),
+  expectedVote: z.enum(['approve', 'reject']).optional(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
 });
 
 export const insertCommentSchema = createInsertSchema(comments).omit({
@@ -278,6 +912,7 @@ export const insertCommentSchema = createInsertSchema(comments).omit({
 });
 
 export const insertVoteSchema = createInsertSchema(votes).omit({
+  cappedAmount: true,
   createdAt: true,
 }).extend({
   voteType: z.enum(['upvote', 'downvote']),
@@ -305,10 +940,25 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type Prompt = typeof prompts.$inferSelect;
 export type InsertPrompt = z.infer<typeof insertPromptSchema>;
+export type UpdatePrompt = z.infer<typeof updatePromptSchema>;
+
+export type PromptRevision = typeof promptRevisions.$inferSelect;
+export type InsertPromptRevision = z.infer<typeof insertPromptRevisionSchema>;
 
 export type Review = typeof reviews.$inferSelect;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
 
+export type ReviewVote = typeof REVIEW_VOTES[number];
+
+export type ReviewCriterion = typeof reviewCriteria.$inferSelect;
+export type InsertReviewCriterion = z.infer<typeof insertReviewCriterionSchema>;
+export type UpdateReviewCriterion = z.infer<typeof updateReviewCriterionSchema>;
+export type ReviewScore = typeof reviewScores.$inferSelect;
+export type ReviewScoreInput = z.infer<typeof reviewScoreInputSchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
 export type Comment = typeof comments.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 
@@ -327,34 +977,286 @@ export type InsertPromptTechnique = z.infer<typeof insertPromptTechniqueSchema>;
 export type PromptTechniqueLink = typeof promptTechniqueLinks.$inferSelect;
 export type UserBadge = typeof userBadges.$inferSelect;
 
+export type ComposerNodeType = typeof COMPOSER_NODE_TYPES[number];
+export type ComposerNode = z.infer<typeof composerNodeSchema>;
+export type ComposerEdge = z.infer<typeof composerEdgeSchema>;
+export type PromptGraph = z.infer<typeof promptGraphSchema>;
+
+export type PromptVariableType = typeof PROMPT_VARIABLE_TYPES[number];
+export type PromptVariable = z.infer<typeof promptVariableSchema>;
+
+export type PromptStatus = typeof PROMPT_STATUSES[number];
+export type PendingRevisionStatus = typeof PENDING_REVISION_STATUSES[number];
+export type PromptActor = typeof PROMPT_ACTORS[number];
+export type PromptTransition = typeof promptTransitions.$inferSelect;
+export type PromptTransitionRequest = z.infer<typeof promptTransitionRequestSchema>;
+// Who is moving a prompt; id is null only for system-initiated changes
+export type TransitionActor = { id: string | null; role: PromptActor };
+
+export type ChangeProposalStatus = typeof CHANGE_PROPOSAL_STATUSES[number];
+export type ChangeProposal = typeof changeProposals.$inferSelect;
+export type InsertChangeProposal = z.infer<typeof insertChangeProposalSchema>;
+export type ChangeProposalResolution = z.infer<typeof changeProposalResolutionSchema>;
+export type ChangeProposalComment = typeof changeProposalComments.$inferSelect;
+export type ChangeProposalWithPrompts = ChangeProposal & {
+  sourceTitle: string;
+  targetTitle: string;
+  targetAuthorId: string;
+  commentCount: number;
+};
+
+export type SuggestedEditStatus = typeof SUGGESTED_EDIT_STATUSES[number];
+export type SuggestedEdit = typeof suggestedEdits.$inferSelect;
+export type InsertSuggestedEdit = z.infer<typeof insertSuggestedEditSchema>;
+export type SuggestedEditWithPrompt = SuggestedEdit & {
+  promptTitle: string;
+  promptAuthorId: string;
+  promptVersion: number; // The prompt's current review version, to spot stale suggestions
+};
+
+export type PromptSort = typeof PROMPT_SORTS[number];
+export type TopWindow = typeof TOP_WINDOWS[number];
+
 // Extended types for joined queries
 export type PromptWithTechniques = Prompt & { techniques: PromptTechnique[] };
 export type PromptWithStats = PromptWithTechniques & { 
   voteCount: number; 
   commentCount: number;
 };
+// Envelope returned by every paginated list endpoint; pass nextCursor back as ?cursor=
+export type Page<T> = {
+  items: T[];
+  nextCursor: string | null;
+  totalCount: number;
+};
 
-// Reputation thresholds for permissions (Stack Overflow style)
-export const REPUTATION_THRESHOLDS = {
-  UPVOTE: 15,
-  COMMENT: 50,
-  DOWNVOTE: 125,
-  REVIEW: 500,  // Existing requirement
+// One prompt in a fork family, as returned by GET /api/v1/prompts/:id/lineage
+export type LineageNode = Pick<Prompt, 'id' | 'title' | 'authorId' | 'status' | 'version' | 'parentPromptId' | 'createdAt'> & {
+  upvotes: number;
+  downvotes: number;
+  voteCount: number; // Net votes
+  forkCount: number; // Direct forks, including unpublished drafts
+};
+// Stands in for an ancestor that is private to someone else; only its place in the chain shows
+export type HiddenLineageNode = Pick<LineageNode, 'id' | 'parentPromptId'> & { hidden: true };
+export type PromptLineage = {
+  ancestors: (LineageNode | HiddenLineageNode)[]; // Root first, ending with the direct parent
+  prompt: LineageNode;
+  descendants: LineageNode[]; // Public forks at any depth, breadth-first; link them up by parentPromptId
+  truncated: boolean; // More descendants exist than LINEAGE.MAX_DESCENDANTS
+};
+
+export type SearchResult = PromptWithStats & {
+  rank: number;
+  snippet: string; // ts_headline excerpt with <mark> around matched terms
+  commentSnippet: string | null; // Best matching comment, if any
+};
+export type ReviewClaim = typeof reviewClaims.$inferSelect;
+export type ReviewAudit = typeof reviewAudits.$inferSelect;
+export type InsertReviewAudit = z.infer<typeof insertReviewAuditSchema>;
+export type ReviewAuditAttempt = typeof reviewAuditAttempts.$inferSelect;
+export type ReviewAuditWithStats = ReviewAudit & {
+  promptTitle: string;
+  attemptCount: number; // Answered attempts
+  passCount: number;
+};
+// Revealed to the reviewer once they answer an audit item
+export type ReviewAuditOutcome = {
+  passed: boolean;
+  expectedVote: string;
+  suspendedUntil: Date | null;
+};
+// POST /api/v1/reviews response: a real review and its tally, or the result of an audit
+export type ReviewSubmission =
+  | { review: Review; tally: ReviewTally; audit?: undefined }
+  | { review: null; tally: null; audit: ReviewAuditOutcome };
+export type ReviewQueueItem = Prompt & {
+  reviewCount: number; // Reviews in the current round
+  queuedAt: Date; // When the prompt (re)entered the queue
+  firstTimeAuthor: boolean; // Author has no approved prompts yet
+  claimExpiresAt: Date | null; // Set while the requesting reviewer holds the claim
+};
+export type ReviewQueueFilters = {
+  techniqueId?: number;
+  firstTimeAuthor?: boolean;
+};
+export type ReviewWithReviewer = Review & { reviewerReputation: number };
+export type ReviewWithScores = Review & { scores: ReviewScore[] };
+
+// Average rubric score per criterion across every review counted in the aggregate
+export type RubricScoreSummary = {
+  criterionId: number;
+  key: string;
+  name: string;
+  averageScore: number;
+  scoreCount: number;
+};
+
+// Running consensus for the current review round; outcome stays null until quorum is
+// decisive, or becomes needs_changes as soon as a reviewer requests changes
+export type ReviewTally = {
+  reviewCount: number;
+  required: number;
+  approveWeight: number;
+  rejectWeight: number;
+  outcome: 'approved' | 'rejected' | 'needs_changes' | null;
+};
+
+// Review consensus: a prompt leaves pending_review once QUORUM reviews are in and
+// one side outweighs the other. 'weighted' scales each vote by reviewer reputation.
+export const REVIEW_CONSENSUS = {
+  QUORUM: 3,
+  MODE: 'weighted' as 'majority' | 'weighted',
 } as const;
 
-// Permission check helpers
+// Conflict-of-interest rules applied on top of the always-on self-review and duplicate-review
+// guards. Fork relationships: either user has forked a prompt written by the other.
+export const REVIEW_CONFLICT_RULES = {
+  BLOCK_FORK_RELATIONSHIPS: true as boolean,
+} as const;
+
+// Why POST /api/v1/reviews refused a review, or (under_review) why an author's change was refused
+// while reviewers have the prompt; sent as { code, message } with a 403 or 409
+export const REVIEW_BLOCK_CODES = ['not_pending', 'self_review', 'fork_conflict', 'duplicate_review', 'claimed', 'review_suspended', 'under_review'] as const;
+export type ReviewBlockCode = typeof REVIEW_BLOCK_CODES[number];
+export type ReviewBlock = {
+  status: 403 | 409;
+  code: ReviewBlockCode;
+  message: string;
+};
+
+// Why a lifecycle action (submit, withdraw, archive) was refused: 409 when the prompt's status
+// has no such move, 403 when the move exists but the user's role may not make it, 400 when a
+// draft is submitted before its content is complete
+export type TransitionRefusal = {
+  status: 400 | 403 | 409;
+  message: string;
+};
+
+// Review queue: claims lock a prompt to one reviewer for CLAIM_MINUTES. The queue is ordered
+// by submission time moved earlier by the boosts below, so resubmissions, prompts close to
+// quorum and first-time authors surface sooner. Items waiting past SLA_HOURS are overdue.
+export const REVIEW_QUEUE = {
+  CLAIM_MINUTES: 30,
+  SLA_HOURS: 48,
+  RESUBMISSION_BOOST_HOURS: 24,
+  PER_REVIEW_BOOST_HOURS: 12,
+  FIRST_TIME_AUTHOR_BOOST_HOURS: 12,
+} as const;
+
+// Review audits: once a reviewer has submitted INTERVAL reviews since their last audit, an
+// audit item is mixed into their queue. MAX_FAILURES failed audits among their last WINDOW
+// suspends review privileges for SUSPENSION_DAYS.
+export const REVIEW_AUDITS = {
+  INTERVAL: 5,
+  WINDOW: 5,
+  MAX_FAILURES: 2,
+  SUSPENSION_DAYS: 7,
+} as const;
+
+// Drafts: editors autosave in-progress work every AUTOSAVE_SECONDS. Drafts that are still
+// empty after STALE_EMPTY_DAYS are deleted by a cleanup job running every CLEANUP_INTERVAL_HOURS.
+export const DRAFTS = {
+  AUTOSAVE_SECONDS: 10,
+  STALE_EMPTY_DAYS: 7,
+  CLEANUP_INTERVAL_HOURS: 6,
+} as const;
+
+// Fork lineage: how far GET /api/v1/prompts/:id/lineage walks up and down a fork family.
+// Chains deeper than MAX_DEPTH are cut off.
+export const LINEAGE = {
+  MAX_DEPTH: 20,
+  MAX_DESCENDANTS: 200,
+} as const;
+
+// An approved prompt with a pending revision stays live while the revision is reviewed;
+// these give the status and version the review pipeline is working on
+export function reviewStatusOf(prompt: Pick<Prompt, 'status' | 'pendingStatus'>): PromptStatus {
+  return prompt.pendingStatus ?? prompt.status;
+}
+
+export function reviewVersionOf(prompt: Pick<Prompt, 'version' | 'pendingVersion'>): number {
+  return prompt.pendingVersion ?? prompt.version;
+}
+
+// Content under review is frozen, so reviews already cast in the round judge what reviewers
+// saw; the author withdraws it to draft to change it
+export function isUnderReview(prompt: Pick<Prompt, 'status' | 'pendingStatus'>): boolean {
+  return reviewStatusOf(prompt) === 'pending_review';
+}
+
+// Autosave only writes to drafts: draft prompts, and edits of approved prompts (which start
+// or continue a draft revision). Anything further along is saved explicitly.
+export function canAutosave(prompt: Pick<Prompt, 'status' | 'pendingStatus'>): boolean {
+  return prompt.status === 'draft' || (prompt.status === 'approved' && (prompt.pendingStatus ?? 'draft') === 'draft');
+}
+
+// Change proposals are settled by the target's author or a moderator; the proposer can only
+// withdraw. Reviewers may join the discussion alongside both parties.
+export function canResolveChangeProposal(proposal: Pick<ChangeProposalWithPrompts, 'targetAuthorId'>, user: Pick<User, 'id' | 'reputation'>): boolean {
+  return proposal.targetAuthorId === user.id || canModerate(user.reputation);
+}
+
+export function canDiscussChangeProposal(proposal: Pick<ChangeProposalWithPrompts, 'targetAuthorId' | 'proposerId'>, user: Pick<User, 'id' | 'reputation'>): boolean {
+  return proposal.proposerId === user.id || proposal.targetAuthorId === user.id || canReview(user.reputation);
+}
+
+// Suggested edits come from anyone but the author, on prompts that are out of draft and not
+// archived; the author or any reviewer other than the suggester settles them
+export function canSuggestEdit(prompt: Pick<Prompt, 'authorId' | 'status'>, user: Pick<User, 'id' | 'reputation'>): boolean {
+  return prompt.authorId !== user.id
+    && prompt.status !== 'draft'
+    && prompt.status !== 'archived'
+    && user.reputation >= getEconomy().thresholds.SUGGEST_EDIT;
+}
+
+export function canReviewSuggestedEdit(edit: Pick<SuggestedEditWithPrompt, 'promptAuthorId' | 'suggesterId'>, user: Pick<User, 'id' | 'reputation'>): boolean {
+  return edit.suggesterId !== user.id && (edit.promptAuthorId === user.id || canReview(user.reputation));
+}
+
+// Whether any of the given roles may make this move (see PROMPT_TRANSITIONS)
+export function canTransitionPrompt(from: PromptStatus, to: PromptStatus, roles: readonly PromptActor[]): boolean {
+  return (PROMPT_TRANSITIONS[from]?.[to] ?? []).some(role => roles.includes(role));
+}
+
+export function canTransitionRevision(
+  from: PendingRevisionStatus,
+  to: PendingRevisionStatus | 'approved' | 'rejected',
+  roles: readonly PromptActor[],
+): boolean {
+  return (PENDING_REVISION_TRANSITIONS[from]?.[to] ?? []).some(role => roles.includes(role));
+}
+
+// 1 at the review threshold, +1 for every tenfold increase in reputation
+export function reviewerWeight(reputation: number): number {
+  if (REVIEW_CONSENSUS.MODE === 'majority') {
+    return 1;
+  }
+  const threshold = getEconomy().thresholds.REVIEW;
+  return 1 + Math.log10(Math.max(reputation, threshold) / threshold);
+}
+
+// Permission check helpers; thresholds come from the active economy (shared/economy.ts)
 export function canUpvote(reputation: number): boolean {
-  return reputation >= REPUTATION_THRESHOLDS.UPVOTE;
+  return reputation >= getEconomy().thresholds.UPVOTE;
 }
 
 export function canDownvote(reputation: number): boolean {
-  return reputation >= REPUTATION_THRESHOLDS.DOWNVOTE;
+  return reputation >= getEconomy().thresholds.DOWNVOTE;
 }
 
 export function canComment(reputation: number): boolean {
-  return reputation >= REPUTATION_THRESHOLDS.COMMENT;
+  return reputation >= getEconomy().thresholds.COMMENT;
 }
 
 export function canReview(reputation: number): boolean {
-  return reputation >= REPUTATION_THRESHOLDS.REVIEW;
+  return reputation >= getEconomy().thresholds.REVIEW;
+}
+
+export function canManageRubric(reputation: number): boolean {
+  return reputation >= getEconomy().thresholds.MANAGE_RUBRIC;
+}
+
+export function canModerate(reputation: number): boolean {
+  return reputation >= getEconomy().thresholds.MODERATE;
 }
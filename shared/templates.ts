@@ -0,0 +1,37 @@
+// Template variable syntax: {{name}} placeholders in promptBodyText
+import type { PromptVariable } from "./schema";
+
+// Whitespace inside the braces is tolerated; the compiler normalises it away
+export const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Placeholder names in order of first appearance
+export function extractPlaceholders(text: string | null | undefined): string[] {
+  const names: string[] = [];
+  for (const match of Array.from((text ?? "").matchAll(PLACEHOLDER_PATTERN))) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+export function findUndeclaredPlaceholders(
+  text: string | null | undefined,
+  variables: PromptVariable[],
+): string[] {
+  const declared = new Set(variables.map((variable) => variable.name));
+  return extractPlaceholders(text).filter((name) => !declared.has(name));
+}
+
+// Substitute values (falling back to declared defaults); unknown placeholders are left as-is
+export function fillTemplate(
+  text: string,
+  variables: PromptVariable[],
+  values: Record<string, string>,
+): string {
+  const byName = new Map(variables.map((variable) => [variable.name, variable]));
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = values[name] || byName.get(name)?.default;
+    return value !== undefined && value !== "" ? value : placeholder;
+  });
+}